@@ -1,5 +1,117 @@
-export type SkyboxImages = [];
+import type Image from '../../loader/image';
 
+import forestSlope0 from 'url:./forest_slope/skybox0.png';
+import forestSlope1 from 'url:./forest_slope/skybox1.png';
+import forestSlope2 from 'url:./forest_slope/skybox2.png';
+import forestSlope3 from 'url:./forest_slope/skybox3.png';
+import forestSlope4 from 'url:./forest_slope/skybox4.png';
+import forestSlope5 from 'url:./forest_slope/skybox5.png';
+
+import forestSlopeRadiance0 from 'url:./forest_slope/prefiltered_roughness0_0-0.exr';
+import forestSlopeRadiance1 from 'url:./forest_slope/prefiltered_roughness0_0-1.exr';
+import forestSlopeRadiance2 from 'url:./forest_slope/prefiltered_roughness0_0-2.exr';
+import forestSlopeRadiance3 from 'url:./forest_slope/prefiltered_roughness0_0-3.exr';
+import forestSlopeRadiance4 from 'url:./forest_slope/prefiltered_roughness0_0-4.exr';
+import forestSlopeRadiance5 from 'url:./forest_slope/prefiltered_roughness0_0-5.exr';
+
+import forestSlopeIrradiance0 from 'url:./forest_slope/irradiance0.exr';
+import forestSlopeIrradiance1 from 'url:./forest_slope/irradiance1.exr';
+import forestSlopeIrradiance2 from 'url:./forest_slope/irradiance2.exr';
+import forestSlopeIrradiance3 from 'url:./forest_slope/irradiance3.exr';
+import forestSlopeIrradiance4 from 'url:./forest_slope/irradiance4.exr';
+import forestSlopeIrradiance5 from 'url:./forest_slope/irradiance5.exr';
+
+import immenstadterHorn0 from 'url:./immenstadter_horn/skybox0.png';
+import immenstadterHorn1 from 'url:./immenstadter_horn/skybox1.png';
+import immenstadterHorn2 from 'url:./immenstadter_horn/skybox2.png';
+import immenstadterHorn3 from 'url:./immenstadter_horn/skybox3.png';
+import immenstadterHorn4 from 'url:./immenstadter_horn/skybox4.png';
+import immenstadterHorn5 from 'url:./immenstadter_horn/skybox5.png';
+
+import immenstadterHornIrradiance0 from 'url:./immenstadter_horn/irradiance0.hdr';
+import immenstadterHornIrradiance1 from 'url:./immenstadter_horn/irradiance1.hdr';
+import immenstadterHornIrradiance2 from 'url:./immenstadter_horn/irradiance2.hdr';
+import immenstadterHornIrradiance3 from 'url:./immenstadter_horn/irradiance3.hdr';
+import immenstadterHornIrradiance4 from 'url:./immenstadter_horn/irradiance4.hdr';
+import immenstadterHornIrradiance5 from 'url:./immenstadter_horn/irradiance5.hdr';
+
+import photoStudio from 'url:./photo_studio_01_1k.hdr';
+
+// the faces of a cube map in the order +x, -x, +y, -y, +z, -z
+export type SkyboxImages = [Image, Image, Image, Image, Image, Image];
+
+// what's generated from an environment to draw it and light with it
 export type ImageBasedLighting = {
-    //
-};
\ No newline at end of file
+    skybox: WebGLTexture;
+    irradiance: Float32Array; // spherical harmonics, see sphericalHarmonics.ts
+    prefiltered: WebGLTexture[]; // by roughness, from 0 to 1
+};
+
+// what an environment's lighting is generated from
+export interface EnvironmentSource {
+    radiance: Image | SkyboxImages; // reflections are prefiltered from it, so it should be HDR
+    background?: Image | SkyboxImages; // drawn behind the model instead of the radiance, where that's too blurry
+    irradiance?: SkyboxImages; // HDR and already convolved for diffuse lighting, otherwise it's projected from the radiance
+}
+
+// the urls of an equirectangular image or six cube faces for each part of an EnvironmentSource
+export interface BundledBackground {
+    name: string;
+    radiance: string | string[];
+    background?: string[];
+    irradiance?: string[];
+}
+
+export const BUNDLED_BACKGROUNDS: BundledBackground[] = [
+    {
+        name: 'Forest slope',
+        radiance: [
+            forestSlopeRadiance0,
+            forestSlopeRadiance1,
+            forestSlopeRadiance2,
+            forestSlopeRadiance3,
+            forestSlopeRadiance4,
+            forestSlopeRadiance5,
+        ],
+        background: [
+            forestSlope0,
+            forestSlope1,
+            forestSlope2,
+            forestSlope3,
+            forestSlope4,
+            forestSlope5,
+        ],
+        irradiance: [
+            forestSlopeIrradiance0,
+            forestSlopeIrradiance1,
+            forestSlopeIrradiance2,
+            forestSlopeIrradiance3,
+            forestSlopeIrradiance4,
+            forestSlopeIrradiance5,
+        ],
+    },
+    {
+        // only the diffuse lighting was kept in HDR, so its reflections clip where the sky does
+        name: 'Immenstädter Horn',
+        radiance: [
+            immenstadterHorn0,
+            immenstadterHorn1,
+            immenstadterHorn2,
+            immenstadterHorn3,
+            immenstadterHorn4,
+            immenstadterHorn5,
+        ],
+        irradiance: [
+            immenstadterHornIrradiance0,
+            immenstadterHornIrradiance1,
+            immenstadterHornIrradiance2,
+            immenstadterHornIrradiance3,
+            immenstadterHornIrradiance4,
+            immenstadterHornIrradiance5,
+        ],
+    },
+    {
+        name: 'Photo studio',
+        radiance: photoStudio,
+    },
+];
@@ -0,0 +1,115 @@
+// Helpers for reading and writing binary file formats
+
+export function concat(arrays: Uint8Array[]) {
+    const out = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+    let offset = 0;
+    for (let i = 0; i < arrays.length; i++) {
+        out.set(arrays[i], offset);
+        offset += arrays[i].length;
+    }
+    return out;
+}
+
+const CRC_TABLE = new Uint32Array(256).map((_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    return c;
+});
+
+// the CRC-32 used by PNG and zip
+export function crc32(data: Uint8Array) {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+// 'deflate' is zlib-wrapped, which is what PNG, EXR and TIFF expect; zip wants 'deflate-raw'
+export async function deflate(
+    data: Uint8Array,
+    format: 'deflate' | 'deflate-raw' = 'deflate'
+): Promise<Uint8Array> {
+    const stream = new Blob([data])
+        .stream()
+        .pipeThrough(new CompressionStream(format));
+
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export async function inflate(
+    data: Uint8Array,
+    format: 'deflate' | 'deflate-raw' = 'deflate'
+): Promise<Uint8Array> {
+    const stream = new Blob([data])
+        .stream()
+        .pipeThrough(new DecompressionStream(format));
+
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// base64 for embedding binary data in JSON
+export function toBase64(data: Uint8Array) {
+    let binary = '';
+    const chunk = 0x8000; // stay well under the argument limit of fromCharCode
+    for (let i = 0; i < data.length; i += chunk) {
+        binary += String.fromCharCode(...data.subarray(i, i + chunk));
+    }
+    return btoa(binary);
+}
+
+export function fromBase64(base64: string) {
+    const binary = atob(base64);
+    const data = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        data[i] = binary.charCodeAt(i);
+    }
+    return data;
+}
+
+const floatView = new Float32Array(1);
+const bitsView = new Uint32Array(floatView.buffer);
+
+// round a float to the nearest half float, returning its bits
+export function toHalf(value: number) {
+    floatView[0] = value;
+    const bits = bitsView[0];
+
+    const sign = (bits >>> 16) & 0x8000;
+    const exponent = ((bits >>> 23) & 0xff) - 127 + 15;
+    let mantissa = bits & 0x7fffff;
+
+    if (exponent === 0xff - 127 + 15) {
+        // infinity or NaN
+        return sign | 0x7c00 | (mantissa ? 0x200 : 0);
+    }
+
+    if (exponent >= 0x1f) {
+        return sign | 0x7c00; // too large, round to infinity
+    }
+
+    if (exponent <= 0) {
+        // subnormal half
+        if (exponent < -10) return sign;
+
+        mantissa |= 0x800000;
+        const shift = 14 - exponent;
+        let result = mantissa >> shift;
+        const remainder = mantissa & ((1 << shift) - 1);
+        const halfway = 1 << (shift - 1);
+        if (remainder > halfway || (remainder === halfway && result & 1)) {
+            result++;
+        }
+        return sign | result;
+    }
+
+    // round to nearest even, a carry into the exponent is still correct
+    let result = (exponent << 10) | (mantissa >> 13);
+    const remainder = mantissa & 0x1fff;
+    if (remainder > 0x1000 || (remainder === 0x1000 && result & 1)) {
+        result++;
+    }
+    return sign | result;
+}
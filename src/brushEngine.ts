@@ -1,20 +1,162 @@
-import { vec3, vec4 } from 'gl-matrix';
-import { srgbToRgb } from './color';
+import { vec2, vec3 } from 'gl-matrix';
+import type { BrushPreset } from './brushPresets';
+import type BrushTip from './brushTip';
+import { Channel, channelStride, CHANNEL_INFO } from './channels';
+import { rgbToSrgb, srgbToRgb } from './color';
+import { ColorSpace, convertColor } from './colorSpace';
+import { Dab, dabBounds, rasterizeDab } from './dab';
+import {
+    BrushDynamics,
+    cloneDynamics,
+    createDynamics,
+    defaultStrokeInput,
+    evaluateAngle,
+    evaluateMapping,
+    lerpStrokeInput,
+    StrokeInput,
+    strokeVelocity,
+} from './dynamics';
+import GpuDabs from './gpuDabs';
+import GpuStroke from './gpuStroke';
+import { BlendMode, blendChannel } from './layer';
+import MeshData from './loader/meshData';
 import { lerp, smoothstep } from './math';
+import { isEmptyRect } from './rect';
 import Slate from './slate';
+import Stabilizer from './stabilizer';
+import StrokeBuffer from './strokeBuffer';
 import WindowManager from './windowManager';
 
-export default class BrushEngine {
+// how a stroke combines with the pixels already in the layer
+export enum BrushBlendMode {
+    Normal,
+    Multiply,
+    Screen,
+    Overlay,
+    Add,
+    Erase, // remove coverage instead of adding it
+    Behind, // only paint where the layer is transparent
+}
+
+export const BRUSH_BLEND_MODE_NAMES: { [mode: number]: string } = {
+    [BrushBlendMode.Normal]: 'Normal',
+    [BrushBlendMode.Multiply]: 'Multiply',
+    [BrushBlendMode.Screen]: 'Screen',
+    [BrushBlendMode.Overlay]: 'Overlay',
+    [BrushBlendMode.Add]: 'Add',
+    [BrushBlendMode.Erase]: 'Erase',
+    [BrushBlendMode.Behind]: 'Behind',
+};
+
+// brush modes that mix with the layer's colors like a layer blend mode would
+const LAYER_BLEND_MODES: { [mode: number]: BlendMode } = {
+    [BrushBlendMode.Multiply]: BlendMode.Multiply,
+    [BrushBlendMode.Screen]: BlendMode.Screen,
+    [BrushBlendMode.Overlay]: BlendMode.Overlay,
+    [BrushBlendMode.Add]: BlendMode.Add,
+};
+
+// the shape of each dab and how it builds up over a stroke
+export interface BrushShape {
+    hardness: number; // fraction of the radius painted fully, or the contrast of a tip image
+    roundness: number; // height of the dab relative to its width
+    angle: number; // in degrees
+    angleJitter: number; // each dab is turned randomly by up to this many degrees
+    tip: BrushTip; // null for a round brush
+    opacity: number; // most coverage a single stroke can reach
+    flow: number; // coverage of each dab
+    blendMode: BrushBlendMode;
+    dynamics: BrushDynamics;
+}
+
+// a round brush with a slightly soft edge that gets bigger with pressure
+export const DEFAULT_BRUSH_SHAPE: BrushShape = {
+    hardness: 0.9,
+    roundness: 1,
+    angle: 0,
+    angleJitter: 0,
+    tip: null,
+    opacity: 1,
+    flow: 1,
+    blendMode: BrushBlendMode.Normal,
+    dynamics: createDynamics(),
+};
+
+// everything needed to recreate the brush
+export interface BrushSettings extends BrushShape {
+    radius: number;
+    color: number[]; // sRGB, like the color picker
+    spacing: number;
+    channels: Channel[];
+    channelValues: { [channel: number]: number[] };
+}
+
+// a point the stroke passes through, in image coordinates or on the surface of a mesh
+export interface StrokeSample {
+    point: vec3;
+    input: StrokeInput;
+}
+
+// least softness of the brush edge when painting on a surface, as a fraction of the radius
+const SURFACE_SOFTNESS = 0.1;
+
+export default class BrushEngine implements BrushShape {
     radius: number;
     private _color: vec3;
     spacing: number;
     slate: Slate;
 
+    hardness: number;
+    roundness: number;
+    angle: number;
+    angleJitter: number;
+    tip: BrushTip;
+    opacity: number;
+    flow: number;
+    blendMode: BrushBlendMode;
+    dynamics: BrushDynamics;
+
+    channels: Set<Channel>; // channels painted by each stroke
+    channelValues: { [channel: number]: number[] }; // linear values for every channel except albedo, colors in Rec.709
+
     segmentStart: vec3;
-    segmentStartPressure: number;
+    segmentStartInput: StrokeInput;
     segmentSoFar: number;
+    stabilizer: Stabilizer;
     windowManager: WindowManager;
 
+    // the current dab after dynamics
+    private dab: {
+        opacity: number;
+        flow: number;
+        hardness: number;
+        angle: number;
+    };
+
+    // the stroke being painted, and dabs waiting to be drawn into it on the GPU
+    private strokeBuffer: StrokeBuffer;
+    private pendingDabs: Dab[];
+    private gpuDabs: GpuDabs; // null when strokes are painted on the CPU
+    private gpuStroke: GpuStroke;
+    // set while a stroke is only painted on the GPU, the layer is painted when it ends
+    private strokeOnGpu: boolean;
+
+    // the channels the stroke paints, however the brush is changed before it's painted into the layer
+    private strokeChannels: Channel[];
+
+    // the values the stroke paints, with colors converted to the slate's working space
+    private strokeValues: { [channel: number]: number[] };
+    // the blend mode of the stroke being painted, which the pen's eraser overrides
+    private strokeBlendMode: BrushBlendMode;
+    // the active layer's channels from before the stroke, for blend modes that mix with them
+    private backdrop: { [channel: number]: Float32Array };
+
+    // set while painting directly on a mesh, where stroke coordinates and radius are in world space
+    surfaceMesh: MeshData;
+    surfaceRadius: number;
+
+    listeners: (() => void)[];
+
     constructor(
         diameter: number,
         color: vec3,
@@ -22,55 +164,240 @@ export default class BrushEngine {
         windowManager: WindowManager
     ) {
         this._color = vec3.create();
+        this.listeners = [];
 
         const radius = diameter / 2;
         this.radius = radius;
         this.color = color;
         this.spacing = spacing;
+        this.setShape(DEFAULT_BRUSH_SHAPE);
+
+        this.channels = new Set([Channel.Albedo]);
+        this.channelValues = {
+            [Channel.Roughness]: [0.5],
+            [Channel.Metallic]: [0],
+            [Channel.Normal]: [0.5, 0.5, 1],
+            [Channel.Height]: [0.5],
+            [Channel.AO]: [1],
+            [Channel.Emissive]: [0, 0, 0],
+        };
 
         this.windowManager = windowManager;
         this.slate = windowManager.slate;
 
         this.segmentStart = vec3.create();
-        this.segmentStartPressure = 0;
+        this.segmentStartInput = defaultStrokeInput();
         this.segmentSoFar = 0;
+        this.stabilizer = new Stabilizer();
+
+        this.dab = { opacity: 1, flow: 1, hardness: 1, angle: 0 };
+        this.strokeBuffer = new StrokeBuffer();
+        this.pendingDabs = [];
+        // dabs are only drawn on the GPU if the stroke can be painted there too
+        const gpuDabs = GpuDabs.create(windowManager.gl);
+        this.gpuStroke = gpuDabs && GpuStroke.create(windowManager.gl);
+        this.gpuDabs = this.gpuStroke ? gpuDabs : null;
+        this.strokeOnGpu = false;
+        this.strokeChannels = [];
+        this.strokeBlendMode = BrushBlendMode.Normal;
+        this.strokeValues = {};
+        this.backdrop = {};
+
+        this.surfaceMesh = null;
+        this.surfaceRadius = 0;
+    }
+
+    get color() {
+        const [r, g, b] = this._color.map(rgbToSrgb);
+        return vec3.fromValues(r, g, b);
     }
 
     set color(sRgb: vec3) {
         const [r, g, b] = sRgb.map(srgbToRgb);
-        vec3.set(this._color, r, g, b)
+        vec3.set(this._color, r, g, b);
+        this.notify();
+    }
+
+    // listeners are told when the color changes, like when it's picked with the eyedropper
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+
+        return () => {
+            this.listeners = this.listeners.filter((l) => l !== listener);
+        };
+    }
+
+    private notify() {
+        for (let i = 0; i < this.listeners.length; i++) {
+            this.listeners[i]();
+        }
+    }
+
+    getSettings(): BrushSettings {
+        const channelValues = {};
+        for (const channel in this.channelValues) {
+            channelValues[channel] = this.channelValues[channel].slice();
+        }
+
+        return {
+            radius: this.radius,
+            color: Array.from(this.color),
+            spacing: this.spacing,
+            channels: Array.from(this.channels),
+            channelValues,
+            ...this.getShape(),
+        };
+    }
+
+    applySettings(settings: BrushSettings) {
+        this.setShape(settings);
+        this.radius = settings.radius;
+        const [r, g, b] = settings.color;
+        this.color = vec3.fromValues(r, g, b);
+        this.spacing = settings.spacing;
+        this.channels = new Set(settings.channels);
+        for (const channel in settings.channelValues) {
+            this.channelValues[channel] = settings.channelValues[channel].slice();
+        }
+    }
+
+    getShape(): BrushShape {
+        return {
+            hardness: this.hardness,
+            roundness: this.roundness,
+            angle: this.angle,
+            angleJitter: this.angleJitter,
+            tip: this.tip,
+            opacity: this.opacity,
+            flow: this.flow,
+            blendMode: this.blendMode,
+            dynamics: cloneDynamics(this.dynamics),
+        };
+    }
+
+    setShape(shape: BrushShape) {
+        this.hardness = shape.hardness;
+        this.roundness = shape.roundness;
+        this.angle = shape.angle;
+        this.angleJitter = shape.angleJitter;
+        this.tip = shape.tip;
+        this.opacity = shape.opacity;
+        this.flow = shape.flow;
+        this.blendMode = shape.blendMode;
+        this.dynamics = cloneDynamics(shape.dynamics);
     }
 
-    startStroke(imageCoord: vec3, pressure: number) {
+    getPreset(name: string): BrushPreset {
+        return {
+            name,
+            radius: this.radius,
+            spacing: this.spacing,
+            ...this.getShape(),
+        };
+    }
+
+    // presets set the size and shape, but leave what the brush paints alone
+    applyPreset(preset: BrushPreset) {
+        this.radius = preset.radius;
+        this.spacing = preset.spacing;
+        this.setShape(preset);
+    }
+
+    // `erase` paints with the eraser whatever the blend mode, like the back of a pen
+    startStroke(imageCoord: vec3, input: StrokeInput, erase = false) {
+        this.commitStroke();
         this.slate.checkpoint(); // save image in undo stack
 
-        vec3.copy(this.segmentStart, imageCoord);
-        this.segmentStartPressure = pressure;
+        this.surfaceMesh = null;
+        this.beginStroke(erase);
+        this.jumpTo(imageCoord, input);
+    }
+
+    // start a stroke on the surface of `mesh`, `worldRadius` is the brush radius at full size
+    startSurfaceStroke(
+        mesh: MeshData,
+        point: vec3,
+        input: StrokeInput,
+        worldRadius: number,
+        erase = false
+    ) {
+        this.commitStroke();
+        this.slate.checkpoint(); // save image in undo stack
+
+        this.surfaceMesh = mesh;
+        this.surfaceRadius = worldRadius;
+        this.beginStroke(erase);
+        this.jumpTo(point, input);
+    }
+
+    // continue the stroke from `point` without connecting it to the previous one
+    jumpTo(point: vec3, input: StrokeInput) {
+        vec3.copy(this.segmentStart, point);
+        this.segmentStartInput = { ...input, velocity: 0 };
         this.segmentSoFar = 0;
+        this.stabilizer.start(point, input);
+    }
+
+    // `samples` are everything since the last call, like the coalesced samples of a pointer event,
+    // so the stroke is only painted into the layer once for all of them
+    continueStroke(samples: StrokeSample[]) {
+        for (const { point, input } of samples) {
+            this.stabilizer.add(point, input, this.pixelSize(), (p, i) =>
+                this.strokeTo(p, i)
+            );
+        }
+        this.flush();
+        this.windowManager.drawOnNextFrame();
+    }
+
+    finishStroke(imageCoord: vec3, input: StrokeInput) {
+        this.stabilizer.finish(
+            imageCoord,
+            input,
+            this.pixelSize(),
+            (point, i) => this.strokeTo(point, i)
+        );
+
+        // end exactly where the path does, however the spacing worked out
+        this.iteration(this.segmentStart, this.segmentStartInput);
+        this.flush();
+        this.commitStroke();
+        this.windowManager.drawOnNextFrame();
     }
 
-    continueStroke(imageCoord: vec3, pressure: number) {
+    // place dabs along a straight line from the end of the path so far
+    private strokeTo(imageCoord: vec3, input: StrokeInput) {
         const displacement = vec3.create();
         vec3.sub(displacement, imageCoord, this.segmentStart);
         let segmentLength = vec3.len(displacement);
         const currentPoint = vec3.create();
 
+        const endInput = {
+            ...input,
+            velocity: strokeVelocity(
+                this.segmentStartInput,
+                input.time,
+                segmentLength,
+                this.surfaceMesh ? this.surfaceRadius : this.radius
+            ),
+        };
+        const currentInput = { ...endInput };
+
         while (this.segmentSoFar <= segmentLength) {
-            const t = this.segmentSoFar / segmentLength;
+            const t = segmentLength > 0 ? this.segmentSoFar / segmentLength : 0;
             vec3.scale(currentPoint, displacement, t);
             vec3.add(currentPoint, currentPoint, this.segmentStart);
 
-            const currentPressure = lerp(
-                this.segmentStartPressure,
-                pressure,
-                t
-            );
+            lerpStrokeInput(currentInput, this.segmentStartInput, endInput, t);
 
-            const radius = this.iteration(currentPoint, currentPressure);
+            const radius = this.iteration(currentPoint, currentInput);
+
+            // at least a pixel apart, or a fraction of the brush on a surface
+            const minSpacing = this.surfaceMesh ? this.surfaceRadius * 0.05 : 1;
 
             let nextSpacing = this.spacing * radius;
-            if (nextSpacing < 1) {
-                nextSpacing = 1;
+            if (nextSpacing < minSpacing) {
+                nextSpacing = minSpacing;
             }
             this.segmentSoFar += nextSpacing;
         }
@@ -80,21 +407,25 @@ export default class BrushEngine {
             segmentLength = 0;
         }
 
-        this.segmentStartPressure = pressure;
+        this.segmentStartInput = endInput;
         vec3.copy(this.segmentStart, imageCoord);
-
-        this.windowManager.drawOnNextFrame();
     }
 
-    finishStroke(imageCoord: vec3, pressure: number) {
-        this.iteration(imageCoord, pressure);
-        this.windowManager.drawOnNextFrame();
+    // the size of an image pixel in stroke coordinates
+    private pixelSize() {
+        return this.surfaceMesh ? this.surfaceRadius / this.radius : 1;
     }
 
-    iteration(brushCenter: vec3, pressure: number) {
+    iteration(brushCenter: vec3, input: StrokeInput) {
         // a single dot of the brush
 
-        const radius = this.getRadiusForStroke(this.radius, { pressure });
+        this.updateDab(input);
+
+        if (this.surfaceMesh) {
+            return this.surfaceIteration(brushCenter, input);
+        }
+
+        const radius = this.getRadiusForStroke(this.radius, input);
 
         if (
             brushCenter[0] <= -radius ||
@@ -106,91 +437,386 @@ export default class BrushEngine {
             return radius;
         }
 
-        this.fillCircle(brushCenter, radius);
+        this.queueDab(brushCenter, radius);
+
+        return radius;
+    }
+
+    // draw a dab into the stroke, right away on the CPU or with the next flush on the GPU
+    queueDab(center: vec3, radius: number) {
+        const angle =
+            this.dab.angle + (Math.random() * 2 - 1) * this.angleJitter;
+        const dab: Dab = {
+            x: center[0],
+            y: center[1],
+            radius,
+            angle: (angle * Math.PI) / 180,
+            hardness: this.dab.hardness,
+            flow: this.dab.flow,
+            opacity: this.dab.opacity,
+        };
+
+        const { x0, y0, x1, y1 } = dabBounds(dab, this);
+        this.strokeChannels.forEach((channel) =>
+            this.slate.touch(channel, x0, y0, x1 + 1, y1 + 1)
+        );
+        this.strokeBuffer.extend(x0, y0, x1 + 1, y1 + 1);
+
+        if (this.strokeOnGpu) {
+            this.pendingDabs.push(dab);
+        } else {
+            rasterizeDab(this.strokeBuffer, dab, this);
+        }
+    }
+
+    surfaceIteration(brushCenter: vec3, input: StrokeInput) {
+        const radius = this.getRadiusForStroke(this.surfaceRadius, input);
 
-        this.slate.markUpdate();
+        this.fillSphere(this.surfaceMesh, brushCenter, radius);
 
         return radius;
     }
 
-    fillCircle(center: vec3, radius: number) {
-        if (radius < 0.5) {
-            const color = vec4.create();
-            vec4.set(
-                color,
-                this._color[0],
-                this._color[1],
-                this._color[2],
-                radius * 2
+    // paint every texel whose point on the surface is within `radius` of `center`
+    // this keeps the dab round in world space no matter how the UVs are laid out
+    fillSphere(mesh: MeshData, center: vec3, radius: number) {
+        const width = this.slate.width;
+        const height = this.slate.height;
+        const softness =
+            radius * Math.max(1 - this.dab.hardness, SURFACE_SOFTNESS);
+
+        // texels on shared edges are covered by both triangles, so only keep the strongest coverage
+        const coverage: Map<number, number> = new Map();
+
+        const uvs = [vec2.create(), vec2.create(), vec2.create()];
+        const point = vec3.create();
+
+        mesh.queryTrianglesNear(center, radius, (i) => {
+            const triangle = mesh.triangles[i];
+            const v0 = mesh.vertices[triangle[0]];
+            const v1 = mesh.vertices[triangle[1]];
+            const v2 = mesh.vertices[triangle[2]];
+
+            if (!triangleNearSphere(v0, v1, v2, center, radius)) return;
+
+            // texel space, flipped to match how the shaders sample the slate
+            for (let j = 0; j < 3; j++) {
+                const uv = mesh.uvs[triangle[j]];
+                vec2.set(uvs[j], uv[0] * width, (1 - uv[1]) * height);
+            }
+
+            const area = edgeFunction(uvs[0], uvs[1], uvs[2][0], uvs[2][1]);
+            if (Math.abs(area) < Number.EPSILON) return;
+
+            const minX = Math.max(
+                Math.floor(Math.min(uvs[0][0], uvs[1][0], uvs[2][0])),
+                0
             );
-            this.applyPixelInteger(center, color);
-        }
+            const minY = Math.max(
+                Math.floor(Math.min(uvs[0][1], uvs[1][1], uvs[2][1])),
+                0
+            );
+            const maxX = Math.min(
+                Math.ceil(Math.max(uvs[0][0], uvs[1][0], uvs[2][0])),
+                width - 1
+            );
+            const maxY = Math.min(
+                Math.ceil(Math.max(uvs[0][1], uvs[1][1], uvs[2][1])),
+                height - 1
+            );
+            if (minX > maxX || minY > maxY) return;
+
+            this.strokeChannels.forEach((channel) =>
+                this.slate.touch(channel, minX, minY, maxX + 1, maxY + 1)
+            );
+            this.strokeBuffer.extend(minX, minY, maxX + 1, maxY + 1);
 
-        const radiusSquare = vec3.create();
-        vec3.set(radiusSquare, radius, radius, 0);
+            // let texels just outside the triangle through so UV seams don't show gaps
+            const padding = 1 / Math.max(maxX - minX, maxY - minY, 1);
 
-        const startPosition = vec3.create();
-        vec3.sub(startPosition, center, radiusSquare);
+            for (let y = minY; y <= maxY; y++) {
+                for (let x = minX; x <= maxX; x++) {
+                    const px = x + 0.5;
+                    const py = y + 0.5;
 
-        const offset = vec3.create();
+                    let b0 = edgeFunction(uvs[1], uvs[2], px, py) / area;
+                    let b1 = edgeFunction(uvs[2], uvs[0], px, py) / area;
+                    let b2 = edgeFunction(uvs[0], uvs[1], px, py) / area;
 
-        for (
-            let x = Math.floor(startPosition[0]);
-            x <= Math.ceil(startPosition[0] + radius * 2);
-            x++
-        ) {
-            for (
-                let y = Math.floor(startPosition[1]);
-                y <= Math.ceil(startPosition[1] + radius * 2);
-                y++
-            ) {
-                vec3.set(offset, x, y, 0);
-
-                this.fillCirclePixel(center, offset, radius);
+                    if (b0 < -padding || b1 < -padding || b2 < -padding) {
+                        continue;
+                    }
+
+                    b0 = Math.max(b0, 0);
+                    b1 = Math.max(b1, 0);
+                    b2 = Math.max(b2, 0);
+                    const total = b0 + b1 + b2;
+
+                    vec3.scale(point, v0, b0 / total);
+                    vec3.scaleAndAdd(point, point, v1, b1 / total);
+                    vec3.scaleAndAdd(point, point, v2, b2 / total);
+
+                    const distance = vec3.distance(point, center);
+                    if (distance >= radius) continue;
+
+                    const alpha =
+                        1 - smoothstep(radius - softness, radius, distance);
+
+                    const index = y * width + x;
+                    if (!(coverage.get(index) >= alpha)) {
+                        coverage.set(index, alpha);
+                    }
+                }
             }
-        }
+        });
+
+        coverage.forEach((alpha, index) =>
+            this.strokeBuffer.add(
+                index,
+                alpha * this.dab.flow,
+                this.dab.opacity
+            )
+        );
     }
 
-    fillCirclePixel(brushCenter: vec3, pixelCoord: vec3, radius: number) {
-        let color = vec4.create();
+    // paint whatever the stroke has newly covered into the active layer, or on the GPU just into the view
+    private flush() {
+        if (!this.strokeOnGpu) {
+            this.resolve();
+            return;
+        }
 
-        const distance = vec3.distance(brushCenter, pixelCoord);
-        const delta = 2; // this is a bit soft, but it looks nice to me so I'm keeping it
+        this.gpuDabs.draw(this.pendingDabs, this);
+        this.pendingDabs = [];
 
-        const alpha = 1 - smoothstep(radius - delta, radius, distance);
+        const rect = this.strokeBuffer.takeDirty();
+        if (rect) {
+            this.gpuStroke.draw(rect, this.gpuDabs);
+        }
+    }
 
-        vec4.set(color, this._color[0], this._color[1], this._color[2], alpha);
+    // paint a stroke that was only painted on the GPU into the active layer, reading it back once
+    // this has to happen before anything else can change the layer, strokes that carry on are painted on the CPU
+    commitStroke() {
+        if (!this.strokeOnGpu) return;
+        this.strokeOnGpu = false;
 
-        this.applyPixelInteger(pixelCoord, color);
+        const { slate, strokeBuffer } = this;
+        this.gpuDabs.draw(this.pendingDabs, this);
+        this.pendingDabs = [];
+
+        // the backdrop was the layer itself, keep what it was before the stroke for the rest of it
+        for (const channel of Object.keys(this.backdrop)) {
+            this.backdrop[+channel] = this.backdrop[+channel].slice();
+        }
+
+        const touched = strokeBuffer.touched;
+        if (!isEmptyRect(touched)) {
+            this.gpuDabs.read(strokeBuffer, touched);
+
+            // the tiles were saved for undo as the stroke went, but autosave may have written them since
+            const { x0, y0, x1, y1 } = touched;
+            for (const channel of this.strokeChannels) {
+                slate.history.markRectModified(
+                    slate.activeLayer.getChannel(channel),
+                    slate.width,
+                    slate.height,
+                    x0,
+                    y0,
+                    x1,
+                    y1
+                );
+            }
+            strokeBuffer.extend(x0, y0, x1, y1);
+            this.resolve();
+        }
+        this.gpuDabs.end();
+        this.gpuStroke.end();
     }
 
-    applyPixelInteger(pixelCoord: vec3, color: vec4) {
-        // round pixel coordinates
-        vec3.round(pixelCoord, pixelCoord);
-        const baseIndex =
-            (pixelCoord[1] * this.slate.width + pixelCoord[0]) * 4;
-        const existing = vec3.create();
-        vec3.set(
-            existing,
-            this.slate.albedoBuffer[baseIndex],
-            this.slate.albedoBuffer[baseIndex + 1],
-            this.slate.albedoBuffer[baseIndex + 2]
+    private resolve() {
+        const { slate } = this;
+        const painted = this.strokeBuffer.resolve(
+            slate.selection,
+            (index, alpha, coverage) => this.paintPixel(index, alpha, coverage)
         );
-        vec3.scale(existing, existing, 1 / 255);
+        if (painted) {
+            this.strokeChannels.forEach((channel) =>
+                slate.markUpdate(channel, painted)
+            );
+        }
+    }
+
+    // paint every enabled channel of the active layer at `pixelIndex`
+    // `alpha` is how much more of the pixel to paint, and `coverage` how much of it the stroke covers in all
+    private paintPixel(pixelIndex: number, alpha: number, coverage: number) {
+        const mode = this.strokeBlendMode;
+
+        this.strokeChannels.forEach((channel) => {
+            const value = this.strokeValues[channel];
+
+            const stride = channelStride(channel);
+            const alphaOffset = stride - 1;
+            const buffer = this.slate.activeLayer.getChannel(channel);
+            const baseIndex = pixelIndex * stride;
+
+            if (mode === BrushBlendMode.Erase) {
+                buffer[baseIndex + alphaOffset] *= 1 - alpha;
+                return;
+            }
+
+            if (mode === BrushBlendMode.Behind) {
+                // the existing pixel over the brush color
+                const existingAlpha = buffer[baseIndex + alphaOffset];
+                const behindAlpha = alpha * (1 - existingAlpha);
+                const newAlpha = existingAlpha + behindAlpha;
+                if (newAlpha <= 0) return;
+
+                const t = behindAlpha / newAlpha;
+                for (let c = 0; c < alphaOffset; c++) {
+                    buffer[baseIndex + c] = lerp(
+                        buffer[baseIndex + c],
+                        value[c],
+                        t
+                    );
+                }
+                buffer[baseIndex + alphaOffset] = newAlpha;
+                return;
+            }
+
+            const layerMode = LAYER_BLEND_MODES[mode];
+            if (layerMode !== undefined) {
+                // mixing with colors this stroke already painted would apply the blend twice,
+                // so paint the whole coverage over the pixel from before the stroke
+                const backdrop = this.backdrop[channel];
+                const backdropAlpha = backdrop[baseIndex + alphaOffset];
+                const newAlpha = coverage + backdropAlpha * (1 - coverage);
+                if (newAlpha <= 0) return;
+
+                const t = coverage / newAlpha;
+                for (let c = 0; c < alphaOffset; c++) {
+                    const base = backdrop[baseIndex + c];
+
+                    // like compositing layers, the blend only applies where there's something to blend with
+                    const mixed =
+                        (1 - backdropAlpha) * value[c] +
+                        backdropAlpha * blendChannel(layerMode, base, value[c]);
+
+                    buffer[baseIndex + c] = lerp(base, mixed, t);
+                }
+                buffer[baseIndex + alphaOffset] = newAlpha;
+                return;
+            }
+
+            const existingAlpha = buffer[baseIndex + alphaOffset];
 
-        const colorRGB = vec3.create();
-        vec3.set(colorRGB, color[0], color[1], color[2]);
+            // paint over the existing pixel, which may be transparent on upper layers
+            const newAlpha = alpha + existingAlpha * (1 - alpha);
+            const t = alpha / newAlpha;
+
+            for (let c = 0; c < alphaOffset; c++) {
+                buffer[baseIndex + c] = lerp(
+                    buffer[baseIndex + c],
+                    value[c],
+                    t
+                );
+            }
+            buffer[baseIndex + alphaOffset] = newAlpha;
+        });
+    }
 
-        vec3.lerp(colorRGB, existing, colorRGB, color[3]);
+    getRadiusForStroke(radius: number, input: StrokeInput) {
+        return radius * evaluateMapping(this.dynamics.size, input);
+    }
 
-        this.slate.albedoBuffer[baseIndex] = colorRGB[0] * 255;
-        this.slate.albedoBuffer[baseIndex + 1] = colorRGB[1] * 255;
-        this.slate.albedoBuffer[baseIndex + 2] = colorRGB[2] * 255;
-        this.slate.albedoBuffer[baseIndex + 3] = 255;
+    // apply the dynamics for the next dab
+    private updateDab(input: StrokeInput) {
+        const { dynamics } = this;
+        this.dab.opacity =
+            this.opacity * evaluateMapping(dynamics.opacity, input);
+        this.dab.flow = this.flow * evaluateMapping(dynamics.flow, input);
+        this.dab.hardness =
+            this.hardness * evaluateMapping(dynamics.hardness, input);
+        this.dab.angle = this.angle + evaluateAngle(dynamics.angle, input);
     }
 
-    getRadiusForStroke(radius: number, { pressure }) {
-        const factor = pressure * pressure;
-        return radius * factor;
+    private beginStroke(erase: boolean) {
+        const { width, height } = this.slate;
+        this.strokeBuffer.reset(width, height);
+        this.pendingDabs = [];
+
+        this.strokeBlendMode = erase ? BrushBlendMode.Erase : this.blendMode;
+        this.strokeChannels = Array.from(this.channels);
+        this.strokeValues = {};
+        this.strokeChannels.forEach((channel) => {
+            const value =
+                channel === Channel.Albedo
+                    ? Array.from(this._color)
+                    : this.channelValues[channel];
+            this.strokeValues[channel] = CHANNEL_INFO[channel].color
+                ? Array.from(
+                      convertColor(
+                          vec3.fromValues(value[0], value[1], value[2]),
+                          ColorSpace.LinearRec709,
+                          this.slate.workingSpace
+                      )
+                  )
+                : value;
+        });
+        if (
+            this.channels.has(Channel.Albedo) &&
+            this.strokeBlendMode !== BrushBlendMode.Erase
+        ) {
+            this.windowManager.swatches.addRecent(this.color);
+        }
+        // strokes on a surface are always painted on the CPU, and so are ones the GPU can't show
+        this.strokeOnGpu =
+            !!this.gpuStroke &&
+            !this.surfaceMesh &&
+            this.gpuStroke.canShow(this.slate, this.strokeChannels);
+
+        this.backdrop = {};
+        if (LAYER_BLEND_MODES[this.strokeBlendMode] !== undefined) {
+            this.strokeChannels.forEach((channel) => {
+                const pixels = this.slate.activeLayer.getChannel(channel);
+
+                // on the GPU the layer isn't painted until the stroke ends, so it's still the backdrop then
+                this.backdrop[channel] = this.strokeOnGpu
+                    ? pixels
+                    : pixels.slice();
+            });
+        }
+
+        if (this.strokeOnGpu) {
+            this.gpuDabs.begin(width, height);
+            this.gpuStroke.begin(
+                this.slate,
+                this.strokeChannels,
+                this.strokeValues,
+                this.strokeBlendMode
+            );
+        }
     }
 }
+
+// twice the signed area of the triangle (a, b, p)
+const edgeFunction = (a: vec2, b: vec2, px: number, py: number) =>
+    (b[0] - a[0]) * (py - a[1]) - (b[1] - a[1]) * (px - a[0]);
+
+// cheap bounding box test between a triangle and a sphere
+const triangleNearSphere = (
+    v0: vec3,
+    v1: vec3,
+    v2: vec3,
+    center: vec3,
+    radius: number
+) => {
+    for (let axis = 0; axis < 3; axis++) {
+        const min = Math.min(v0[axis], v1[axis], v2[axis]);
+        const max = Math.max(v0[axis], v1[axis], v2[axis]);
+        if (min > center[axis] + radius || max < center[axis] - radius) {
+            return false;
+        }
+    }
+    return true;
+};
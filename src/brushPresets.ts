@@ -0,0 +1,155 @@
+// Named brushes that can be kept in the browser and shared as JSON files
+
+import { BrushBlendMode, BrushShape, DEFAULT_BRUSH_SHAPE } from './brushEngine';
+import BrushTip, { SerializedBrushTip } from './brushTip';
+import {
+    deserializeDynamics,
+    SerializedDynamics,
+    serializeDynamics,
+} from './dynamics';
+
+const STORAGE_KEY = 'texpaint-brushes';
+const LIBRARY_VERSION = 1;
+
+export const PRESET_EXTENSION = 'brushes.json';
+
+export interface BrushPreset extends BrushShape {
+    name: string;
+    radius: number;
+    spacing: number;
+}
+
+interface SerializedPreset {
+    name: string;
+    radius: number;
+    spacing: number;
+    hardness: number;
+    roundness: number;
+    angle: number;
+    angleJitter: number;
+    tip: SerializedBrushTip;
+    opacity: number;
+    flow: number;
+    blendMode: string;
+    dynamics: SerializedDynamics;
+}
+
+export const DEFAULT_PRESETS: BrushPreset[] = [
+    {
+        ...DEFAULT_BRUSH_SHAPE,
+        name: 'Round',
+        radius: 20,
+        spacing: 0.4,
+    },
+    {
+        ...DEFAULT_BRUSH_SHAPE,
+        name: 'Hard round',
+        radius: 10,
+        spacing: 0.2,
+        hardness: 1,
+    },
+    {
+        ...DEFAULT_BRUSH_SHAPE,
+        name: 'Soft airbrush',
+        radius: 40,
+        spacing: 0.1,
+        hardness: 0,
+    },
+    {
+        ...DEFAULT_BRUSH_SHAPE,
+        name: 'Flat',
+        radius: 15,
+        spacing: 0.1,
+        roundness: 0.25,
+        angle: 45,
+    },
+    {
+        ...DEFAULT_BRUSH_SHAPE,
+        name: 'Eraser',
+        radius: 20,
+        spacing: 0.2,
+        blendMode: BrushBlendMode.Erase,
+    },
+];
+
+export function serializePresets(presets: BrushPreset[]) {
+    const serialized: SerializedPreset[] = presets.map((preset) => ({
+        name: preset.name,
+        radius: preset.radius,
+        spacing: preset.spacing,
+        hardness: preset.hardness,
+        roundness: preset.roundness,
+        angle: preset.angle,
+        angleJitter: preset.angleJitter,
+        tip: preset.tip ? preset.tip.serialize() : null,
+        opacity: preset.opacity,
+        flow: preset.flow,
+        blendMode: BrushBlendMode[preset.blendMode],
+        dynamics: serializeDynamics(preset.dynamics),
+    }));
+
+    return JSON.stringify({ version: LIBRARY_VERSION, presets: serialized });
+}
+
+export function parsePresets(json: string): BrushPreset[] {
+    const library = JSON.parse(json);
+    if (
+        library.version !== LIBRARY_VERSION ||
+        !Array.isArray(library.presets)
+    ) {
+        throw new Error('not a texpaint brush library');
+    }
+
+    return library.presets.map((preset: SerializedPreset) => ({
+        ...DEFAULT_BRUSH_SHAPE,
+        ...preset,
+        tip: preset.tip ? BrushTip.deserialize(preset.tip) : null,
+        blendMode: BrushBlendMode[preset.blendMode] ?? BrushBlendMode.Normal,
+        dynamics: deserializeDynamics(preset.dynamics),
+    }));
+}
+
+// the presets available in this browser
+export default class BrushLibrary {
+    presets: BrushPreset[];
+
+    constructor() {
+        this.presets = DEFAULT_PRESETS.slice();
+
+        try {
+            const saved = localStorage.getItem(STORAGE_KEY);
+            if (saved) {
+                this.presets = parsePresets(saved);
+            }
+        } catch (e) {
+            console.warn('unable to load saved brushes', e);
+        }
+    }
+
+    // presets with the same name are replaced
+    add(presets: BrushPreset[]) {
+        for (const preset of presets) {
+            const index = this.presets.findIndex((p) => p.name === preset.name);
+            if (index >= 0) {
+                this.presets[index] = preset;
+            } else {
+                this.presets.push(preset);
+            }
+        }
+        this.save();
+    }
+
+    remove(name: string) {
+        this.presets = this.presets.filter((p) => p.name !== name);
+        this.save();
+    }
+
+    private save() {
+        try {
+            localStorage.setItem(STORAGE_KEY, serializePresets(this.presets));
+        } catch (e) {
+            // most likely out of storage from big tip images, the presets still work until reload
+            console.warn('unable to save brushes', e);
+        }
+    }
+}
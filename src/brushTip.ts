@@ -0,0 +1,121 @@
+// Image-based brush tips
+// A tip is a coverage mask that gets stretched over each dab. Opaque images are read like most brush
+// libraries do, with black painting fully and white not at all; images with transparency use their alpha.
+
+import { fromBase64, toBase64 } from './binary';
+import { rgbToSrgb } from './color';
+import { ColorSpace, convertImage } from './colorSpace';
+import Image, { ImageFormat } from './loader/image';
+
+// how tips are stored in presets and projects
+export interface SerializedBrushTip {
+    name: string;
+    width: number;
+    height: number;
+    coverage: string; // base64 of 8-bit coverage, row by row
+}
+
+export default class BrushTip {
+    name: string;
+    width: number;
+    height: number;
+    coverage: Float32Array;
+
+    constructor(
+        name: string,
+        width: number,
+        height: number,
+        coverage: Float32Array
+    ) {
+        this.name = name;
+        this.width = width;
+        this.height = height;
+        this.coverage = coverage;
+    }
+
+    static fromImage(name: string, image: Image) {
+        const channels = image.format === ImageFormat.RGBA ? 4 : 3;
+        const pixels = convertImage(image, ColorSpace.LinearRec709).storage
+            .pixels;
+        const count = image.width * image.height;
+
+        let transparent = false;
+        if (channels === 4) {
+            for (let i = 0; i < count; i++) {
+                if (pixels[i * 4 + 3] < 1) {
+                    transparent = true;
+                    break;
+                }
+            }
+        }
+
+        const coverage = new Float32Array(count);
+        for (let i = 0; i < count; i++) {
+            const index = i * channels;
+            if (transparent) {
+                coverage[i] = pixels[index + 3];
+            } else {
+                // tips are drawn by eye, so compare in sRGB rather than linear
+                const luminance =
+                    0.2126 * pixels[index] +
+                    0.7152 * pixels[index + 1] +
+                    0.0722 * pixels[index + 2];
+                coverage[i] = 1 - rgbToSrgb(luminance);
+            }
+        }
+
+        return new BrushTip(name, image.width, image.height, coverage);
+    }
+
+    static deserialize(tip: SerializedBrushTip) {
+        const bytes = fromBase64(tip.coverage);
+        if (bytes.length !== tip.width * tip.height) {
+            throw new Error(`brush tip ${tip.name} has the wrong size`);
+        }
+
+        const coverage = new Float32Array(bytes.length);
+        for (let i = 0; i < bytes.length; i++) {
+            coverage[i] = bytes[i] / 255;
+        }
+        return new BrushTip(tip.name, tip.width, tip.height, coverage);
+    }
+
+    serialize(): SerializedBrushTip {
+        const bytes = new Uint8Array(this.coverage.length);
+        for (let i = 0; i < bytes.length; i++) {
+            bytes[i] = Math.round(
+                Math.min(Math.max(this.coverage[i], 0), 1) * 255
+            );
+        }
+
+        return {
+            name: this.name,
+            width: this.width,
+            height: this.height,
+            coverage: toBase64(bytes),
+        };
+    }
+
+    // bilinear coverage at (u, v) in [-1, 1], where the longer side of the tip spans the whole range
+    sample(u: number, v: number) {
+        const size = Math.max(this.width, this.height);
+        const x = (u * size + this.width) / 2 - 0.5;
+        const y = (v * size + this.height) / 2 - 0.5;
+
+        const x0 = Math.floor(x);
+        const y0 = Math.floor(y);
+        const tx = x - x0;
+        const ty = y - y0;
+
+        const top = this.texel(x0, y0) * (1 - tx) + this.texel(x0 + 1, y0) * tx;
+        const bottom =
+            this.texel(x0, y0 + 1) * (1 - tx) + this.texel(x0 + 1, y0 + 1) * tx;
+        return top * (1 - ty) + bottom * ty;
+    }
+
+    // nothing outside the tip
+    private texel(x: number, y: number) {
+        if (x < 0 || x >= this.width || y < 0 || y >= this.height) return 0;
+        return this.coverage[y * this.width + x];
+    }
+}
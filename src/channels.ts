@@ -0,0 +1,78 @@
+// Material channels carried by every document
+// Each channel is stored per layer as `components` values followed by an alpha (coverage) value.
+
+export enum Channel {
+    Albedo,
+    Roughness,
+    Metallic,
+    Normal,
+    Height,
+    AO,
+    Emissive,
+}
+
+export interface ChannelInfo {
+    name: string;
+    components: number; // not counting alpha
+    base: number[]; // value shown where no layer has painted this channel
+    color: boolean; // false for data channels that must never be color converted
+}
+
+export const CHANNELS = [
+    Channel.Albedo,
+    Channel.Roughness,
+    Channel.Metallic,
+    Channel.Normal,
+    Channel.Height,
+    Channel.AO,
+    Channel.Emissive,
+];
+
+export const CHANNEL_INFO: { [channel: number]: ChannelInfo } = {
+    [Channel.Albedo]: {
+        name: 'Albedo',
+        components: 3,
+        base: [0, 0, 0, 0],
+        color: true,
+    },
+    [Channel.Roughness]: {
+        name: 'Roughness',
+        components: 1,
+        base: [0.5, 1],
+        color: false,
+    },
+    [Channel.Metallic]: {
+        name: 'Metallic',
+        components: 1,
+        base: [0, 1],
+        color: false,
+    },
+    [Channel.Normal]: {
+        name: 'Normal',
+        components: 3,
+        base: [0.5, 0.5, 1, 1], // tangent space, encoded like a normal map
+        color: false,
+    },
+    [Channel.Height]: {
+        name: 'Height',
+        components: 1,
+        base: [0.5, 1],
+        color: false,
+    },
+    [Channel.AO]: {
+        name: 'Ambient Occlusion',
+        components: 1,
+        base: [1, 1],
+        color: false,
+    },
+    [Channel.Emissive]: {
+        name: 'Emissive',
+        components: 3,
+        base: [0, 0, 0, 1],
+        color: true,
+    },
+};
+
+// number of floats per pixel, including alpha
+export const channelStride = (channel: Channel) =>
+    CHANNEL_INFO[channel].components + 1;
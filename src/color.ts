@@ -59,6 +59,60 @@ export function rgbToHsv(rgb: vec3) {
     return hsv;
 }
 
+// HSL shares its hue with HSV, so it converts through that rather than RGB
+export function hsvToHsl(hsv: vec3) {
+    const v = hsv[2];
+    const l = v * (1 - hsv[1] / 2);
+    const s = l === 0 || l === 1 ? 0 : (v - l) / Math.min(l, 1 - l);
+    return vec3.fromValues(hsv[0], s, l);
+}
+
+export function hslToHsv(hsl: vec3) {
+    const l = hsl[2];
+    const v = l + hsl[1] * Math.min(l, 1 - l);
+    const s = v === 0 ? 0 : 2 * (1 - l / v);
+    return vec3.fromValues(hsl[0], s, v);
+}
+
+// OKLCH is the polar form of Oklab (https://bottosson.github.io/posts/oklab/)
+// these take and return linear RGB, with lightness in [0, 1] and hue in degrees
+export function rgbToOklch(rgb: vec3) {
+    const [r, g, b] = rgb;
+    const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+    const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+    const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+    const lightness = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+    const a = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+    const bb = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+
+    const chroma = Math.hypot(a, bb);
+    // grays have no hue, and rounding error would make one up
+    let hue = chroma < 1e-4 ? 0 : (Math.atan2(bb, a) * 180) / Math.PI;
+    if (hue < 0) {
+        hue += 360;
+    }
+
+    return vec3.fromValues(lightness, chroma, hue);
+}
+
+// colors outside the RGB gamut come back with components outside [0, 1]
+export function oklchToRgb(lch: vec3) {
+    const [lightness, chroma, hue] = lch;
+    const a = chroma * Math.cos((hue * Math.PI) / 180);
+    const b = chroma * Math.sin((hue * Math.PI) / 180);
+
+    const l = (lightness + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+    const m = (lightness - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+    const s = (lightness - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+    return vec3.fromValues(
+        4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+        -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+        -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s
+    );
+}
+
 
 // Implement IEC 61966-2-1:1999
 
@@ -69,4 +123,17 @@ export function srgbToRgb(u: number): number {
     } else {
         return Math.pow((u + 0.055) / 1.055, 2.4);
     }
-}
\ No newline at end of file
+}
+
+export function rgbToSrgb(u: number): number {
+    if (u <= 0.0031308) {
+        return u * 12.92;
+    } else {
+        return 1.055 * Math.pow(u, 1 / 2.4) - 0.055;
+    }
+}
+
+// lookup table for decoding 8-bit sRGB values to linear floats
+export const SRGB8_TO_RGB = new Float32Array(256).map((_, i) =>
+    srgbToRgb(i / 255)
+);
@@ -0,0 +1,214 @@
+// Color spaces images and documents are tagged with, and conversions between them
+// Conversions go through CIE XYZ with a D65 white, ACES primaries are adapted from their D60 white with Bradford.
+
+import { mat3, vec3 } from 'gl-matrix';
+import { rgbToSrgb, srgbToRgb } from './color';
+import Image, { ImageFormat, ImageStorage } from './loader/image';
+
+// the order matches the COLOR_SPACE_ defines in shaders/color/color_space.glsl
+export enum ColorSpace {
+    LinearRec709,
+    Srgb,
+    ACEScg,
+    ACES2065_1,
+    Raw, // data like roughness or normals, never converted
+}
+
+export const COLOR_SPACES = [
+    ColorSpace.LinearRec709,
+    ColorSpace.Srgb,
+    ColorSpace.ACEScg,
+    ColorSpace.ACES2065_1,
+    ColorSpace.Raw,
+];
+
+export const COLOR_SPACE_NAMES = {
+    [ColorSpace.LinearRec709]: 'Linear Rec.709',
+    [ColorSpace.Srgb]: 'sRGB',
+    [ColorSpace.ACEScg]: 'ACEScg',
+    [ColorSpace.ACES2065_1]: 'ACES2065-1',
+    [ColorSpace.Raw]: 'Raw',
+};
+
+// documents are painted in a linear space so blending and filtering work
+export const WORKING_SPACES = [ColorSpace.LinearRec709, ColorSpace.ACEScg];
+
+// matrices written row by row, like the ones in shaders/color/aces
+const fromRows = (rows: mat3) => mat3.transpose(mat3.create(), rows);
+
+// prettier-ignore
+const AP0_2_XYZ_MAT = fromRows([
+    0.9525523959, 0.0, 0.0000936786,
+    0.3439664498, 0.7281660966, -0.0721325464,
+    0.0, 0.0, 1.0088251844
+]);
+
+// prettier-ignore
+const AP1_2_XYZ_MAT = fromRows([
+    0.6624541811, 0.1340042065, 0.156187687,
+    0.2722287168, 0.6740817658, 0.0536895174,
+    -0.0055746495, 0.0040607335, 1.0103391003
+]);
+
+// prettier-ignore
+const REC709_2_XYZ_MAT = fromRows([
+    0.4123907993, 0.3575843394, 0.1804807884,
+    0.2126390059, 0.7151686788, 0.0721923154,
+    0.0193308187, 0.1191947798, 0.9505321522
+]);
+
+// prettier-ignore
+const BRADFORD_MAT = fromRows([
+    0.8951, 0.2664, -0.1614,
+    -0.7502, 1.7135, 0.0367,
+    0.0389, -0.0685, 1.0296
+]);
+
+const whiteToXyz = (x: number, y: number) =>
+    vec3.fromValues(x / y, 1, (1 - x - y) / y);
+
+const D65_WHITE = whiteToXyz(0.3127, 0.329);
+const ACES_WHITE = whiteToXyz(0.32168, 0.33767);
+
+// adapt XYZ colors seen under the `from` white to how they'd look under `to`
+function bradford(from: vec3, to: vec3) {
+    const coneFrom = vec3.transformMat3(vec3.create(), from, BRADFORD_MAT);
+    const coneTo = vec3.transformMat3(vec3.create(), to, BRADFORD_MAT);
+    const scale = mat3.create();
+    scale[0] = coneTo[0] / coneFrom[0];
+    scale[4] = coneTo[1] / coneFrom[1];
+    scale[8] = coneTo[2] / coneFrom[2];
+
+    const out = mat3.invert(mat3.create(), BRADFORD_MAT);
+    mat3.multiply(out, out, scale);
+    return mat3.multiply(out, out, BRADFORD_MAT);
+}
+
+const D60_2_D65_CAT = bradford(ACES_WHITE, D65_WHITE);
+
+// linear RGB in `space` to D65 XYZ
+function toXyz(space: ColorSpace) {
+    switch (space) {
+        case ColorSpace.ACEScg:
+            return mat3.multiply(mat3.create(), D60_2_D65_CAT, AP1_2_XYZ_MAT);
+        case ColorSpace.ACES2065_1:
+            return mat3.multiply(mat3.create(), D60_2_D65_CAT, AP0_2_XYZ_MAT);
+        case ColorSpace.Raw:
+            return mat3.create();
+        default:
+            return mat3.clone(REC709_2_XYZ_MAT);
+    }
+}
+
+function fromXyz(space: ColorSpace) {
+    const m = toXyz(space);
+    return mat3.invert(m, m);
+}
+
+// converts linear values, sRGB is decoded first and encoded last
+export function colorSpaceMatrix(from: ColorSpace, to: ColorSpace) {
+    return mat3.multiply(mat3.create(), fromXyz(to), toXyz(from));
+}
+
+const isNoop = (from: ColorSpace, to: ColorSpace) =>
+    from === to || from === ColorSpace.Raw || to === ColorSpace.Raw;
+
+export function convertColor(color: vec3, from: ColorSpace, to: ColorSpace) {
+    const out = vec3.clone(color);
+    if (isNoop(from, to)) return out;
+
+    if (from === ColorSpace.Srgb) {
+        vec3.set(out, srgbToRgb(out[0]), srgbToRgb(out[1]), srgbToRgb(out[2]));
+    }
+    vec3.transformMat3(out, out, colorSpaceMatrix(from, to));
+    if (to === ColorSpace.Srgb) {
+        vec3.set(out, rgbToSrgb(out[0]), rgbToSrgb(out[1]), rgbToSrgb(out[2]));
+    }
+    return out;
+}
+
+// convert RGB(A) pixels in place, leaving alpha alone
+export function convertPixels(
+    pixels: Float32Array,
+    stride: number,
+    from: ColorSpace,
+    to: ColorSpace
+) {
+    if (isNoop(from, to)) return;
+
+    transformPixels(pixels, stride, colorSpaceMatrix(from, to), (c) =>
+        from === ColorSpace.Srgb ? srgbToRgb(c) : c
+    );
+    if (to === ColorSpace.Srgb) {
+        transformPixels(pixels, stride, mat3.create(), rgbToSrgb);
+    }
+}
+
+// for images stored as XYZ, like some Radiance HDR files
+export function convertXyzPixels(
+    pixels: Float32Array,
+    stride: number,
+    to: ColorSpace
+) {
+    transformPixels(pixels, stride, fromXyz(to), (c) => c);
+}
+
+function transformPixels(
+    pixels: Float32Array,
+    stride: number,
+    m: mat3,
+    decode: (c: number) => number
+) {
+    for (let i = 0; i < pixels.length; i += stride) {
+        const r = decode(pixels[i]);
+        const g = decode(pixels[i + 1]);
+        const b = decode(pixels[i + 2]);
+        pixels[i] = m[0] * r + m[3] * g + m[6] * b;
+        pixels[i + 1] = m[1] * r + m[4] * g + m[7] * b;
+        pixels[i + 2] = m[2] * r + m[5] * g + m[8] * b;
+    }
+}
+
+// a float copy of `image` in `to`, or the image itself if there's nothing to do
+export function convertImage(image: Image, to: ColorSpace): Image {
+    if (
+        image.storage.type === ImageStorage.Float32 &&
+        isNoop(image.colorSpace, to)
+    ) {
+        return image;
+    }
+
+    const source = image.storage.pixels;
+    const scale = image.storage.type === ImageStorage.Uint8 ? 1 / 255 : 1;
+    const pixels = new Float32Array(source.length);
+    for (let i = 0; i < source.length; i++) {
+        pixels[i] = source[i] * scale;
+    }
+
+    const stride = image.format === ImageFormat.RGBA ? 4 : 3;
+    convertPixels(pixels, stride, image.colorSpace, to);
+
+    return {
+        ...image,
+        colorSpace: isNoop(image.colorSpace, to) ? image.colorSpace : to,
+        storage: { type: ImageStorage.Float32, pixels },
+    };
+}
+
+// chromaticities of the red, green, blue and white points as x, y pairs
+// prettier-ignore
+const PRIMARIES: [ColorSpace, number[]][] = [
+    [ColorSpace.LinearRec709, [0.64, 0.33, 0.3, 0.6, 0.15, 0.06, 0.3127, 0.329]],
+    // Radiance's default, which everything reads as Rec.709
+    [ColorSpace.LinearRec709, [0.64, 0.33, 0.29, 0.6, 0.15, 0.06, 0.333, 0.333]],
+    [ColorSpace.ACEScg, [0.713, 0.293, 0.165, 0.83, 0.128, 0.044, 0.32168, 0.33767]],
+    [ColorSpace.ACES2065_1, [0.7347, 0.2653, 0, 1, 0.0001, -0.077, 0.32168, 0.33767]],
+];
+
+// the linear space with these primaries, or null if it isn't one we know
+export function colorSpaceFromPrimaries(xy: number[]) {
+    const match = PRIMARIES.find(([, primaries]) =>
+        primaries.every((p, i) => Math.abs(p - xy[i]) < 0.002)
+    );
+    return match ? match[0] : null;
+}
@@ -0,0 +1,166 @@
+import * as React from 'react';
+import { useContext, useState } from 'react';
+import { Channel, CHANNELS, CHANNEL_INFO } from '../channels';
+import { vec3 } from 'gl-matrix';
+import { rgbToSrgb, srgbToRgb } from '../color';
+import { toHex } from '../palettes';
+import ColorWheel from './ColorWheel';
+import { WindowContext } from './Widget';
+
+// emission is stored linear and can go above 1.0, the wheel picks it as an sRGB color times an intensity
+const splitEmission = (value: number[]) => {
+    const intensity = Math.max(1, ...value);
+    const [r, g, b] = value.map((c) => rgbToSrgb(c / intensity));
+    return { color: vec3.fromValues(r, g, b), intensity };
+};
+
+const joinEmission = (color: vec3, intensity: number) =>
+    Array.from(color).map((c) => srgbToRgb(c) * intensity);
+
+// choose which channels the brush paints, and with what values
+export default function BrushChannels() {
+    const windowManager = useContext(WindowContext);
+    const brushEngine = windowManager.brushEngine;
+
+    const [showPanel, setShowPanel] = useState(false);
+    const [showEmissive, setShowEmissive] = useState(false);
+    const [, setRevision] = useState(0);
+
+    // the brush engine isn't React state, so re-render by hand after changing it
+    const update = (f: () => void) => {
+        f();
+        setRevision((revision) => revision + 1);
+    };
+
+    const toggleChannel = (channel: Channel, enabled: boolean) =>
+        update(() => {
+            if (enabled) {
+                brushEngine.channels.add(channel);
+            } else {
+                brushEngine.channels.delete(channel);
+            }
+        });
+
+    const setValue = (channel: Channel, value: number[]) =>
+        update(() => {
+            brushEngine.channelValues[channel] = value;
+        });
+
+    const valueEditor = (channel: Channel) => {
+        const value = brushEngine.channelValues[channel];
+
+        switch (channel) {
+            case Channel.Albedo:
+                return <span>brush color</span>;
+            case Channel.Normal:
+                // pick the tangent space x and y, z keeps the normal unit length
+                const setNormal = (x: number, y: number) => {
+                    const nx = x * 2 - 1;
+                    const ny = y * 2 - 1;
+                    const nz = Math.sqrt(Math.max(1 - nx * nx - ny * ny, 0));
+                    setValue(channel, [x, y, (nz + 1) / 2]);
+                };
+
+                return (
+                    <>
+                        <input
+                            type="range"
+                            title="X"
+                            min={0}
+                            max={1}
+                            step={0.01}
+                            value={value[0]}
+                            onChange={(e) =>
+                                setNormal(Number(e.target.value), value[1])
+                            }
+                        />
+                        <input
+                            type="range"
+                            title="Y"
+                            min={0}
+                            max={1}
+                            step={0.01}
+                            value={value[1]}
+                            onChange={(e) =>
+                                setNormal(value[0], Number(e.target.value))
+                            }
+                        />
+                    </>
+                );
+            case Channel.Emissive:
+                const { color } = splitEmission(value);
+                return (
+                    <button
+                        className="swatch"
+                        title="Pick the emission color"
+                        style={{
+                            backgroundColor: `#${toHex(Array.from(color))}`,
+                        }}
+                        onClick={() => setShowEmissive(!showEmissive)}
+                    />
+                );
+            default:
+                return (
+                    <input
+                        type="range"
+                        min={0}
+                        max={1}
+                        step={0.01}
+                        value={value[0]}
+                        onChange={(e) =>
+                            setValue(channel, [Number(e.target.value)])
+                        }
+                    />
+                );
+        }
+    };
+
+    const emissiveWheel = () => {
+        const { color, intensity } = splitEmission(
+            brushEngine.channelValues[Channel.Emissive]
+        );
+        return (
+            <ColorWheel
+                brushColor={color}
+                setBrushColor={(c) =>
+                    setValue(Channel.Emissive, joinEmission(c, intensity))
+                }
+                intensity={intensity}
+                setIntensity={(i) =>
+                    setValue(Channel.Emissive, joinEmission(color, i))
+                }
+            />
+        );
+    };
+
+    return (
+        <div className="brush-channels">
+            <button onClick={() => setShowPanel(!showPanel)}>Channels</button>
+            {showPanel && (
+                <div className="brush-channels-panel">
+                    {CHANNELS.map((channel) => (
+                        <React.Fragment key={channel}>
+                            <div className="brush-channel">
+                                <input
+                                    type="checkbox"
+                                    id={`channel-${channel}`}
+                                    checked={brushEngine.channels.has(channel)}
+                                    onChange={(e) =>
+                                        toggleChannel(channel, e.target.checked)
+                                    }
+                                />
+                                <label htmlFor={`channel-${channel}`}>
+                                    {CHANNEL_INFO[channel].name}
+                                </label>
+                                {valueEditor(channel)}
+                            </div>
+                            {channel === Channel.Emissive &&
+                                showEmissive &&
+                                emissiveWheel()}
+                        </React.Fragment>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,345 @@
+import * as React from 'react';
+import { useContext, useState } from 'react';
+import { BrushBlendMode, BRUSH_BLEND_MODE_NAMES } from '../brushEngine';
+import {
+    BrushPreset,
+    parsePresets,
+    PRESET_EXTENSION,
+    serializePresets,
+} from '../brushPresets';
+import BrushTip from '../brushTip';
+import {
+    DynamicsTarget,
+    DYNAMICS_INPUTS,
+    DYNAMICS_INPUT_NAMES,
+    DYNAMICS_TARGETS,
+    DYNAMICS_TARGET_NAMES,
+} from '../dynamics';
+import { loadAssetFromBlob } from '../loader';
+import { AssetType } from '../loader/asset';
+import { download } from '../utils';
+import CurveEditor from './CurveEditor';
+import { WindowContext } from './Widget';
+
+const BRUSH_BLEND_MODES = [
+    BrushBlendMode.Normal,
+    BrushBlendMode.Multiply,
+    BrushBlendMode.Screen,
+    BrushBlendMode.Overlay,
+    BrushBlendMode.Add,
+    BrushBlendMode.Erase,
+    BrushBlendMode.Behind,
+];
+
+// ask for a file, then hand it to `f`
+const openFile = (accept: string, f: (file: File) => Promise<void>) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.addEventListener('change', () => {
+        const file = input.files[0];
+        if (file) {
+            f(file).catch((e) => alert(e.message));
+        }
+    });
+    input.click();
+};
+
+// brush size and shape, and the preset library
+export default function BrushPanel() {
+    const windowManager = useContext(WindowContext);
+    const { brushEngine, brushLibrary } = windowManager;
+
+    const [showPanel, setShowPanel] = useState(false);
+    const [dynamicsTarget, setDynamicsTarget] = useState<DynamicsTarget>(
+        'size'
+    );
+    const [, setRevision] = useState(0);
+
+    // neither the brush engine nor the library are React state, so re-render by hand after changing them
+    const update = (f: () => void) => {
+        f();
+        setRevision((revision) => revision + 1);
+    };
+
+    const slider = (
+        name: string,
+        value: number,
+        min: number,
+        max: number,
+        step: number,
+        set: (value: number) => void
+    ) => (
+        <div className="brush-channel">
+            <label>{name}</label>
+            <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                onChange={(e) => update(() => set(Number(e.target.value)))}
+            />
+        </div>
+    );
+
+    const handleLoadTip = () =>
+        openFile('image/*,.exr,.hdr,.tiff', async (file) => {
+            const asset = await loadAssetFromBlob(file.name, file);
+            if (asset.type !== AssetType.Image) {
+                throw new Error(`${file.name} isn't an image`);
+            }
+
+            update(() => {
+                brushEngine.tip = BrushTip.fromImage(file.name, asset.image);
+                brushEngine.hardness = 0; // paint the tip as it was drawn
+            });
+        });
+
+    const handleSavePreset = () => {
+        const name = prompt('Preset name');
+        if (name) {
+            update(() => brushLibrary.add([brushEngine.getPreset(name)]));
+        }
+    };
+
+    const handleImport = () =>
+        openFile('.json', async (file) => {
+            const presets = parsePresets(await file.text());
+            update(() => brushLibrary.add(presets));
+        });
+
+    const handleExport = () => {
+        const blob = new Blob([serializePresets(brushLibrary.presets)], {
+            type: 'application/json',
+        });
+        download(blob, `texpaint.${PRESET_EXTENSION}`);
+    };
+
+    const mapping = brushEngine.dynamics[dynamicsTarget];
+    const stabilizer = brushEngine.stabilizer.settings;
+
+    return (
+        <div className="brush-channels">
+            <button onClick={() => setShowPanel(!showPanel)}>Brush</button>
+            {showPanel && (
+                <div className="brush-channels-panel">
+                    <div className="brush-presets">
+                        {brushLibrary.presets.map((preset: BrushPreset) => (
+                            <div key={preset.name} className="brush-preset">
+                                <button
+                                    onClick={() =>
+                                        update(() =>
+                                            brushEngine.applyPreset(preset)
+                                        )
+                                    }
+                                >
+                                    {preset.name}
+                                </button>
+                                <button
+                                    title="Delete preset"
+                                    onClick={() =>
+                                        update(() =>
+                                            brushLibrary.remove(preset.name)
+                                        )
+                                    }
+                                >
+                                    ×
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="layer-buttons">
+                        <button onClick={handleSavePreset}>Save preset</button>
+                        <button onClick={handleImport}>Import</button>
+                        <button onClick={handleExport}>Export</button>
+                    </div>
+
+                    {slider('Size', brushEngine.radius, 1, 200, 1, (value) => {
+                        brushEngine.radius = value;
+                    })}
+                    {slider(
+                        'Spacing',
+                        brushEngine.spacing,
+                        0.05,
+                        2,
+                        0.05,
+                        (value) => {
+                            brushEngine.spacing = value;
+                        }
+                    )}
+                    {slider(
+                        'Hardness',
+                        brushEngine.hardness,
+                        0,
+                        1,
+                        0.01,
+                        (value) => {
+                            brushEngine.hardness = value;
+                        }
+                    )}
+                    {slider(
+                        'Roundness',
+                        brushEngine.roundness,
+                        0.05,
+                        1,
+                        0.01,
+                        (value) => {
+                            brushEngine.roundness = value;
+                        }
+                    )}
+                    {slider(
+                        'Angle',
+                        brushEngine.angle,
+                        -180,
+                        180,
+                        1,
+                        (value) => {
+                            brushEngine.angle = value;
+                        }
+                    )}
+                    {slider(
+                        'Angle jitter',
+                        brushEngine.angleJitter,
+                        0,
+                        180,
+                        1,
+                        (value) => {
+                            brushEngine.angleJitter = value;
+                        }
+                    )}
+                    {slider(
+                        'Opacity',
+                        brushEngine.opacity,
+                        0,
+                        1,
+                        0.01,
+                        (value) => {
+                            brushEngine.opacity = value;
+                        }
+                    )}
+                    {slider('Flow', brushEngine.flow, 0, 1, 0.01, (value) => {
+                        brushEngine.flow = value;
+                    })}
+                    <div className="brush-channel">
+                        <label>Blend</label>
+                        <select
+                            value={brushEngine.blendMode}
+                            onChange={(e) =>
+                                update(() => {
+                                    brushEngine.blendMode = Number(
+                                        e.target.value
+                                    );
+                                })
+                            }
+                        >
+                            {BRUSH_BLEND_MODES.map((mode) => (
+                                <option key={mode} value={mode}>
+                                    {BRUSH_BLEND_MODE_NAMES[mode]}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    {slider(
+                        'Lazy rope',
+                        stabilizer.rope,
+                        0,
+                        1,
+                        0.01,
+                        (value) => {
+                            stabilizer.rope = value;
+                        }
+                    )}
+                    {slider(
+                        'Smoothing',
+                        stabilizer.average,
+                        0,
+                        1,
+                        0.01,
+                        (value) => {
+                            stabilizer.average = value;
+                        }
+                    )}
+                    {slider('Curves', stabilizer.curve, 0, 1, 0.01, (value) => {
+                        stabilizer.curve = value;
+                    })}
+
+                    <div className="brush-channel">
+                        <label>
+                            Tip:{' '}
+                            {brushEngine.tip ? brushEngine.tip.name : 'round'}
+                        </label>
+                        <button onClick={handleLoadTip}>Load</button>
+                        <button
+                            disabled={!brushEngine.tip}
+                            onClick={() =>
+                                update(() => {
+                                    brushEngine.tip = null;
+                                })
+                            }
+                        >
+                            Round
+                        </button>
+                    </div>
+
+                    <div className="brush-channel">
+                        <label>Dynamics</label>
+                        <select
+                            value={dynamicsTarget}
+                            onChange={(e) =>
+                                setDynamicsTarget(
+                                    e.target.value as DynamicsTarget
+                                )
+                            }
+                        >
+                            {DYNAMICS_TARGETS.map((target) => (
+                                <option key={target} value={target}>
+                                    {DYNAMICS_TARGET_NAMES[target]}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="brush-channel">
+                        <label>
+                            <input
+                                type="checkbox"
+                                checked={mapping.enabled}
+                                onChange={(e) =>
+                                    update(() => {
+                                        mapping.enabled = e.target.checked;
+                                    })
+                                }
+                            />
+                            Follows
+                        </label>
+                        <select
+                            value={mapping.input}
+                            disabled={!mapping.enabled}
+                            onChange={(e) =>
+                                update(() => {
+                                    mapping.input = Number(e.target.value);
+                                })
+                            }
+                        >
+                            {DYNAMICS_INPUTS.map((input) => (
+                                <option key={input} value={input}>
+                                    {DYNAMICS_INPUT_NAMES[input]}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    {mapping.enabled && (
+                        <CurveEditor
+                            curve={mapping.curve}
+                            onChange={(curve) =>
+                                update(() => {
+                                    mapping.curve = curve;
+                                })
+                            }
+                        />
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,248 @@
+import * as React from 'react';
+import { useEffect, useState } from 'react';
+import { vec3 } from 'gl-matrix';
+import {
+    hslToHsv,
+    hsvToHsl,
+    hsvToRgb,
+    oklchToRgb,
+    rgbToHsv,
+    rgbToOklch,
+    rgbToSrgb,
+    srgbToRgb,
+} from '../color';
+import { fromHex, toHex } from '../palettes';
+
+enum ColorModel {
+    Rgb,
+    Hsv,
+    Hsl,
+    Oklch,
+}
+
+const COLOR_MODELS = [
+    ColorModel.Rgb,
+    ColorModel.Hsv,
+    ColorModel.Hsl,
+    ColorModel.Oklch,
+];
+
+const COLOR_MODEL_NAMES = {
+    [ColorModel.Rgb]: 'RGB',
+    [ColorModel.Hsv]: 'HSV',
+    [ColorModel.Hsl]: 'HSL',
+    [ColorModel.Oklch]: 'OKLCH',
+};
+
+// the name and largest value of each component
+const COMPONENTS: { [model: number]: [string, number][] } = {
+    [ColorModel.Rgb]: [
+        ['R', 1],
+        ['G', 1],
+        ['B', 1],
+    ],
+    [ColorModel.Hsv]: [
+        ['H', 360],
+        ['S', 1],
+        ['V', 1],
+    ],
+    [ColorModel.Hsl]: [
+        ['H', 360],
+        ['S', 1],
+        ['L', 1],
+    ],
+    [ColorModel.Oklch]: [
+        ['L', 1],
+        ['C', 0.4],
+        ['H', 360],
+    ],
+};
+
+const MAX_INTENSITY = 16;
+
+const mapColor = (color: vec3, f: (c: number) => number) =>
+    vec3.fromValues(f(color[0]), f(color[1]), f(color[2]));
+
+const clamp = (n: number) => Math.min(Math.max(n, 0), 1);
+
+const round = (n: number, max: number) =>
+    max > 1 ? Math.round(n * 10) / 10 : Math.round(n * 1000) / 1000;
+
+type ColorEntryProps = {
+    hsvColor: vec3;
+    setHsvColor: (hsv: vec3) => void;
+    intensity?: number;
+    setIntensity?: (intensity: number) => void;
+};
+
+// typed values for the color picked on the wheel, which is sRGB in HSV
+export default function ColorEntry({
+    hsvColor,
+    setHsvColor,
+    intensity,
+    setIntensity,
+}: ColorEntryProps) {
+    const [model, setModel] = useState(ColorModel.Rgb);
+    const [linear, setLinear] = useState(false);
+
+    const color = hsvToRgb(hsvColor);
+    const hex = toHex(Array.from(color));
+
+    // the hex field holds partial input until it parses
+    const [hexText, setHexText] = useState(hex);
+    useEffect(() => setHexText(hex), [hex]);
+
+    const setColor = (srgb: vec3) =>
+        setHsvColor(rgbToHsvKeepingHue(srgb, hsvColor));
+
+    let values: vec3;
+    switch (model) {
+        case ColorModel.Rgb:
+            values = linear ? mapColor(color, srgbToRgb) : color;
+            break;
+        case ColorModel.Hsv:
+            values = hsvColor;
+            break;
+        case ColorModel.Hsl:
+            values = hsvToHsl(hsvColor);
+            break;
+        case ColorModel.Oklch:
+            values = rgbToOklch(mapColor(color, srgbToRgb));
+            break;
+    }
+
+    const setValues = (values: vec3) => {
+        switch (model) {
+            case ColorModel.Rgb:
+                setColor(linear ? mapColor(values, rgbToSrgb) : values);
+                break;
+            case ColorModel.Hsv:
+                setHsvColor(values);
+                break;
+            case ColorModel.Hsl:
+                setHsvColor(hslToHsv(values));
+                break;
+            case ColorModel.Oklch:
+                // out of gamut colors are clipped
+                const rgb = mapColor(oklchToRgb(values), clamp);
+                setColor(mapColor(rgb, rgbToSrgb));
+                break;
+        }
+    };
+
+    const setComponent = (i: number, value: number) => {
+        const max = COMPONENTS[model][i][1];
+        if (isNaN(value)) return;
+
+        const newValues = vec3.clone(values);
+        newValues[i] = Math.min(Math.max(value, 0), max);
+        setValues(newValues);
+    };
+
+    const handleHex = (text: string) => {
+        setHexText(text);
+        const match = /^#?([0-9a-f]{6})$/i.exec(text.trim());
+        if (match) {
+            const [r, g, b] = fromHex(match[1]);
+            setColor(vec3.fromValues(r, g, b));
+        }
+    };
+
+    return (
+        <div className="color-entry">
+            <div className="brush-channel">
+                <select
+                    value={model}
+                    onChange={(e) => setModel(Number(e.target.value))}
+                >
+                    {COLOR_MODELS.map((m) => (
+                        <option key={m} value={m}>
+                            {COLOR_MODEL_NAMES[m]}
+                        </option>
+                    ))}
+                </select>
+                <label className="color-linear">
+                    <input
+                        type="checkbox"
+                        checked={linear}
+                        disabled={model !== ColorModel.Rgb}
+                        onChange={(e) => setLinear(e.target.checked)}
+                    />
+                    Linear
+                </label>
+            </div>
+
+            {COMPONENTS[model].map(([name, max], i) => (
+                <div key={`${model}-${i}`} className="brush-channel">
+                    <label>{name}</label>
+                    <input
+                        type="range"
+                        min={0}
+                        max={max}
+                        step={max / 1000}
+                        value={values[i]}
+                        onChange={(e) =>
+                            setComponent(i, Number(e.target.value))
+                        }
+                    />
+                    <input
+                        type="number"
+                        min={0}
+                        max={max}
+                        step={max > 1 ? 1 : 0.001}
+                        value={round(values[i], max)}
+                        onChange={(e) =>
+                            setComponent(i, parseFloat(e.target.value))
+                        }
+                    />
+                </div>
+            ))}
+
+            <div className="brush-channel">
+                <label>Hex</label>
+                <input
+                    type="text"
+                    size={8}
+                    value={hexText}
+                    onChange={(e) => handleHex(e.target.value)}
+                    onBlur={() => setHexText(hex)}
+                />
+            </div>
+
+            {setIntensity && (
+                <div className="brush-channel">
+                    <label title="Multiplies the color for emission brighter than 1.0">
+                        Intensity
+                    </label>
+                    <input
+                        type="range"
+                        min={1}
+                        max={MAX_INTENSITY}
+                        step={0.1}
+                        value={intensity}
+                        onChange={(e) => setIntensity(Number(e.target.value))}
+                    />
+                    <input
+                        type="number"
+                        min={1}
+                        step={0.1}
+                        value={intensity}
+                        onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            if (value >= 1) setIntensity(value);
+                        }}
+                    />
+                </div>
+            )}
+        </div>
+    );
+}
+
+// grays have no hue of their own, so they keep the one picked before
+function rgbToHsvKeepingHue(srgb: vec3, previous: vec3) {
+    const hsv = rgbToHsv(srgb);
+    if (hsv[1] === 0) {
+        hsv[0] = previous[0];
+    }
+    return hsv;
+}
@@ -0,0 +1,200 @@
+import * as React from 'react';
+import { useContext, useState } from 'react';
+import {
+    ColorSpace,
+    COLOR_SPACES,
+    COLOR_SPACE_NAMES,
+    WORKING_SPACES,
+} from '../colorSpace';
+import { parseCube, VIEW_TRANSFORMS, VIEW_TRANSFORM_NAMES } from '../display';
+import { WindowContext } from './Widget';
+
+// value of the input space select when images keep the space they're tagged with
+const FROM_FILE = -1;
+
+// color management for the document, and how opened images are read
+export default function ColorPanel() {
+    const windowManager = useContext(WindowContext);
+    const slate = windowManager.slate;
+    const display = windowManager.display;
+
+    const [showPanel, setShowPanel] = useState(false);
+    const [, setRevision] = useState(0);
+
+    // the color settings aren't React state, so re-render by hand after changing them
+    const update = (f: () => void) => {
+        f();
+        setRevision((revision) => revision + 1);
+        windowManager.drawOnNextFrame();
+    };
+
+    const handleLoadLut = () => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.cube';
+        input.addEventListener('change', async () => {
+            const file = input.files[0];
+            if (!file) return;
+
+            try {
+                const lut = parseCube(
+                    await file.text(),
+                    file.name.replace(/\.[^.]*$/, '')
+                );
+                update(() => display.setLut(windowManager.gl, lut));
+            } catch (e) {
+                alert(e.message);
+            }
+        });
+        input.click();
+    };
+
+    return (
+        <div className="brush-channels">
+            <button onClick={() => setShowPanel(!showPanel)}>Color</button>
+            {showPanel && (
+                <div className="brush-channels-panel export-panel">
+                    <label title="The space color channels are painted and blended in, converting clears the undo history">
+                        Working space
+                        <select
+                            value={slate.workingSpace}
+                            onChange={(e) =>
+                                update(() =>
+                                    slate.setWorkingSpace(
+                                        Number(e.target.value)
+                                    )
+                                )
+                            }
+                        >
+                            {WORKING_SPACES.map((space) => (
+                                <option key={space} value={space}>
+                                    {COLOR_SPACE_NAMES[space]}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label title="Files that don't say what space they're in are read as sRGB or linear Rec.709">
+                        Open images as
+                        <select
+                            value={windowManager.inputSpace ?? FROM_FILE}
+                            onChange={(e) =>
+                                update(() => {
+                                    const space: ColorSpace = Number(
+                                        e.target.value
+                                    );
+                                    windowManager.inputSpace =
+                                        space === FROM_FILE ? null : space;
+                                })
+                            }
+                        >
+                            <option value={FROM_FILE}>From file</option>
+                            {COLOR_SPACES.map((space) => (
+                                <option key={space} value={space}>
+                                    {COLOR_SPACE_NAMES[space]}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+
+                    <label title="How the rendered colors are mapped to the screen in every view">
+                        View
+                        <select
+                            value={display.transform}
+                            onChange={(e) =>
+                                update(
+                                    () =>
+                                        (display.transform = Number(
+                                            e.target.value
+                                        ))
+                                )
+                            }
+                        >
+                            {VIEW_TRANSFORMS.map((transform) => (
+                                <option key={transform} value={transform}>
+                                    {VIEW_TRANSFORM_NAMES[transform]}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label title="In stops, applied before the view transform">
+                        Exposure
+                        <input
+                            type="range"
+                            min={-10}
+                            max={10}
+                            step={0.1}
+                            value={display.exposure}
+                            onChange={(e) =>
+                                update(
+                                    () =>
+                                        (display.exposure = Number(
+                                            e.target.value
+                                        ))
+                                )
+                            }
+                        />
+                        <input
+                            type="number"
+                            step={0.1}
+                            value={display.exposure}
+                            onChange={(e) => {
+                                const exposure = parseFloat(e.target.value);
+                                if (!isNaN(exposure)) {
+                                    update(() => (display.exposure = exposure));
+                                }
+                            }}
+                        />
+                    </label>
+                    <label title="Applied after the view transform">
+                        Gamma
+                        <input
+                            type="range"
+                            min={0.2}
+                            max={5}
+                            step={0.01}
+                            value={display.gamma}
+                            onChange={(e) =>
+                                update(
+                                    () =>
+                                        (display.gamma = Number(e.target.value))
+                                )
+                            }
+                        />
+                        <input
+                            type="number"
+                            min={0.01}
+                            step={0.01}
+                            value={display.gamma}
+                            onChange={(e) => {
+                                const gamma = parseFloat(e.target.value);
+                                if (gamma > 0) {
+                                    update(() => (display.gamma = gamma));
+                                }
+                            }}
+                        />
+                    </label>
+                    <div
+                        className="color-look"
+                        title="A .cube 3D LUT applied last, to the sRGB the view transform outputs"
+                    >
+                        Look
+                        <button onClick={handleLoadLut}>
+                            {display.lut ? display.lut.name : 'Load LUT'}
+                        </button>
+                        {display.lut && (
+                            <button
+                                onClick={() =>
+                                    update(() =>
+                                        display.setLut(windowManager.gl, null)
+                                    )
+                                }
+                            >
+                                Clear
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,7 +1,8 @@
 import * as React from 'react';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { vec2, vec3 } from 'gl-matrix';
 import { hsvToRgb, rgbToHsv } from '../color';
+import ColorEntry from './ColorEntry';
 import Widget from './Widget';
 
 enum ColorResultType {
@@ -80,10 +81,30 @@ const hsvColorAt = (
     return { type: ColorResultType.None };
 };
 
-export default function ColorWheel({ brushColor, setBrushColor }) {
+type ColorWheelProps = {
+    brushColor: vec3;
+    setBrushColor: (color: vec3) => void;
+    // shown for colors that can be brighter than 1.0, like emission
+    intensity?: number;
+    setIntensity?: (intensity: number) => void;
+};
+
+export default function ColorWheel({
+    brushColor,
+    setBrushColor,
+    intensity,
+    setIntensity,
+}: ColorWheelProps) {
     const [capturedField, setCapturedField] = useState(ColorResultType.None);
     const [hsvColor, setHsvColor] = useState(rgbToHsv(brushColor));
 
+    // follow colors set from elsewhere, like the eyedropper, but keep the hue of grays picked here
+    useEffect(() => {
+        if (!vec3.equals(hsvToRgb(hsvColor), brushColor)) {
+            setHsvColor(rgbToHsv(brushColor));
+        }
+    }, [brushColor]);
+
     const setColorFromHsv = (hsv: vec3) => {
         setHsvColor(hsv);
         setBrushColor(hsvToRgb(hsv));
@@ -148,59 +169,67 @@ export default function ColorWheel({ brushColor, setBrushColor }) {
     };
 
     return (
-        <Widget
-            type="ColorSelect"
-            widgetProps={{ hsvColor, radius, wheelWidth }}
-            className="color-widget"
-            style={{ height: widgetWidth, width: widgetWidth, zIndex: 1 }}
-            onMouseDown={handleMouseDown}
-            onMouseMove={handleMouseMove}
-            onMouseUp={handleMouseUp}
-        >
-            <div
-                style={{
-                    position: 'relative',
-                    display: 'block',
-                    height: svWidth,
-                    width: svWidth,
-                    left: svCoordinate[0],
-                    top: svCoordinate[1],
-                    border: '1px solid white',
-                    borderRadius: '50%',
-                }}
+        <div className="color-widget" style={{ zIndex: 1 }}>
+            <Widget
+                type="ColorSelect"
+                widgetProps={{ hsvColor, radius, wheelWidth }}
+                className="color-wheel"
+                style={{ height: widgetWidth, width: widgetWidth }}
+                onMouseDown={handleMouseDown}
+                onMouseMove={handleMouseMove}
+                onMouseUp={handleMouseUp}
             >
                 <div
                     style={{
                         position: 'relative',
                         display: 'block',
-                        height: svWidth - 3,
-                        width: svWidth - 3,
-                        border: '2px solid black',
+                        height: svWidth,
+                        width: svWidth,
+                        left: svCoordinate[0],
+                        top: svCoordinate[1],
+                        border: '1px solid white',
                         borderRadius: '50%',
                     }}
-                ></div>
-            </div>
-            <div
-                style={{
-                    position: 'absolute',
-                    top: widgetWidth / 2 - hueHeight / 2,
-                    left: 0,
-                    height: hueHeight,
-                    width: '100%',
-                    transform: `rotate(${hsvColor[0]}deg)`,
-                }}
-            >
+                >
+                    <div
+                        style={{
+                            position: 'relative',
+                            display: 'block',
+                            height: svWidth - 3,
+                            width: svWidth - 3,
+                            border: '2px solid black',
+                            borderRadius: '50%',
+                        }}
+                    ></div>
+                </div>
                 <div
                     style={{
-                        position: 'relative',
-                        display: 'block',
-                        height: '100%',
-                        width: wheelWidth + 1,
-                        left: padding - wheelWidth - 2,
-                        border: '2px solid black',
+                        position: 'absolute',
+                        top: widgetWidth / 2 - hueHeight / 2,
+                        left: 0,
+                        height: hueHeight,
+                        width: '100%',
+                        transform: `rotate(${hsvColor[0]}deg)`,
                     }}
-                ></div>
-            </div>
-        </Widget>
+                >
+                    <div
+                        style={{
+                            position: 'relative',
+                            display: 'block',
+                            height: '100%',
+                            width: wheelWidth + 1,
+                            left: padding - wheelWidth - 2,
+                            border: '2px solid black',
+                        }}
+                    ></div>
+                </div>
+            </Widget>
+            <ColorEntry
+                hsvColor={hsvColor}
+                setHsvColor={setColorFromHsv}
+                intensity={intensity}
+                setIntensity={setIntensity}
+            />
+        </div>
     );
 }
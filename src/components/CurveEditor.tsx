@@ -0,0 +1,114 @@
+import * as React from 'react';
+import { useRef, useState } from 'react';
+import { ResponseCurve } from '../dynamics';
+
+const SIZE = 120;
+const POINT_RADIUS = 4;
+
+// points closer than this to the pointer can be grabbed (in pixels)
+const GRAB_DISTANCE = 8;
+
+interface CurveEditorProps {
+    curve: ResponseCurve;
+    onChange: (curve: ResponseCurve) => void;
+}
+
+// drag points to shape a response curve, double click to add a point or remove one
+// the first and last points stay at the ends of the input range
+export default function CurveEditor({ curve, onChange }: CurveEditorProps) {
+    const svg = useRef<SVGSVGElement>(null);
+    const [dragging, setDragging] = useState(-1);
+
+    const toCurve = (e: React.PointerEvent | React.MouseEvent) => {
+        const bounds = svg.current.getBoundingClientRect();
+        const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+        return [
+            clamp((e.clientX - bounds.left) / bounds.width),
+            clamp(1 - (e.clientY - bounds.top) / bounds.height),
+        ];
+    };
+
+    const pointNear = (point: number[]) =>
+        curve.findIndex(
+            ([x, y]) =>
+                Math.hypot(x - point[0], y - point[1]) * SIZE < GRAB_DISTANCE
+        );
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        const index = pointNear(toCurve(e));
+        if (index >= 0) {
+            svg.current.setPointerCapture(e.pointerId);
+            setDragging(index);
+        }
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (dragging < 0) return;
+
+        let [x, y] = toCurve(e);
+        if (dragging === 0) {
+            x = 0;
+        } else if (dragging === curve.length - 1) {
+            x = 1;
+        } else {
+            // keep points in order
+            x = Math.min(
+                Math.max(x, curve[dragging - 1][0]),
+                curve[dragging + 1][0]
+            );
+        }
+
+        const next = curve.slice();
+        next[dragging] = [x, y];
+        onChange(next);
+    };
+
+    const handleDoubleClick = (e: React.MouseEvent) => {
+        const point = toCurve(e);
+        const index = pointNear(point);
+
+        if (index > 0 && index < curve.length - 1) {
+            onChange(curve.filter((_, i) => i !== index));
+        } else if (index < 0) {
+            const next = curve.slice();
+            const after = next.findIndex(([x]) => x > point[0]);
+            next.splice(after < 0 ? next.length - 1 : after, 0, point);
+            onChange(next);
+        }
+    };
+
+    const toSvg = ([x, y]: number[]) => [x * SIZE, (1 - y) * SIZE];
+
+    return (
+        <svg
+            ref={svg}
+            className="curve-editor"
+            width={SIZE}
+            height={SIZE}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => setDragging(-1)}
+            onDoubleClick={handleDoubleClick}
+        >
+            <line x1={0} y1={SIZE} x2={SIZE} y2={0} stroke="#555555" />
+            <polyline
+                points={curve
+                    .map(toSvg)
+                    .map(([x, y]) => `${x},${y}`)
+                    .join(' ')}
+                fill="none"
+                stroke="#ffffff"
+            />
+            {curve.map(toSvg).map(([x, y], i) => (
+                <circle
+                    key={i}
+                    cx={x}
+                    cy={y}
+                    r={POINT_RADIUS}
+                    fill={i === dragging ? '#ffffff' : '#2c2c2c'}
+                    stroke="#ffffff"
+                />
+            ))}
+        </svg>
+    );
+}
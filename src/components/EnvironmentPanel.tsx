@@ -0,0 +1,215 @@
+import * as React from 'react';
+import { useContext, useEffect, useState } from 'react';
+import {
+    Background,
+    BACKGROUNDS,
+    BACKGROUND_NAMES,
+    ENVIRONMENT_EXTENSIONS,
+} from '../environment';
+import { fromHex, toHex } from '../palettes';
+import { WindowContext } from './Widget';
+
+// picks what lights the 3D view and what's behind the model, HDRIs can also be dropped onto the view
+export default function EnvironmentPanel() {
+    const windowManager = useContext(WindowContext);
+    const environments = windowManager.environments;
+
+    const [showPanel, setShowPanel] = useState(false);
+    const [, setRevision] = useState(0);
+
+    useEffect(
+        () =>
+            environments.subscribe(() =>
+                setRevision((revision) => revision + 1)
+            ),
+        []
+    );
+
+    // shown even with the panel closed, the model is lit flat or by the last environment until another one works
+    const failure = `Couldn't light the view with ${
+        environments.environments[environments.current].name
+    }: ${environments.error}`;
+
+    // a failure is kept by the environments and shown below
+    const handleSelect = (index: number) => {
+        environments
+            .select(index)
+            .catch((e) => console.error("couldn't load the environment", e));
+    };
+
+    const slider = (
+        name: string,
+        title: string,
+        value: number,
+        min: number,
+        max: number,
+        step: number,
+        set: (value: number) => void
+    ) => (
+        <label title={title}>
+            {name}
+            <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                onChange={(e) => set(Number(e.target.value))}
+            />
+            <input
+                type="number"
+                step={step}
+                value={value}
+                onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (!isNaN(value)) set(value);
+                }}
+            />
+        </label>
+    );
+
+    const colorInput = (
+        name: string,
+        color: number[],
+        set: (color: number[]) => void
+    ) => (
+        <label>
+            {name}
+            <input
+                type="color"
+                value={`#${toHex(color)}`}
+                onChange={(e) => set(fromHex(e.target.value.slice(1)))}
+            />
+        </label>
+    );
+
+    const handleAdd = () => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = ENVIRONMENT_EXTENSIONS.map((e) => `.${e}`).join(',');
+        input.addEventListener('change', () => {
+            const file = input.files[0];
+            if (!file) return;
+
+            environments
+                .addFile(file.name, file, windowManager.inputSpace)
+                .catch((e) => alert(e.message));
+        });
+        input.click();
+    };
+
+    return (
+        <div className="brush-channels">
+            <button onClick={() => setShowPanel(!showPanel)}>
+                Environment
+            </button>
+            {!showPanel && environments.error && (
+                <div
+                    className="brush-channels-panel environment-error"
+                    onClick={() => setShowPanel(true)}
+                >
+                    {failure}
+                </div>
+            )}
+            {showPanel && (
+                <div className="brush-channels-panel export-panel">
+                    <label>
+                        Lighting
+                        <select
+                            value={environments.current}
+                            onChange={(e) =>
+                                handleSelect(Number(e.target.value))
+                            }
+                        >
+                            {environments.environments.map((environment, i) => (
+                                <option key={i} value={i}>
+                                    {environment.name}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <button
+                        onClick={handleAdd}
+                        title="An equirectangular .hdr or .exr, these can also be dropped onto the 3D view"
+                    >
+                        Add HDRI
+                    </button>
+                    {environments.error ? (
+                        <div className="environment-error">{failure}</div>
+                    ) : (
+                        !environments.lighting && <div>Loading…</div>
+                    )}
+
+                    {slider(
+                        'Rotation',
+                        'In degrees, shift and right drag in the 3D view to turn it there',
+                        environments.rotation,
+                        -180,
+                        180,
+                        1,
+                        (rotation) => environments.set({ rotation })
+                    )}
+                    {slider(
+                        'Intensity',
+                        'Scales the lighting and the background',
+                        environments.intensity,
+                        0,
+                        4,
+                        0.01,
+                        (intensity) =>
+                            environments.set({
+                                intensity: Math.max(intensity, 0),
+                            })
+                    )}
+
+                    <label title="The lighting stays the same whatever is drawn behind the model">
+                        Background
+                        <select
+                            value={environments.background}
+                            onChange={(e) =>
+                                environments.set({
+                                    background: Number(e.target.value),
+                                })
+                            }
+                        >
+                            {BACKGROUNDS.map((background) => (
+                                <option key={background} value={background}>
+                                    {BACKGROUND_NAMES[background]}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    {environments.background === Background.Environment &&
+                        slider(
+                            'Blur',
+                            'From sharp to as blurry as the roughest reflections',
+                            environments.blur,
+                            0,
+                            1,
+                            0.01,
+                            (blur) =>
+                                environments.set({
+                                    blur: Math.min(Math.max(blur, 0), 1),
+                                })
+                        )}
+                    {environments.background !== Background.Environment &&
+                        colorInput(
+                            environments.background === Background.Gradient
+                                ? 'Top'
+                                : 'Color',
+                            environments.backgroundColor,
+                            (backgroundColor) =>
+                                environments.set({ backgroundColor })
+                        )}
+                    {environments.background === Background.Gradient &&
+                        colorInput(
+                            'Bottom',
+                            environments.gradientColor,
+                            (gradientColor) =>
+                                environments.set({ gradientColor })
+                        )}
+                </div>
+            )}
+        </div>
+    );
+}
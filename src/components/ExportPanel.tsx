@@ -0,0 +1,104 @@
+import * as React from 'react';
+import { useContext, useState } from 'react';
+import { Channel, CHANNELS, CHANNEL_INFO } from '../channels';
+import {
+    exportSlate,
+    ExportFormat,
+    EXPORT_FORMATS,
+    EXPORT_FORMAT_INFO,
+    getExportFilename,
+} from '../exporter';
+import { download } from '../utils';
+import { WindowContext } from './Widget';
+
+// save the slate, or one of its layers, as an image file
+export default function ExportPanel() {
+    const windowManager = useContext(WindowContext);
+    const slate = windowManager.slate;
+
+    const [showPanel, setShowPanel] = useState(false);
+    const [format, setFormat] = useState(ExportFormat.PNG8);
+    const [channel, setChannel] = useState(Channel.Albedo);
+    const [layer, setLayer] = useState(-1);
+    const [dither, setDither] = useState(true);
+    const [exporting, setExporting] = useState(false);
+
+    const handleExport = async () => {
+        const options = {
+            format,
+            channel,
+            layer: layer < slate.layers.length ? layer : -1,
+            dither,
+        };
+
+        setExporting(true);
+        try {
+            const blob = await exportSlate(slate, options);
+            download(blob, getExportFilename(slate, options));
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    return (
+        <div className="brush-channels">
+            <button onClick={() => setShowPanel(!showPanel)}>Export</button>
+            {showPanel && (
+                <div className="brush-channels-panel export-panel">
+                    <label>
+                        Format
+                        <select
+                            value={format}
+                            onChange={(e) => setFormat(Number(e.target.value))}
+                        >
+                            {EXPORT_FORMATS.map((f) => (
+                                <option key={f} value={f}>
+                                    {EXPORT_FORMAT_INFO[f].name}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label>
+                        Source
+                        <select
+                            value={layer}
+                            onChange={(e) => setLayer(Number(e.target.value))}
+                        >
+                            <option value={-1}>All layers</option>
+                            {slate.layers.map((l, i) => (
+                                <option key={i} value={i}>
+                                    {l.name}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label>
+                        Channel
+                        <select
+                            value={channel}
+                            onChange={(e) => setChannel(Number(e.target.value))}
+                        >
+                            {CHANNELS.map((c) => (
+                                <option key={c} value={c}>
+                                    {CHANNEL_INFO[c].name}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label>
+                        <input
+                            type="checkbox"
+                            checked={dither}
+                            disabled={!EXPORT_FORMAT_INFO[format].integer}
+                            onChange={(e) => setDither(e.target.checked)}
+                        />
+                        Dither
+                    </label>
+                    <button onClick={handleExport} disabled={exporting}>
+                        {exporting ? 'Saving...' : 'Save'}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
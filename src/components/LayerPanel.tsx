@@ -0,0 +1,134 @@
+import * as React from 'react';
+import { useContext, useEffect, useState } from 'react';
+import { BlendMode, BLEND_MODE_NAMES } from '../layer';
+import { WindowContext } from './Widget';
+
+const BLEND_MODES = [
+    BlendMode.Normal,
+    BlendMode.Multiply,
+    BlendMode.Screen,
+    BlendMode.Overlay,
+    BlendMode.Add,
+];
+
+export default function LayerPanel() {
+    const windowManager = useContext(WindowContext);
+    const slate = windowManager.slate;
+
+    // the slate isn't React state, so re-render whenever it reports a change
+    const [, setRevision] = useState(0);
+    useEffect(
+        () => slate.subscribe(() => setRevision((revision) => revision + 1)),
+        [slate]
+    );
+
+    const update = (f: () => void) => {
+        f();
+        windowManager.drawOnNextFrame();
+    };
+
+    const active = slate.activeLayerIndex;
+
+    // draw the top layer first, like every other paint program
+    const rows = [];
+    for (let i = slate.layers.length - 1; i >= 0; i--) {
+        const layer = slate.layers[i];
+
+        rows.push(
+            <div
+                key={i}
+                className={`layer ${i === active ? 'active' : ''}`}
+                onClick={() => slate.setActiveLayer(i)}
+            >
+                <input
+                    type="checkbox"
+                    title="Visible"
+                    checked={layer.visible}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) =>
+                        update(() => slate.setLayerVisible(i, e.target.checked))
+                    }
+                />
+                <span
+                    className="layer-name"
+                    onDoubleClick={() => {
+                        const name = prompt('Layer name', layer.name);
+                        if (name) {
+                            slate.renameLayer(i, name);
+                        }
+                    }}
+                >
+                    {layer.name}
+                </span>
+                <select
+                    value={layer.blendMode}
+                    onChange={(e) =>
+                        update(() =>
+                            slate.setLayerBlendMode(i, Number(e.target.value))
+                        )
+                    }
+                >
+                    {BLEND_MODES.map((mode) => (
+                        <option key={mode} value={mode}>
+                            {BLEND_MODE_NAMES[mode]}
+                        </option>
+                    ))}
+                </select>
+                <input
+                    type="range"
+                    title="Opacity"
+                    min={0}
+                    max={100}
+                    value={Math.round(layer.opacity * 100)}
+                    onPointerDown={() => slate.checkpoint()}
+                    onKeyDown={() => slate.checkpoint()}
+                    onChange={(e) =>
+                        update(() =>
+                            slate.setLayerOpacity(
+                                i,
+                                Number(e.target.value) / 100,
+                                false
+                            )
+                        )
+                    }
+                />
+            </div>
+        );
+    }
+
+    return (
+        <div className="layer-panel">
+            <div className="layer-buttons">
+                <button onClick={() => update(() => slate.addLayer())}>
+                    New
+                </button>
+                <button
+                    onClick={() => update(() => slate.duplicateLayer(active))}
+                >
+                    Duplicate
+                </button>
+                <button onClick={() => update(() => slate.removeLayer(active))}>
+                    Delete
+                </button>
+                <button
+                    onClick={() =>
+                        update(() => slate.moveLayer(active, active + 1))
+                    }
+                >
+                    Up
+                </button>
+                <button
+                    onClick={() =>
+                        update(() => slate.moveLayer(active, active - 1))
+                    }
+                >
+                    Down
+                </button>
+                <button onClick={() => update(() => slate.mergeDown(active))}>
+                    Merge Down
+                </button>
+            </div>
+            {rows}
+        </div>
+    );
+}
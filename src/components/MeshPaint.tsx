@@ -1,16 +1,15 @@
-import { mat3, mat4, quat, vec3, vec4 } from 'gl-matrix';
+import { mat3, mat4, quat, vec2, vec3 } from 'gl-matrix';
 import * as React from 'react';
-import { useContext, useRef, useState } from 'react';
-import {
-    FAR,
-    FIELD_OF_VIEW,
-    NEAR,
-    ROTATE_SENSITIVITY,
-    SCROLL_SCALE,
-} from '../constants';
+import { useContext, useEffect, useRef, useState } from 'react';
+import type { StrokeSample } from '../brushEngine';
+import { FIELD_OF_VIEW, ROTATE_SENSITIVITY, SCROLL_SCALE } from '../constants';
+import { isPenEraser, strokeInputFromEvent } from '../dynamics';
+import { sampleColor } from '../eyedropper';
+import { createRaycastHit } from '../loader/meshData';
+import { Tool } from '../tools';
 import { normalizeWheelEvent } from '../utils';
 import { getProjection, getView } from '../widgets/meshDisplay';
-import Widget, { WindowContext } from './Widget';
+import Widget, { WidgetPointerEvent, WindowContext } from './Widget';
 
 const WORLD_UP = vec3.create();
 vec3.set(WORLD_UP, 0, 1, 0);
@@ -20,23 +19,48 @@ vec3.set(WORLD_FORWARD, 0, 0, 1);
 
 const CAMERA_PAN_SENSITIVITY = 0.003;
 
+const BINARY_LEFT_MOUSE_BUTTON = 0b1;
+
+const RIGHT_MOUSE_BUTTON = 2;
+
 export default function MeshPaint({}) {
-    const [scale, setScale] = useState(1);
+    const windowManager = useContext(WindowContext);
 
-    const [rotation, setRotation] = useState(quat.create());
+    // the camera lives on the window manager so it's saved with the project
+    const [scale, setScale] = useState(windowManager.meshView.scale);
+
+    const [rotation, setRotation] = useState(windowManager.meshView.rotation);
     const [rotating, setRotating] = useState(false);
     const [lastRotatePosition, setLastRotatePosition] = useState(vec3.create());
 
-    const [position, setPosition] = useState(vec3.create());
+    const [position, setPosition] = useState(windowManager.meshView.position);
     const [pan, setPan] = useState(false);
     const [lastPanPosition, setLastPanPosition] = useState(vec3.create());
 
+    // shift and right drag turns the environment around the model
+    const [turningEnvironment, setTurningEnvironment] = useState(false);
+    const [lastTurnX, setLastTurnX] = useState(0);
+
     const [paintPoint, setPaintPoint] = useState(null);
-    // console.log('paintPoint:', paintPoint);
+    const [painting, setPainting] = useState(false);
+    const [strokeStarted, setStrokeStarted] = useState(false);
+    const [offSurface, setOffSurface] = useState(false);
 
     const div = useRef(null);
 
-    const windowManager = useContext(WindowContext);
+    useEffect(() => {
+        windowManager.meshView = { position, rotation, scale };
+    }, [position, rotation, scale]);
+
+    // shortcuts can change the tool
+    const [, setRevision] = useState(0);
+    useEffect(
+        () =>
+            windowManager.subscribeTool(() =>
+                setRevision((revision) => revision + 1)
+            ),
+        []
+    );
 
     const handleWheel = (e: WheelEvent) => {
         let deltaY = normalizeWheelEvent(e);
@@ -87,6 +111,19 @@ export default function MeshPaint({}) {
         setLastRotatePosition(vec3.clone(rotatePosition));
     };
 
+    const handleTurnEnvironmentMove = (x: number) => {
+        const environments = windowManager.environments;
+        const degrees = ((x - lastTurnX) * ROTATE_SENSITIVITY * 180) / Math.PI;
+
+        // keep it between -180 and 180 like the slider
+        const rotation = environments.rotation + degrees;
+        environments.set({
+            rotation: rotation - 360 * Math.round(rotation / 360),
+        });
+
+        setLastTurnX(x);
+    };
+
     const handlePanStart = (panPosition: vec3) => {
         setPan(true);
         setLastPanPosition(vec3.clone(panPosition));
@@ -108,16 +145,114 @@ export default function MeshPaint({}) {
         setLastPanPosition(vec3.clone(panPosition));
     };
 
+    // get the ray from the camera through a point on the widget
+    const getCameraRay = (coords: vec3, origin: vec3, direction: vec3) => {
+        const widgetBounds = div.current.getBoundingClientRect();
+
+        const view = mat4.create();
+        const proj = mat4.create();
+        const invProjView = mat4.create();
+        getView(view, position, rotation, scale);
+        getProjection(proj, widgetBounds.width, widgetBounds.height);
+        mat4.mul(invProjView, proj, view);
+        mat4.invert(invProjView, invProjView);
+
+        const ndcX = ((coords[0] + 0.5) / widgetBounds.width) * 2 - 1;
+        const ndcY = -(((coords[1] + 0.5) / widgetBounds.height) * 2 - 1);
+
+        // unproject the ray's points on the near and far planes
+        const far = vec3.create();
+        vec3.set(origin, ndcX, ndcY, -1);
+        vec3.transformMat4(origin, origin, invProjView);
+        vec3.set(far, ndcX, ndcY, 1);
+        vec3.transformMat4(far, far, invProjView);
+
+        vec3.sub(direction, far, origin);
+        vec3.normalize(direction, direction);
+
+        return widgetBounds.height;
+    };
+
+    // find the point on the mesh under the cursor, null if there isn't one
+    const pickSurface = (coords: vec3) => {
+        const mesh = windowManager.mesh;
+        if (!mesh) return null;
+
+        const origin = vec3.create();
+        const direction = vec3.create();
+        const widgetHeight = getCameraRay(coords, origin, direction);
+
+        const hit = createRaycastHit();
+        if (!mesh.raycast(hit, origin, direction)) {
+            return null;
+        }
+
+        // size the brush so it covers as many screen pixels as it does in 2D
+        const pixelSize =
+            (2 * hit.distance * Math.tan(FIELD_OF_VIEW / 2)) / widgetHeight;
+
+        const normal = vec3.create();
+        mesh.data.getNormal(normal, hit.triangle, hit.barycentric);
+
+        const uv = vec2.create();
+        mesh.data.getUV(uv, hit.triangle, hit.barycentric);
+
+        return {
+            position: hit.point,
+            normal,
+            uv,
+            radius: windowManager.brushEngine.radius * pixelSize,
+        };
+    };
+
+    // set the brush color from the texel under a point on the surface
+    const pickColor = (surface: { uv: vec2 }) => {
+        const { slate } = windowManager;
+        const color = sampleColor(
+            slate,
+            Math.floor(surface.uv[0] * slate.width),
+            Math.floor((1 - surface.uv[1]) * slate.height),
+            windowManager.eyedropper
+        );
+        if (color) {
+            windowManager.brushEngine.color = color;
+        }
+    };
+
     const handlePointerDown = (e: React.PointerEvent) => {
         const coords = vec3.create();
         vec3.set(coords, e.clientX, e.clientY, 0);
 
-        if (e.button === 1 || (e.button === 0 && e.altKey)) {
+        if (e.button === RIGHT_MOUSE_BUTTON && e.shiftKey) {
+            setTurningEnvironment(true);
+            setLastTurnX(e.clientX);
+        } else if (e.button === 1 || (e.button === 0 && e.altKey)) {
             if (e.shiftKey) {
                 handlePanStart(coords);
             } else {
                 handleRotateStart(coords);
             }
+        } else if (e.button === 0 && windowManager.tool === Tool.Eyedropper) {
+            const surface = pickSurface(coords);
+            if (surface) {
+                pickColor(surface);
+            }
+        } else if (e.button === 0 || isPenEraser(e)) {
+            const surface = pickSurface(coords);
+            setPaintPoint(surface);
+            setPainting(true);
+            setStrokeStarted(!!surface);
+            setOffSurface(!surface);
+
+            if (surface) {
+                windowManager.brushEngine.startSurfaceStroke(
+                    windowManager.mesh.data,
+                    surface.position,
+                    strokeInputFromEvent(e),
+                    surface.radius,
+                    isPenEraser(e)
+                );
+            }
         }
     };
 
@@ -125,79 +260,125 @@ export default function MeshPaint({}) {
         const coords = vec3.create();
         vec3.set(coords, e.clientX, e.clientY, 0);
 
-        if (rotating) {
+        if (turningEnvironment) {
+            setTurningEnvironment(false);
+        } else if (rotating) {
             handleRotateStop();
         } else if (pan) {
             handlePanStop();
+        } else if (painting && (e.button === 0 || isPenEraser(e))) {
+            const surface = pickSurface(coords);
+            if (surface && strokeStarted && !offSurface) {
+                windowManager.brushEngine.finishStroke(
+                    surface.position,
+                    strokeInputFromEvent(e)
+                );
+            }
+            setPainting(false);
         }
     };
 
-    const handlePointerMove = (e: React.PointerEvent) => {
+    const handlePointerMove = (e: WidgetPointerEvent) => {
         const coords = vec3.create();
         vec3.set(coords, e.clientX, e.clientY, 0);
 
-        if (rotating) {
+        if (turningEnvironment) {
+            handleTurnEnvironmentMove(e.clientX);
+            return;
+        } else if (rotating) {
             handleRotateMove(coords);
+            return;
         } else if (pan) {
             handlePanMove(coords);
+            return;
         }
 
-        // get the ray from the camera for the current pixel
-        const widgetBounds = div.current.getBoundingClientRect();
+        const surface = pickSurface(coords);
+        setPaintPoint(surface);
 
-        const view = mat4.create();
-        const proj = mat4.create();
-        const invProjView = mat4.create();
-        getView(view, position, rotation, scale);
-        getProjection(proj, widgetBounds.width, widgetBounds.height);
-        mat4.mul(invProjView, proj, view);
-        mat4.invert(invProjView, invProjView);
-
-        const ndcX = ((coords[0] + 0.5) / widgetBounds.width) * 2 - 1;
-        const ndcY = -(((coords[1] + 0.5) / widgetBounds.height) * 2 - 1);
+        if (windowManager.tool === Tool.Eyedropper) {
+            if (surface && e.buttons & BINARY_LEFT_MOUSE_BUTTON) {
+                pickColor(surface);
+            }
+            return;
+        }
 
-        const camOrigin = vec3.create();
-        vec3.set(camOrigin, ndcX, ndcY, -1);
-        vec3.scale(camOrigin, camOrigin, NEAR);
-        vec3.transformMat4(camOrigin, camOrigin, invProjView);
-
-        const rayBase = vec4.create();
-        vec4.set(
-            rayBase,
-            ndcX * (FAR - NEAR),
-            ndcY * (FAR - NEAR),
-            FAR + NEAR,
-            FAR - NEAR
-        );
-        vec4.transformMat4(rayBase, rayBase, invProjView);
-
-        const camDirection = vec3.create();
-        vec3.set(camDirection, rayBase[0], rayBase[1], rayBase[2]);
-        vec3.normalize(camDirection, camDirection);
-        // console.log(camDirection);
-
-        if (windowManager.mesh) {
-            const point = vec3.create();
-            // if (windowManager.mesh.raycast(point, camOrigin, camDirection)) {
-            //     // console.log('raycast:', camOrigin, camDirection, point);
-            //     setPaintPoint(point);
-            // } else {
-            //     // setPaintPoint(null);
-            // }
+        const pressed = e.buttons & BINARY_LEFT_MOUSE_BUTTON || isPenEraser(e);
+        if (!painting || !pressed) return;
+
+        const brushEngine = windowManager.brushEngine;
+        if (!surface) {
+            setOffSurface(true);
+        } else if (!strokeStarted) {
+            brushEngine.startSurfaceStroke(
+                windowManager.mesh.data,
+                surface.position,
+                strokeInputFromEvent(e),
+                surface.radius,
+                isPenEraser(e)
+            );
+            setStrokeStarted(true);
+            setOffSurface(false);
+        } else if (offSurface) {
+            // don't connect the stroke across whatever the cursor passed over
+            brushEngine.jumpTo(surface.position, strokeInputFromEvent(e));
+            setOffSurface(false);
+        } else {
+            // the browser may have batched several pen samples into this event,
+            // the last of which is the one already picked
+            const samples: StrokeSample[] = [];
+            for (const sample of e.coalesced.slice(0, -1)) {
+                const sampleSurface = pickSurface(
+                    vec3.fromValues(sample.clientX, sample.clientY, 0)
+                );
+                if (sampleSurface) {
+                    samples.push({
+                        point: sampleSurface.position,
+                        input: strokeInputFromEvent(sample),
+                    });
+                }
+            }
+            samples.push({
+                point: surface.position,
+                input: strokeInputFromEvent(e),
+            });
+            brushEngine.continueStroke(samples);
         }
     };
 
     const handlePointerLeave = (e: React.PointerEvent) => {
         handleRotateStop();
         handlePanStop();
+        setTurningEnvironment(false);
+        setPaintPoint(null);
+        setPainting(false);
+    };
+
+    // dropping an HDRI onto the view lights the model with it
+    const handleDragOver = (e: React.DragEvent) => {
+        e.preventDefault();
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+
+        const file = e.dataTransfer.files[0];
+        if (!file) return;
+
+        windowManager.environments
+            .addFile(file.name, file, windowManager.inputSpace)
+            .catch((error) => alert(error.message));
     };
 
     let cursor = 'auto';
 
-    if (rotating) {
+    const eyedropper = windowManager.tool === Tool.Eyedropper;
+    if (rotating || turningEnvironment) {
         cursor = 'move';
     } else if (pan) {
         cursor = 'grabbing';
+    } else if (eyedropper) {
+        cursor = 'crosshair';
     }
 
     return (
@@ -208,7 +389,7 @@ export default function MeshPaint({}) {
                     position,
                     rotation,
                     scale,
-                    brushCursor: paintPoint,
+                    brushCursor: eyedropper ? null : paintPoint,
                 }}
                 style={{ height: '100%', cursor }}
                 onWheel={handleWheel}
@@ -216,6 +397,12 @@ export default function MeshPaint({}) {
                 onPointerUp={handlePointerUp}
                 onPointerMove={handlePointerMove}
                 onPointerLeave={handlePointerLeave}
+                onContextMenu={(e: React.MouseEvent) => {
+                    // the menu would get in the way of turning the environment
+                    if (e.shiftKey) e.preventDefault();
+                }}
+                onDragOver={handleDragOver}
+                onDrop={handleDrop}
             ></Widget>
         </div>
     );
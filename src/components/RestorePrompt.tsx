@@ -0,0 +1,67 @@
+import * as React from 'react';
+import { useContext, useEffect, useState } from 'react';
+import type { AutosavedSession } from '../project/autosave';
+import { WindowContext } from './Widget';
+
+// offer to bring back a session that was never saved, then start autosaving
+export default function RestorePrompt({
+    onRestore,
+}: {
+    onRestore: () => void;
+}) {
+    const windowManager = useContext(WindowContext);
+    const autosave = windowManager.autosave;
+
+    const [session, setSession] = useState<AutosavedSession>(null);
+    const [restoring, setRestoring] = useState(false);
+    const [error, setError] = useState<string>(null);
+
+    useEffect(() => {
+        autosave.findSession().then((found) => {
+            if (found) {
+                setSession(found);
+            } else {
+                autosave.start(false);
+            }
+        });
+    }, []);
+
+    if (!session) return null;
+
+    const handleRestore = async () => {
+        setRestoring(true);
+        try {
+            const project = await autosave.restore(session);
+            windowManager.loadProject(project);
+            autosave.start(true);
+            setSession(null);
+            onRestore();
+        } catch (e) {
+            // don't start autosaving over a session we couldn't read, it can still be discarded
+            console.error(e);
+            setError(e.message);
+            setRestoring(false);
+        }
+    };
+
+    const handleDiscard = () => {
+        autosave.start(false);
+        setSession(null);
+    };
+
+    return (
+        <div className="restore-prompt">
+            {error
+                ? `Unable to restore the session: ${error}`
+                : `Restore the unsaved session from ${new Date(
+                      session.time
+                  ).toLocaleString()}?`}
+            <button onClick={handleRestore} disabled={restoring || !!error}>
+                {restoring ? 'Restoring...' : 'Restore'}
+            </button>
+            <button onClick={handleDiscard} disabled={restoring}>
+                Discard
+            </button>
+        </div>
+    );
+}
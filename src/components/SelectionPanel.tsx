@@ -0,0 +1,201 @@
+import * as React from 'react';
+import { useContext, useEffect, useState } from 'react';
+import {
+    EyedropperSource,
+    EYEDROPPER_SIZES,
+    EYEDROPPER_SOURCE_NAMES,
+} from '../eyedropper';
+import { SelectionMode, SELECTION_MODE_NAMES } from '../selection';
+import { Tool, TOOLS, TOOL_NAMES } from '../tools';
+import { WindowContext } from './Widget';
+
+const EYEDROPPER_SOURCES = [
+    EyedropperSource.ActiveLayer,
+    EyedropperSource.AllLayers,
+];
+
+const SELECTION_MODES = [
+    SelectionMode.Replace,
+    SelectionMode.Add,
+    SelectionMode.Subtract,
+    SelectionMode.Intersect,
+];
+
+// pick the texture view's tool, and edit the selection and eyedropper
+export default function SelectionPanel() {
+    const windowManager = useContext(WindowContext);
+    const selection = windowManager.slate.selection;
+
+    const [showPanel, setShowPanel] = useState(false);
+    const [featherRadius, setFeatherRadius] = useState(4);
+    const [, setRevision] = useState(0);
+
+    // the tool and selection settings aren't React state, so re-render by hand after changing them
+    const update = (f: () => void) => {
+        f();
+        setRevision((revision) => revision + 1);
+        windowManager.drawOnNextFrame();
+    };
+
+    // shortcuts can change the tool too
+    useEffect(
+        () =>
+            windowManager.subscribeTool(() =>
+                setRevision((revision) => revision + 1)
+            ),
+        []
+    );
+
+    const isWand = windowManager.tool === Tool.MagicWand;
+    const isEyedropper = windowManager.tool === Tool.Eyedropper;
+    const eyedropper = windowManager.eyedropper;
+
+    return (
+        <div className="brush-channels">
+            <button onClick={() => setShowPanel(!showPanel)}>
+                {TOOL_NAMES[windowManager.tool]}
+            </button>
+            {showPanel && (
+                <div className="brush-channels-panel export-panel">
+                    <label>
+                        Tool
+                        <select
+                            value={windowManager.tool}
+                            onChange={(e) =>
+                                update(() =>
+                                    windowManager.setTool(
+                                        Number(e.target.value)
+                                    )
+                                )
+                            }
+                        >
+                            {TOOLS.map((tool) => (
+                                <option key={tool} value={tool}>
+                                    {TOOL_NAMES[tool]}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label title="Shift adds to the selection, Ctrl subtracts and both intersect">
+                        Mode
+                        <select
+                            value={selection.mode}
+                            onChange={(e) =>
+                                update(() => {
+                                    selection.mode = Number(e.target.value);
+                                })
+                            }
+                        >
+                            {SELECTION_MODES.map((mode) => (
+                                <option key={mode} value={mode}>
+                                    {SELECTION_MODE_NAMES[mode]}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label>
+                        Tolerance
+                        <input
+                            type="number"
+                            min={0}
+                            max={255}
+                            value={selection.tolerance}
+                            disabled={!isWand}
+                            onChange={(e) =>
+                                update(() => {
+                                    selection.tolerance = Number(
+                                        e.target.value
+                                    );
+                                })
+                            }
+                        />
+                    </label>
+                    <label>
+                        <input
+                            type="checkbox"
+                            checked={selection.contiguous}
+                            disabled={!isWand}
+                            onChange={(e) =>
+                                update(() => {
+                                    selection.contiguous = e.target.checked;
+                                })
+                            }
+                        />
+                        Contiguous
+                    </label>
+                    <label>
+                        Sample
+                        <select
+                            value={eyedropper.size}
+                            disabled={!isEyedropper}
+                            onChange={(e) =>
+                                update(() => {
+                                    eyedropper.size = Number(e.target.value);
+                                })
+                            }
+                        >
+                            {EYEDROPPER_SIZES.map((size) => (
+                                <option key={size} value={size}>
+                                    {size === 1 ? '1px' : `${size}×${size}`}
+                                </option>
+                            ))}
+                        </select>
+                        <select
+                            value={eyedropper.source}
+                            disabled={!isEyedropper}
+                            onChange={(e) =>
+                                update(() => {
+                                    eyedropper.source = Number(e.target.value);
+                                })
+                            }
+                        >
+                            {EYEDROPPER_SOURCES.map((source) => (
+                                <option key={source} value={source}>
+                                    {EYEDROPPER_SOURCE_NAMES[source]}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <label>
+                        <button
+                            disabled={!selection.active}
+                            onClick={() =>
+                                update(() => selection.feather(featherRadius))
+                            }
+                        >
+                            Feather
+                        </button>
+                        <input
+                            type="number"
+                            min={0}
+                            value={featherRadius}
+                            onChange={(e) =>
+                                setFeatherRadius(Number(e.target.value))
+                            }
+                        />
+                        px
+                    </label>
+                    <div className="layer-buttons">
+                        <button
+                            onClick={() => update(() => selection.selectAll())}
+                        >
+                            Select all
+                        </button>
+                        <button
+                            disabled={!selection.active}
+                            onClick={() => update(() => selection.invert())}
+                        >
+                            Invert
+                        </button>
+                        <button
+                            disabled={!selection.active}
+                            onClick={() => update(() => selection.deselect())}
+                        >
+                            Deselect
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
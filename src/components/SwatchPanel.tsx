@@ -0,0 +1,196 @@
+import { vec3 } from 'gl-matrix';
+import * as React from 'react';
+import { useContext, useEffect, useState } from 'react';
+import {
+    PaletteFormat,
+    PALETTE_EXTENSIONS,
+    PALETTE_FORMATS,
+    PALETTE_FORMAT_NAMES,
+    parsePalette,
+    serializePalette,
+    toHex,
+} from '../palettes';
+import { download } from '../utils';
+import { WindowContext } from './Widget';
+
+const SwatchButton = ({
+    color,
+    title,
+    onClick,
+    onContextMenu,
+}: {
+    color: number[];
+    title: string;
+    onClick: () => void;
+    onContextMenu?: (e: React.MouseEvent) => void;
+}) => (
+    <button
+        className="swatch"
+        title={title}
+        style={{ backgroundColor: `#${toHex(color)}` }}
+        onClick={onClick}
+        onContextMenu={onContextMenu}
+    />
+);
+
+// recent colors and palettes to paint with
+export default function SwatchPanel() {
+    const windowManager = useContext(WindowContext);
+    const { brushEngine, swatches } = windowManager;
+
+    const [showPanel, setShowPanel] = useState(false);
+    const [paletteIndex, setPaletteIndex] = useState(0);
+    const [format, setFormat] = useState(PaletteFormat.Gpl);
+    const [, setRevision] = useState(0);
+
+    // painting adds recent colors while the panel is open
+    useEffect(
+        () => swatches.subscribe(() => setRevision((revision) => revision + 1)),
+        []
+    );
+
+    const palette = swatches.palettes[paletteIndex];
+
+    const paintWith = (color: number[]) => {
+        const [r, g, b] = color;
+        brushEngine.color = vec3.fromValues(r, g, b);
+    };
+
+    const handleNewPalette = () => {
+        const name = prompt('Palette name');
+        if (name) {
+            swatches.addPalettes([{ name, swatches: [] }]);
+            setPaletteIndex(
+                swatches.palettes.findIndex((p) => p.name === name)
+            );
+        }
+    };
+
+    const handleDeletePalette = () => {
+        swatches.removePalette(paletteIndex);
+        setPaletteIndex(Math.max(paletteIndex - 1, 0));
+    };
+
+    const handleAddSwatch = () => {
+        const color = Array.from(brushEngine.color);
+        swatches.addSwatch(paletteIndex, { name: `#${toHex(color)}`, color });
+    };
+
+    const handleImport = () => {
+        const input = document.createElement('input');
+        input.type = 'file';
+        input.accept = '.gpl,.ase,.hex,.txt';
+        input.addEventListener('change', async () => {
+            const file = input.files[0];
+            if (!file) return;
+
+            try {
+                const imported = parsePalette(
+                    file.name,
+                    await file.arrayBuffer()
+                );
+                swatches.addPalettes([imported]);
+                setPaletteIndex(swatches.palettes.indexOf(imported));
+            } catch (e) {
+                alert(e.message);
+            }
+        });
+        input.click();
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([serializePalette(palette, format)]);
+        download(blob, `${palette.name}.${PALETTE_EXTENSIONS[format]}`);
+    };
+
+    return (
+        <div className="brush-channels">
+            <button onClick={() => setShowPanel(!showPanel)}>Swatches</button>
+            {showPanel && (
+                <div className="brush-channels-panel">
+                    <label>Recent</label>
+                    <div className="swatches">
+                        {swatches.recent.map((color, i) => (
+                            <SwatchButton
+                                key={i}
+                                color={color}
+                                title={`#${toHex(color)}`}
+                                onClick={() => paintWith(color)}
+                            />
+                        ))}
+                    </div>
+
+                    <div className="brush-channel">
+                        <label>Palette</label>
+                        <select
+                            value={paletteIndex}
+                            onChange={(e) =>
+                                setPaletteIndex(Number(e.target.value))
+                            }
+                        >
+                            {swatches.palettes.map((p, i) => (
+                                <option key={i} value={i}>
+                                    {p.name}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="layer-buttons">
+                        <button onClick={handleNewPalette}>New</button>
+                        <button
+                            disabled={!palette}
+                            onClick={handleDeletePalette}
+                        >
+                            Delete
+                        </button>
+                        <button onClick={handleImport}>Import</button>
+                    </div>
+
+                    {palette && (
+                        <>
+                            <div className="swatches">
+                                {palette.swatches.map((swatch, i) => (
+                                    <SwatchButton
+                                        key={i}
+                                        color={swatch.color}
+                                        title={`${swatch.name}, right click to remove`}
+                                        onClick={() => paintWith(swatch.color)}
+                                        onContextMenu={(e) => {
+                                            e.preventDefault();
+                                            swatches.removeSwatch(
+                                                paletteIndex,
+                                                i
+                                            );
+                                        }}
+                                    />
+                                ))}
+                                <button
+                                    className="swatch"
+                                    title="Add the brush color"
+                                    onClick={handleAddSwatch}
+                                >
+                                    +
+                                </button>
+                            </div>
+                            <div className="layer-buttons">
+                                <select
+                                    value={format}
+                                    onChange={(e) =>
+                                        setFormat(Number(e.target.value))
+                                    }
+                                >
+                                    {PALETTE_FORMATS.map((f) => (
+                                        <option key={f} value={f}>
+                                            {PALETTE_FORMAT_NAMES[f]}
+                                        </option>
+                                    ))}
+                                </select>
+                                <button onClick={handleExport}>Export</button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
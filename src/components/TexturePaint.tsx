@@ -1,15 +1,34 @@
-import { mat4, vec3 } from 'gl-matrix';
+import { mat4, vec2, vec3 } from 'gl-matrix';
 import * as React from 'react';
-import { useContext, useRef, useState } from 'react';
+import { useContext, useEffect, useRef, useState } from 'react';
+import { Channel } from '../channels';
 import { SCROLL_SCALE } from '../constants';
+import {
+    defaultStrokeInput,
+    isPenEraser,
+    StrokeInput,
+    strokeInputFromEvent,
+} from '../dynamics';
+import { sampleColor } from '../eyedropper';
+import {
+    ellipsePolygon,
+    magicWand,
+    rasterizePolygon,
+    rectanglePolygon,
+    SelectionMode,
+} from '../selection';
+import { Tool } from '../tools';
 import { normalizeWheelEvent } from '../utils';
 import { getModelViewMatrix } from '../widgets/textureDisplay';
-import Widget, { WindowContext } from './Widget';
+import Widget, { WidgetPointerEvent, WindowContext } from './Widget';
 
 const BINARY_LEFT_MOUSE_BUTTON = 0b1;
 const BINARY_MIDDLE_MOUSE_BUTTON = 0b10;
 const BINARY_RIGHT_MOUSE_BUTTON = 0b100;
 
+// clicking this close to the first point of a polygon closes it (in screen pixels)
+const POLYGON_CLOSE_DISTANCE = 8;
+
 export default function TexturePaint() {
     const windowManager = useContext(WindowContext);
 
@@ -19,10 +38,20 @@ export default function TexturePaint() {
     const [lastPanPosition, setLastPanPosition] = useState(vec3.create());
 
     const [cursorPosition, setCursorPosition] = useState(vec3.create());
-    const [pressure, setPressure] = useState(1.0);
+    const [strokeInput, setStrokeInput] = useState<StrokeInput>(
+        defaultStrokeInput()
+    );
 
     const [uv, setUV] = useState(false);
 
+    // predicted pointer positions preview the stroke ahead of the real samples, in screen coordinates
+    const [predict, setPredict] = useState(false);
+    const [prediction, setPrediction] = useState<vec3[]>(null);
+
+    // the selection shape being drawn, in image coordinates
+    const [selectionPoints, setSelectionPoints] = useState<vec2[]>(null);
+    const [selectionMode, setSelectionMode] = useState(SelectionMode.Replace);
+
     const div = useRef(null);
 
     const uiToImageCoordinates = (uiCoord: vec3) => {
@@ -49,6 +78,170 @@ export default function TexturePaint() {
         return imageCoord;
     };
 
+    const imageToUiCoordinates = (imageCoord: vec2) => {
+        const widgetBounds = div.current.getBoundingClientRect();
+
+        const modelViewMatrix = getModelViewMatrix(
+            windowManager.slate,
+            widgetBounds.width,
+            widgetBounds.height,
+            scale,
+            position
+        );
+
+        const uiCoord = vec3.fromValues(
+            imageCoord[0] / windowManager.slate.width,
+            imageCoord[1] / windowManager.slate.height,
+            0
+        );
+        vec3.transformMat4(uiCoord, uiCoord, modelViewMatrix);
+
+        return uiCoord;
+    };
+
+    // shortcuts can change the tool
+    const [, setRevision] = useState(0);
+    useEffect(
+        () =>
+            windowManager.subscribeTool(() =>
+                setRevision((revision) => revision + 1)
+            ),
+        []
+    );
+
+    // cancel a polygon with escape
+    useEffect(() => {
+        if (!selectionPoints) return;
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                setSelectionPoints(null);
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [selectionPoints]);
+
+    // shift adds to the selection, ctrl subtracts, and both intersect
+    const getSelectionMode = (e: React.PointerEvent) => {
+        if (e.shiftKey && e.ctrlKey) return SelectionMode.Intersect;
+        if (e.shiftKey) return SelectionMode.Add;
+        if (e.ctrlKey) return SelectionMode.Subtract;
+        return windowManager.slate.selection.mode;
+    };
+
+    const finishSelection = (points: vec2[]) => {
+        const { slate, tool } = windowManager;
+
+        let polygon = points;
+        if (tool === Tool.Rectangle) {
+            polygon = rectanglePolygon(points[0], points[1]);
+        } else if (tool === Tool.Ellipse) {
+            polygon = ellipsePolygon(points[0], points[1]);
+        }
+
+        slate.selection.apply(
+            rasterizePolygon(polygon, slate.width, slate.height),
+            selectionMode
+        );
+        setSelectionPoints(null);
+        windowManager.drawOnNextFrame();
+    };
+
+    const handleSelectStart = (e: React.PointerEvent, imageCoords: vec3) => {
+        const { slate, tool } = windowManager;
+        const point = vec2.fromValues(imageCoords[0], imageCoords[1]);
+
+        switch (tool) {
+            case Tool.Rectangle:
+            case Tool.Ellipse:
+            case Tool.Lasso:
+                setSelectionMode(getSelectionMode(e));
+                setSelectionPoints([point, vec2.clone(point)]);
+                break;
+
+            case Tool.Polygon: {
+                // the last point follows the cursor until the next click
+                if (!selectionPoints) {
+                    setSelectionMode(getSelectionMode(e));
+                    setSelectionPoints([point, vec2.clone(point)]);
+                    break;
+                }
+
+                const first = imageToUiCoordinates(selectionPoints[0]);
+                const distance = Math.hypot(
+                    first[0] - e.clientX,
+                    first[1] - e.clientY
+                );
+                if (
+                    selectionPoints.length > 3 &&
+                    distance < POLYGON_CLOSE_DISTANCE
+                ) {
+                    finishSelection(selectionPoints.slice(0, -1));
+                } else {
+                    setSelectionPoints([...selectionPoints, point]);
+                }
+                break;
+            }
+
+            case Tool.MagicWand:
+                slate.selection.apply(
+                    magicWand(
+                        slate.composite(Channel.Albedo),
+                        slate.workingSpace,
+                        slate.width,
+                        slate.height,
+                        point[0],
+                        point[1],
+                        slate.selection.tolerance,
+                        slate.selection.contiguous
+                    ),
+                    getSelectionMode(e)
+                );
+                windowManager.drawOnNextFrame();
+                break;
+        }
+    };
+
+    const handleSelectMove = (imageCoords: vec3) => {
+        if (!selectionPoints) return;
+
+        const point = vec2.fromValues(imageCoords[0], imageCoords[1]);
+        if (windowManager.tool === Tool.Lasso) {
+            setSelectionPoints([...selectionPoints, point]);
+        } else {
+            setSelectionPoints([...selectionPoints.slice(0, -1), point]);
+        }
+    };
+
+    const handleSelectEnd = () => {
+        if (selectionPoints && windowManager.tool !== Tool.Polygon) {
+            finishSelection(selectionPoints);
+        }
+    };
+
+    const handleDoubleClick = () => {
+        // the double click's two clicks both added a point where it ended
+        if (windowManager.tool === Tool.Polygon && selectionPoints) {
+            finishSelection(selectionPoints.slice(0, -2));
+        }
+    };
+
+    // set the brush color from the texel under `uiCoord`
+    const pickColor = (uiCoord: vec3) => {
+        const imageCoords = uiToImageCoordinates(uiCoord);
+        const color = sampleColor(
+            windowManager.slate,
+            Math.floor(imageCoords[0]),
+            Math.floor(imageCoords[1]),
+            windowManager.eyedropper
+        );
+        if (color) {
+            windowManager.brushEngine.color = color;
+        }
+    };
+
     const handleWheel = (e: WheelEvent) => {
         let deltaY = normalizeWheelEvent(e);
 
@@ -82,12 +275,20 @@ export default function TexturePaint() {
         const coords = vec3.create();
         vec3.set(coords, e.clientX, e.clientY, 0);
 
+        // the back of a pen erases with the brush, but doesn't select
+        const eraser = isPenEraser(e) && windowManager.tool === Tool.Brush;
+
         if (e.button === 1 || (e.button === 0 && e.altKey)) {
             handlePanStart(coords);
-        } else if (e.button === 0) {
+        } else if (e.button === 0 && windowManager.tool === Tool.Eyedropper) {
+            pickColor(coords);
+        } else if (e.button === 0 && windowManager.tool !== Tool.Brush) {
+            handleSelectStart(e, uiToImageCoordinates(coords));
+        } else if (e.button === 0 || eraser) {
             const imageCoords = uiToImageCoordinates(coords);
-            windowManager.brushEngine.startStroke(imageCoords, e.pressure);
-            setPressure(e.pressure);
+            const input = strokeInputFromEvent(e);
+            windowManager.brushEngine.startStroke(imageCoords, input, eraser);
+            setStrokeInput(input);
         }
     };
 
@@ -97,14 +298,23 @@ export default function TexturePaint() {
 
         if (pan) {
             handlePanStop();
-        } else if (e.button === 0) {
+        } else if (e.button === 0 && windowManager.tool !== Tool.Brush) {
+            handleSelectEnd();
+        } else if (
+            e.button === 0 ||
+            (isPenEraser(e) && windowManager.tool === Tool.Brush)
+        ) {
             const imageCoords = uiToImageCoordinates(coords);
-            windowManager.brushEngine.finishStroke(imageCoords, e.pressure);
-            setPressure(1);
+            windowManager.brushEngine.finishStroke(
+                imageCoords,
+                strokeInputFromEvent(e)
+            );
+            setStrokeInput(defaultStrokeInput());
+            setPrediction(null);
         }
     };
 
-    const handlePointerMove = (e: React.PointerEvent) => {
+    const handlePointerMove = (e: WidgetPointerEvent) => {
         const coords = vec3.create();
         vec3.set(coords, e.clientX, e.clientY, 0);
 
@@ -112,20 +322,48 @@ export default function TexturePaint() {
 
         if (pan) {
             handlePanMove(coords);
-        } else if (e.buttons & BINARY_LEFT_MOUSE_BUTTON) {
-            const imageCoords = uiToImageCoordinates(coords);
-            windowManager.brushEngine.continueStroke(imageCoords, e.pressure);
-            setPressure(e.pressure);
+        } else if (windowManager.tool === Tool.Eyedropper) {
+            if (e.buttons & BINARY_LEFT_MOUSE_BUTTON) {
+                pickColor(coords);
+            }
+        } else if (windowManager.tool !== Tool.Brush) {
+            handleSelectMove(uiToImageCoordinates(coords));
+        } else if (e.buttons & BINARY_LEFT_MOUSE_BUTTON || isPenEraser(e)) {
+            // the browser may have batched several pen samples into this event
+            const samples = e.coalesced.map((sample) => ({
+                point: uiToImageCoordinates(
+                    vec3.fromValues(sample.clientX, sample.clientY, 0)
+                ),
+                input: strokeInputFromEvent(sample),
+            }));
+            windowManager.brushEngine.continueStroke(samples);
+            setStrokeInput(samples[samples.length - 1].input);
+
+            // replaced by the next event's real samples
+            setPrediction(
+                predict && e.predicted.length > 0
+                    ? [
+                          coords,
+                          ...e.predicted.map((p) =>
+                              vec3.fromValues(p.clientX, p.clientY, 0)
+                          ),
+                      ]
+                    : null
+            );
         }
     };
 
     const handlePointerLeave = (e: React.PointerEvent) => {
         handlePanStop();
+        windowManager.brushEngine.commitStroke();
+        setPrediction(null);
         const p = vec3.create();
         vec3.set(p, -100, -100, 0);
         setCursorPosition(p);
     };
 
+    const brushTool = windowManager.tool === Tool.Brush;
+
     return (
         <div style={{ flexGrow: 1 }} ref={div}>
             <Widget
@@ -134,7 +372,7 @@ export default function TexturePaint() {
                 style={{
                     height: '100%',
                     position: 'relative',
-                    cursor: pan ? 'grabbing' : 'none',
+                    cursor: pan ? 'grabbing' : brushTool ? 'none' : 'crosshair',
                 }}
                 zindex={-1}
                 onWheel={handleWheel}
@@ -142,6 +380,7 @@ export default function TexturePaint() {
                 onPointerUp={handlePointerUp}
                 onPointerMove={handlePointerMove}
                 onPointerLeave={handlePointerLeave}
+                onDoubleClick={handleDoubleClick}
             >
                 <div>
                     <input
@@ -151,16 +390,44 @@ export default function TexturePaint() {
                         onChange={(e) => setUV(e.target.checked)}
                     />
                     <label htmlFor="uv">Show UV Map</label>
+                    <input
+                        type="checkbox"
+                        id="predict"
+                        checked={predict}
+                        onChange={(e) => setPredict(e.target.checked)}
+                    />
+                    <label htmlFor="predict">Predict Strokes</label>
                 </div>
-                <Cursor
-                    position={cursorPosition}
-                    radius={
-                        windowManager.brushEngine.getRadiusForStroke(
-                            windowManager.brushEngine.radius,
-                            { pressure }
-                        ) * scale
-                    }
-                />
+                {brushTool && (
+                    <Cursor
+                        position={cursorPosition}
+                        radius={
+                            windowManager.brushEngine.getRadiusForStroke(
+                                windowManager.brushEngine.radius,
+                                strokeInput
+                            ) * scale
+                        }
+                    />
+                )}
+                {brushTool && prediction && (
+                    <StrokePrediction
+                        points={prediction}
+                        radius={
+                            windowManager.brushEngine.getRadiusForStroke(
+                                windowManager.brushEngine.radius,
+                                strokeInput
+                            ) * scale
+                        }
+                        color={windowManager.brushEngine.color}
+                        opacity={windowManager.brushEngine.opacity}
+                    />
+                )}
+                {selectionPoints && (
+                    <SelectionOutline
+                        points={selectionPoints.map(imageToUiCoordinates)}
+                        tool={windowManager.tool}
+                    />
+                )}
                 {/* TODO: make this come from UI state rather than the brush engine (not watched by React) */}
             </Widget>
         </div>
@@ -183,3 +450,88 @@ const Cursor = ({ position, radius }) => {
         ></div>
     );
 };
+
+// rough preview of where the stroke is heading, `points` are in screen coordinates
+const StrokePrediction = ({
+    points,
+    radius,
+    color,
+    opacity,
+}: {
+    points: vec3[];
+    radius: number;
+    color: vec3;
+    opacity: number;
+}) => {
+    const rgb = vec3.create();
+    vec3.mul(rgb, color, [255, 255, 255]);
+    vec3.round(rgb, rgb);
+
+    return (
+        <svg
+            style={{
+                position: 'absolute',
+                left: 0,
+                top: 0,
+                width: '100%',
+                height: '100%',
+                overflow: 'visible',
+                pointerEvents: 'none',
+            }}
+            fill="none"
+            stroke={`rgb(${rgb})`}
+            strokeOpacity={opacity}
+            strokeWidth={radius * 2}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+        >
+            <polyline points={points.map((p) => `${p[0]},${p[1]}`).join(' ')} />
+        </svg>
+    );
+};
+
+// preview of the selection shape being drawn, `points` are in screen coordinates
+const SelectionOutline = ({ points, tool }: { points: vec3[]; tool: Tool }) => {
+    const [a, b] = points;
+    const x = Math.min(a[0], b[0]);
+    const y = Math.min(a[1], b[1]);
+    const width = Math.abs(b[0] - a[0]);
+    const height = Math.abs(b[1] - a[1]);
+
+    let shape: JSX.Element;
+    if (tool === Tool.Rectangle) {
+        shape = <rect x={x} y={y} width={width} height={height} />;
+    } else if (tool === Tool.Ellipse) {
+        shape = (
+            <ellipse
+                cx={x + width / 2}
+                cy={y + height / 2}
+                rx={width / 2}
+                ry={height / 2}
+            />
+        );
+    } else {
+        shape = (
+            <polygon points={points.map((p) => `${p[0]},${p[1]}`).join(' ')} />
+        );
+    }
+
+    return (
+        <svg
+            style={{
+                position: 'absolute',
+                left: 0,
+                top: 0,
+                width: '100%',
+                height: '100%',
+                overflow: 'visible',
+                pointerEvents: 'none',
+            }}
+            fill="none"
+            stroke="#ffffff"
+            strokeDasharray="4 4"
+        >
+            {shape}
+        </svg>
+    );
+};
@@ -37,6 +37,24 @@ const POINTER_EVENTS = [
     'onPointerOut',
 ];
 
+// one pointer sample, relative to the widget like the event it came with
+export interface PointerSample {
+    clientX: number;
+    clientY: number;
+    pressure: number;
+    tiltX: number;
+    tiltY: number;
+    twist: number;
+    timeStamp: number;
+}
+
+export interface WidgetPointerEvent extends React.PointerEvent {
+    // every sample since the last event, ending with this one
+    coalesced: PointerSample[];
+    // where the browser guesses the pointer is going next, often empty
+    predicted: PointerSample[];
+}
+
 export default function Widget({ type, widgetProps, ...props }) {
     const windowManager = useContext(WindowContext);
     const div = useRef(null);
@@ -72,11 +90,29 @@ export default function Widget({ type, widgetProps, ...props }) {
         };
     };
 
-    const pointerHandler = (fn?: (e: React.PointerEvent) => void) => {
+    const pointerHandler = (fn?: (e: WidgetPointerEvent) => void) => {
         if (!fn) return;
 
-        return (e: React.PointerEvent) => {
+        return (e: WidgetPointerEvent) => {
             const bounds = div.current.getBoundingClientRect();
+
+            const toSample = (p: PointerEvent): PointerSample => ({
+                clientX: p.clientX - bounds.x,
+                clientY: p.clientY - bounds.y,
+                pressure: p.pointerType === 'mouse' ? 1.0 : p.pressure,
+                tiltX: p.tiltX,
+                tiltY: p.tiltY,
+                twist: p.twist,
+                timeStamp: p.timeStamp,
+            });
+
+            const native = e.nativeEvent;
+            const coalesced = native.getCoalescedEvents?.() ?? [];
+            e.coalesced = (coalesced.length > 0 ? coalesced : [native]).map(
+                toSample
+            );
+            e.predicted = (native.getPredictedEvents?.() ?? []).map(toSample);
+
             e.clientX -= bounds.x;
             e.clientY -= bounds.y;
 
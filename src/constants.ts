@@ -7,3 +7,13 @@ export const ROTATE_SENSITIVITY = 0.02;
 export const FIELD_OF_VIEW = (27 * Math.PI) / 180;
 export const NEAR = 0.1;
 export const FAR = 100.0;
+
+// undo history memory budget (in bytes) before the oldest steps are dropped
+export const UNDO_MEMORY_BUDGET = 512 * 1024 * 1024;
+// undo steps this far back get compressed, 0 to disable
+export const UNDO_COMPRESS_AFTER = 10;
+
+// how often the session is autosaved (in milliseconds)
+export const AUTOSAVE_INTERVAL = 10 * 1000;
+// autosave waits until nothing has been painted for this long (in milliseconds)
+export const AUTOSAVE_QUIET_TIME = 1000;
@@ -0,0 +1,97 @@
+// Single brush dabs and drawing them into a StrokeBuffer on the CPU
+// GpuDabs draws the same dabs on the GPU, so any change here needs to be made in the dab shader too.
+
+import type BrushTip from './brushTip';
+import { smoothstep } from './math';
+import { Rect } from './rect';
+import type StrokeBuffer from './strokeBuffer';
+
+// one dab after dynamics and jitter
+export interface Dab {
+    x: number; // center in pixels
+    y: number;
+    radius: number;
+    angle: number; // in radians
+    hardness: number;
+    flow: number;
+    opacity: number;
+}
+
+// what every dab of a stroke shares
+export interface DabShape {
+    roundness: number;
+    tip: BrushTip;
+}
+
+// the pixels a dab can cover, inclusive of both ends like the loops that fill it
+export function dabBounds(dab: Dab, shape: DabShape): Rect {
+    // a turned tip image reaches into the corners of its square
+    const extent = shape.tip ? dab.radius * Math.SQRT2 : dab.radius;
+    return {
+        x0: Math.floor(dab.x - extent),
+        y0: Math.floor(dab.y - extent),
+        x1: Math.ceil(dab.x + extent),
+        y1: Math.ceil(dab.y + extent),
+    };
+}
+
+export function rasterizeDab(buffer: StrokeBuffer, dab: Dab, shape: DabShape) {
+    const { width, height } = buffer;
+
+    // brushes smaller than a pixel still leave a mark where they're centered
+    if (dab.radius < 0.5) {
+        const x = Math.round(dab.x);
+        const y = Math.round(dab.y);
+        if (x >= 0 && x < width && y >= 0 && y < height) {
+            buffer.add(y * width + x, dab.radius * 2 * dab.flow, dab.opacity);
+        }
+    }
+
+    if (dab.radius <= 0) return;
+
+    const bounds = dabBounds(dab, shape);
+    const cos = Math.cos(dab.angle);
+    const sin = Math.sin(dab.angle);
+
+    for (let y = Math.max(bounds.y0, 0); y <= bounds.y1 && y < height; y++) {
+        for (let x = Math.max(bounds.x0, 0); x <= bounds.x1 && x < width; x++) {
+            const alpha = dabCoverage(dab, shape, x, y, cos, sin) * dab.flow;
+            buffer.add(y * width + x, alpha, dab.opacity);
+        }
+    }
+}
+
+// how much of the pixel at (x, y) the dab covers, `cos` and `sin` are of the dab's angle
+export function dabCoverage(
+    dab: Dab,
+    shape: DabShape,
+    x: number,
+    y: number,
+    cos: number,
+    sin: number
+) {
+    // turn the offset into the dab's own space, where it's round with a radius of 1
+    const dx = x - dab.x;
+    const dy = y - dab.y;
+    const u = (dx * cos + dy * sin) / dab.radius;
+    const v = (dy * cos - dx * sin) / (dab.radius * shape.roundness);
+
+    if (shape.tip) {
+        return harden(shape.tip.sample(u, v), dab.hardness);
+    }
+
+    // at least a pixel of softness keeps hard brushes anti-aliased
+    const softness = Math.max(dab.radius * (1 - dab.hardness), 1);
+    const distance = Math.hypot(u, v) * dab.radius;
+    return 1 - smoothstep(dab.radius - softness, dab.radius, distance);
+}
+
+// raise the contrast of tip coverage, 0 paints the tip as drawn and 1 makes it either painted or not
+const harden = (coverage: number, hardness: number) => {
+    const low = hardness * 0.5;
+    const high = 1 - low;
+    if (high - low < 0.01) {
+        return coverage >= 0.5 ? 1 : 0;
+    }
+    return Math.min(Math.max((coverage - low) / (high - low), 0), 1);
+};
@@ -0,0 +1,195 @@
+// How the linear Rec.709 the viewports render in is shown on the screen
+// Every view goes through the same exposure, view transform, gamma and optional look LUT, so they can be compared.
+
+import { vec3 } from 'gl-matrix';
+import type { Shader } from './shaders';
+
+// the order matches the VIEW_TRANSFORM_ defines in shaders/color/view_transform.glsl
+export enum ViewTransform {
+    ACESFit,
+    ACES,
+    Filmic,
+    Reinhard,
+    Srgb, // no tone mapping, for checking albedo
+}
+
+export const VIEW_TRANSFORMS = [
+    ViewTransform.ACESFit,
+    ViewTransform.ACES,
+    ViewTransform.Filmic,
+    ViewTransform.Reinhard,
+    ViewTransform.Srgb,
+];
+
+export const VIEW_TRANSFORM_NAMES = {
+    [ViewTransform.ACESFit]: 'ACES (fitted)',
+    [ViewTransform.ACES]: 'ACES RRT/ODT',
+    [ViewTransform.Filmic]: 'Filmic',
+    [ViewTransform.Reinhard]: 'Reinhard',
+    [ViewTransform.Srgb]: 'Raw sRGB',
+};
+
+// a 3D lookup table from display sRGB to display sRGB, applied last
+export interface Lut {
+    name: string;
+    size: number;
+    domainMin: vec3;
+    domainMax: vec3;
+    data: Float32Array; // RGB with red changing fastest, then green, then blue
+}
+
+export default class Display {
+    transform: ViewTransform;
+    exposure: number; // in stops
+    gamma: number;
+    lut: Lut;
+
+    lutTexture: WebGLTexture;
+    lutFilter: number; // float textures can only be filtered with OES_texture_float_linear
+
+    constructor(gl: WebGLRenderingContext) {
+        this.transform = ViewTransform.ACESFit;
+        this.exposure = 0;
+        this.gamma = 1;
+        this.lut = null;
+
+        this.lutTexture = gl.createTexture();
+        this.lutFilter = gl.getExtension('OES_texture_float_linear')
+            ? gl.LINEAR
+            : gl.NEAREST;
+
+        // shaders always sample something, even without a LUT
+        gl.bindTexture(gl.TEXTURE_2D, this.lutTexture);
+        gl.texImage2D(
+            gl.TEXTURE_2D,
+            0,
+            gl.RGB,
+            1,
+            1,
+            0,
+            gl.RGB,
+            gl.FLOAT,
+            new Float32Array(3)
+        );
+        this.setTextureParameters(gl);
+    }
+
+    // null goes back to no look
+    setLut(gl: WebGLRenderingContext, lut: Lut) {
+        if (lut) {
+            const maxSize = Math.floor(
+                Math.sqrt(gl.getParameter(gl.MAX_TEXTURE_SIZE))
+            );
+            if (lut.size > maxSize) {
+                throw new Error(
+                    `LUTs larger than ${maxSize}³ don't fit in a texture on this GPU`
+                );
+            }
+
+            // the slices are stacked vertically, which is the order the .cube file lists them in
+            gl.bindTexture(gl.TEXTURE_2D, this.lutTexture);
+            gl.texImage2D(
+                gl.TEXTURE_2D,
+                0,
+                gl.RGB,
+                lut.size,
+                lut.size * lut.size,
+                0,
+                gl.RGB,
+                gl.FLOAT,
+                lut.data
+            );
+            this.setTextureParameters(gl);
+        }
+
+        this.lut = lut;
+    }
+
+    setTextureParameters(gl: WebGLRenderingContext) {
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, this.lutFilter);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, this.lutFilter);
+    }
+
+    // for shaders that end with view_transform.glsl and lut.glsl, the LUT is bound to texture `unit`
+    setUniforms(gl: WebGLRenderingContext, shader: Shader, unit: number) {
+        gl.uniform1i(shader.uniforms.uViewTransform, this.transform);
+        gl.uniform1f(shader.uniforms.uExposure, this.exposure);
+        gl.uniform1f(shader.uniforms.uGamma, this.gamma);
+
+        gl.activeTexture(gl.TEXTURE0 + unit);
+        gl.bindTexture(gl.TEXTURE_2D, this.lutTexture);
+        gl.uniform1i(shader.uniforms.uLut, unit);
+        gl.uniform1f(shader.uniforms.uLutSize, this.lut ? this.lut.size : 0);
+        if (this.lut) {
+            gl.uniform3fv(shader.uniforms.uLutDomainMin, this.lut.domainMin);
+            gl.uniform3fv(shader.uniforms.uLutDomainMax, this.lut.domainMax);
+        }
+
+        // the widgets set texture parameters assuming the first unit is active
+        gl.activeTexture(gl.TEXTURE0);
+    }
+}
+
+// Adobe/Resolve .cube files: keywords, then one "r g b" line per entry
+export function parseCube(text: string, name: string): Lut {
+    let size = 0;
+    const domainMin = vec3.fromValues(0, 0, 0);
+    const domainMax = vec3.fromValues(1, 1, 1);
+    const values: number[] = [];
+
+    for (const line of text.split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (trimmed === '' || trimmed.startsWith('#')) continue;
+
+        const [keyword, ...args] = trimmed.split(/\s+/);
+        switch (keyword) {
+            case 'TITLE':
+                name = /"(.*)"/.exec(trimmed)?.[1] || name;
+                break;
+            case 'LUT_3D_SIZE':
+                size = parseInt(args[0]);
+                break;
+            case 'LUT_1D_SIZE':
+                throw new Error('only 3D LUTs are supported');
+            case 'DOMAIN_MIN':
+                vec3.set(domainMin, ...parseTriple(args));
+                break;
+            case 'DOMAIN_MAX':
+                vec3.set(domainMax, ...parseTriple(args));
+                break;
+            case 'LUT_3D_INPUT_RANGE': // Resolve's way of writing the domain
+                const [min, max] = args.map(Number);
+                vec3.set(domainMin, min, min, min);
+                vec3.set(domainMax, max, max, max);
+                break;
+            default:
+                // anything else that isn't a number is a keyword we don't need
+                if (!isNaN(parseFloat(keyword))) {
+                    values.push(...parseTriple([keyword, ...args]));
+                }
+        }
+    }
+
+    if (!(size >= 2)) {
+        throw new Error('not a 3D .cube LUT');
+    }
+    if (values.length !== size * size * size * 3) {
+        throw new Error(
+            `expected ${size * size * size} LUT entries, found ${
+                values.length / 3
+            }`
+        );
+    }
+
+    return { name, size, domainMin, domainMax, data: new Float32Array(values) };
+}
+
+function parseTriple(args: string[]): [number, number, number] {
+    const [a, b, c] = args.map(Number);
+    if (args.length < 3 || [a, b, c].some(isNaN)) {
+        throw new Error(`invalid .cube line "${args.join(' ')}"`);
+    }
+    return [a, b, c];
+}
@@ -0,0 +1,308 @@
+// Brush dynamics, how the pen and the stroke change the brush from one dab to the next
+// Each property of the brush can follow one input through a response curve that maps the input to a factor.
+
+export enum DynamicsInput {
+    Pressure,
+    Tilt,
+    TiltDirection,
+    Twist,
+    Velocity,
+}
+
+export const DYNAMICS_INPUTS = [
+    DynamicsInput.Pressure,
+    DynamicsInput.Tilt,
+    DynamicsInput.TiltDirection,
+    DynamicsInput.Twist,
+    DynamicsInput.Velocity,
+];
+
+export const DYNAMICS_INPUT_NAMES: { [input: number]: string } = {
+    [DynamicsInput.Pressure]: 'Pressure',
+    [DynamicsInput.Tilt]: 'Tilt',
+    [DynamicsInput.TiltDirection]: 'Tilt direction',
+    [DynamicsInput.Twist]: 'Twist',
+    [DynamicsInput.Velocity]: 'Velocity',
+};
+
+// [input, output] points sorted by input, both in [0, 1], joined by straight lines
+export type ResponseCurve = number[][];
+
+export interface DynamicsMapping {
+    enabled: boolean;
+    input: DynamicsInput;
+    curve: ResponseCurve;
+}
+
+// size, opacity, flow and hardness are scaled by their curve's output,
+// and the angle is turned by the output times a full turn
+export interface BrushDynamics {
+    size: DynamicsMapping;
+    opacity: DynamicsMapping;
+    flow: DynamicsMapping;
+    hardness: DynamicsMapping;
+    angle: DynamicsMapping;
+}
+
+export type DynamicsTarget = keyof BrushDynamics;
+
+export const DYNAMICS_TARGETS: DynamicsTarget[] = [
+    'size',
+    'opacity',
+    'flow',
+    'hardness',
+    'angle',
+];
+
+export const DYNAMICS_TARGET_NAMES: { [target: string]: string } = {
+    size: 'Size',
+    opacity: 'Opacity',
+    flow: 'Flow',
+    hardness: 'Hardness',
+    angle: 'Angle',
+};
+
+// the pen at one point of a stroke, every value but `time` is in [0, 1]
+export interface StrokeInput {
+    pressure: number;
+    tilt: number; // 0 upright, 1 lying flat
+    tiltDirection: number; // fraction of a turn clockwise from pointing right
+    twist: number; // fraction of a turn
+    velocity: number; // filled in by the brush engine
+    time: number; // in milliseconds
+}
+
+// brush diameters per second that count as full velocity
+const MAX_VELOCITY = 20;
+
+export const LINEAR_CURVE: ResponseCurve = [
+    [0, 0],
+    [1, 1],
+];
+
+// close to the pressure squared that brushes used before dynamics
+const SOFT_CURVE: ResponseCurve = [
+    [0, 0],
+    [0.25, 0.0625],
+    [0.5, 0.25],
+    [0.75, 0.5625],
+    [1, 1],
+];
+
+export function createDynamics(): BrushDynamics {
+    const mapping = (enabled: boolean, curve: ResponseCurve) => ({
+        enabled,
+        input: DynamicsInput.Pressure,
+        curve: cloneCurve(curve),
+    });
+
+    return {
+        size: mapping(true, SOFT_CURVE),
+        opacity: mapping(false, LINEAR_CURVE),
+        flow: mapping(false, LINEAR_CURVE),
+        hardness: mapping(false, LINEAR_CURVE),
+        angle: mapping(false, LINEAR_CURVE),
+    };
+}
+
+export function cloneDynamics(dynamics: BrushDynamics): BrushDynamics {
+    const clone = {} as BrushDynamics;
+    for (const target of DYNAMICS_TARGETS) {
+        const mapping = dynamics[target];
+        clone[target] = { ...mapping, curve: cloneCurve(mapping.curve) };
+    }
+    return clone;
+}
+
+export const cloneCurve = (curve: ResponseCurve) =>
+    curve.map((point) => point.slice());
+
+export function evaluateCurve(curve: ResponseCurve, x: number) {
+    if (x <= curve[0][0]) return curve[0][1];
+
+    for (let i = 1; i < curve.length; i++) {
+        const [x1, y1] = curve[i];
+        if (x <= x1) {
+            const [x0, y0] = curve[i - 1];
+            return x1 > x0 ? y0 + ((x - x0) / (x1 - x0)) * (y1 - y0) : y1;
+        }
+    }
+
+    return curve[curve.length - 1][1];
+}
+
+// the factor a mapping gives for `input`, mappings that are switched off leave the brush alone
+export function evaluateMapping(mapping: DynamicsMapping, input: StrokeInput) {
+    if (!mapping.enabled) return 1;
+    return evaluateCurve(mapping.curve, inputValue(mapping.input, input));
+}
+
+// the angle mapping turns the dab instead of scaling, so it's 0 when switched off
+export function evaluateAngle(mapping: DynamicsMapping, input: StrokeInput) {
+    if (!mapping.enabled) return 0;
+    return evaluateCurve(mapping.curve, inputValue(mapping.input, input)) * 360;
+}
+
+const inputValue = (input: DynamicsInput, stroke: StrokeInput) => {
+    switch (input) {
+        case DynamicsInput.Pressure:
+            return stroke.pressure;
+        case DynamicsInput.Tilt:
+            return stroke.tilt;
+        case DynamicsInput.TiltDirection:
+            return stroke.tiltDirection;
+        case DynamicsInput.Twist:
+            return stroke.twist;
+        case DynamicsInput.Velocity:
+            return stroke.velocity;
+    }
+};
+
+// read the pen from a pointer event, which the browser fills with defaults for mice
+export function strokeInputFromEvent(e: {
+    pressure: number;
+    tiltX: number;
+    tiltY: number;
+    twist?: number;
+    timeStamp: number;
+}): StrokeInput {
+    // tiltX and tiltY are the angles of the pen in the XZ and YZ planes
+    const x = Math.tan(((e.tiltX || 0) * Math.PI) / 180);
+    const y = Math.tan(((e.tiltY || 0) * Math.PI) / 180);
+    const altitude = Math.atan2(1, Math.hypot(x, y));
+
+    let direction = Math.atan2(y, x) / (2 * Math.PI);
+    if (direction < 0) direction += 1;
+
+    return {
+        pressure: e.pressure,
+        tilt: 1 - altitude / (Math.PI / 2),
+        tiltDirection: direction,
+        twist: (e.twist || 0) / 360,
+        velocity: 0,
+        time: e.timeStamp,
+    };
+}
+
+// the eraser end of a pen presses button 5 rather than the left button
+export const isPenEraser = (e: {
+    pointerType: string;
+    button: number;
+    buttons: number;
+}) =>
+    e.pointerType === 'pen' && (e.button === 5 || (e.buttons & 0b100000) !== 0);
+
+// full pressure with the pen upright, for strokes that don't come from a pen
+export function defaultStrokeInput(): StrokeInput {
+    return {
+        pressure: 1,
+        tilt: 0,
+        tiltDirection: 0,
+        twist: 0,
+        velocity: 0,
+        time: performance.now(),
+    };
+}
+
+// blend between two inputs along a segment, directions take the short way around
+export function lerpStrokeInput(
+    out: StrokeInput,
+    a: StrokeInput,
+    b: StrokeInput,
+    t: number
+) {
+    const mix = (from: number, to: number) => from + (to - from) * t;
+    const turn = (from: number, to: number) => {
+        let delta = to - from;
+        delta -= Math.round(delta);
+        const value = from + delta * t;
+        return value - Math.floor(value);
+    };
+
+    out.pressure = mix(a.pressure, b.pressure);
+    out.tilt = mix(a.tilt, b.tilt);
+    out.tiltDirection = turn(a.tiltDirection, b.tiltDirection);
+    out.twist = turn(a.twist, b.twist);
+    out.velocity = mix(a.velocity, b.velocity);
+    out.time = mix(a.time, b.time);
+    return out;
+}
+
+// how fast the pen moved `distance` since `previous`, relative to a brush of `radius`
+// smoothed a little so uneven event timing doesn't make the brush flicker
+export function strokeVelocity(
+    previous: StrokeInput,
+    time: number,
+    distance: number,
+    radius: number
+) {
+    const seconds = (time - previous.time) / 1000;
+    if (seconds <= 0 || radius <= 0) return previous.velocity;
+
+    const diametersPerSecond = distance / (2 * radius) / seconds;
+    const velocity = Math.min(diametersPerSecond / MAX_VELOCITY, 1);
+    return previous.velocity + (velocity - previous.velocity) * 0.5;
+}
+
+// Serialization
+// inputs are stored by name, like the rest of the project format
+
+export interface SerializedMapping {
+    enabled: boolean;
+    input: string;
+    curve: ResponseCurve;
+}
+
+export type SerializedDynamics = { [target: string]: SerializedMapping };
+
+export function serializeDynamics(dynamics: BrushDynamics): SerializedDynamics {
+    const serialized: SerializedDynamics = {};
+    for (const target of DYNAMICS_TARGETS) {
+        const mapping = dynamics[target];
+        serialized[target] = {
+            enabled: mapping.enabled,
+            input: DynamicsInput[mapping.input],
+            curve: cloneCurve(mapping.curve),
+        };
+    }
+    return serialized;
+}
+
+// targets that are missing, for example from files saved before they existed, get their defaults
+export function deserializeDynamics(
+    serialized: SerializedDynamics
+): BrushDynamics {
+    const dynamics = createDynamics();
+    if (!serialized) return dynamics;
+
+    for (const target of DYNAMICS_TARGETS) {
+        const mapping = serialized[target];
+        if (!mapping) continue;
+
+        const input =
+            DynamicsInput[mapping.input as keyof typeof DynamicsInput];
+        if (input === undefined) {
+            throw new Error(`unknown dynamics input ${mapping.input}`);
+        }
+        if (!validCurve(mapping.curve)) {
+            throw new Error(`invalid ${target} curve`);
+        }
+
+        dynamics[target] = {
+            enabled: !!mapping.enabled,
+            input,
+            curve: cloneCurve(mapping.curve),
+        };
+    }
+    return dynamics;
+}
+
+const validCurve = (curve: ResponseCurve) =>
+    Array.isArray(curve) &&
+    curve.length >= 2 &&
+    curve.every(
+        (point, i) =>
+            point.length === 2 &&
+            point.every((value) => value >= 0 && value <= 1) &&
+            (i === 0 || point[0] >= curve[i - 1][0])
+    );
@@ -0,0 +1,293 @@
+// Environments: the bundled backgrounds and HDRIs the user has added, any of which can light the 3D view
+// Only the current environment's cube maps are kept on the GPU, they're generated again when it's selected.
+// How it's turned, how bright it is and what's drawn behind the model are saved with the project.
+
+import { mat3, mat4 } from 'gl-matrix';
+import {
+    BUNDLED_BACKGROUNDS,
+    EnvironmentSource,
+    ImageBasedLighting,
+    SkyboxImages,
+} from './assets/backgrounds';
+import type { ColorSpace } from './colorSpace';
+import EnvironmentBaker from './environmentBaker';
+import { loadAssetFromBlob, loadAssetFromURL } from './loader';
+import { AssetType } from './loader/asset';
+import type Image from './loader/image';
+import type { Shader } from './shaders';
+import { SH_COEFFICIENTS } from './sphericalHarmonics';
+
+// equirectangular HDRIs that can be added
+export const ENVIRONMENT_EXTENSIONS = ['hdr', 'exr'];
+
+export interface Environment {
+    name: string;
+    load: () => Promise<EnvironmentSource>;
+}
+
+// the order matches the BACKGROUND_ defines in the background shader
+export enum Background {
+    Environment,
+    Solid,
+    Gradient,
+}
+
+export const BACKGROUNDS = [
+    Background.Environment,
+    Background.Solid,
+    Background.Gradient,
+];
+
+export const BACKGROUND_NAMES = {
+    [Background.Environment]: 'Environment',
+    [Background.Solid]: 'Solid color',
+    [Background.Gradient]: 'Gradient',
+};
+
+// everything that can be changed about the current environment
+export interface EnvironmentOptions {
+    rotation: number; // in degrees around the vertical axis
+    intensity: number; // scales the light and the background
+    blur: number; // of the background, from sharp to as blurry as the roughest reflections
+    background: Background;
+    backgroundColor: number[]; // sRGB, drawn as is without the view transform
+    gradientColor: number[]; // sRGB, at the bottom of the gradient with the background color at the top
+}
+
+// everything saved with the project
+export interface EnvironmentSettings extends EnvironmentOptions {
+    name: string; // of the current environment, only bundled ones can be found again
+}
+
+// the radiance from every direction while nothing else lights the model, a diffuse white surface shows it as is
+const FLAT_RADIANCE = 0.5;
+
+async function loadImage(url: string) {
+    const asset = await loadAssetFromURL(url);
+    if (asset.type !== AssetType.Image) {
+        throw new Error('environments must be images');
+    }
+    return asset.image;
+}
+
+function loadFaces(urls: string[]) {
+    return Promise.all(urls.map(loadImage)) as Promise<SkyboxImages>;
+}
+
+// an equirectangular image, or cube faces
+function loadImages(url: string | string[]): Promise<Image | SkyboxImages> {
+    return Array.isArray(url) ? loadFaces(url) : loadImage(url);
+}
+
+// an even gray light from every direction, which needs nothing but float textures to draw with
+function createFlatLighting(gl: WebGLRenderingContext): ImageBasedLighting {
+    const cube = gl.createTexture();
+    gl.bindTexture(gl.TEXTURE_CUBE_MAP, cube);
+    const texel = new Float32Array([
+        FLAT_RADIANCE,
+        FLAT_RADIANCE,
+        FLAT_RADIANCE,
+        1,
+    ]);
+    for (let face = 0; face < 6; face++) {
+        gl.texImage2D(
+            gl.TEXTURE_CUBE_MAP_POSITIVE_X + face,
+            0,
+            gl.RGBA,
+            1,
+            1,
+            0,
+            gl.RGBA,
+            gl.FLOAT,
+            texel
+        );
+    }
+    gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.bindTexture(gl.TEXTURE_CUBE_MAP, null);
+
+    // only the constant band, scaled so sh_irradiance gives back the radiance
+    const irradiance = new Float32Array(SH_COEFFICIENTS * 3);
+    irradiance.fill(FLAT_RADIANCE / 0.282095, 0, 3);
+
+    return {
+        skybox: cube,
+        irradiance,
+        prefiltered: [cube, cube, cube, cube, cube],
+    };
+}
+
+export default class Environments implements EnvironmentOptions {
+    environments: Environment[];
+    current: number; // index into environments
+    lighting: ImageBasedLighting; // null until the current environment is ready
+    fallback: ImageBasedLighting; // lights the model while there's no lighting, never disposed
+    error: string; // why the current environment couldn't light the view, null unless it failed
+
+    rotation: number;
+    intensity: number;
+    blur: number;
+    background: Background;
+    backgroundColor: number[];
+    gradientColor: number[];
+
+    private gl: WebGLRenderingContext;
+    private baker: EnvironmentBaker;
+    private selection: number; // counts selections, so a slow load can't replace a newer one
+
+    listeners: (() => void)[];
+
+    constructor(gl: WebGLRenderingContext) {
+        this.environments = BUNDLED_BACKGROUNDS.map((bundled) => ({
+            name: bundled.name,
+            load: async () => {
+                const [radiance, background, irradiance] = await Promise.all([
+                    loadImages(bundled.radiance),
+                    bundled.background && loadFaces(bundled.background),
+                    bundled.irradiance && loadFaces(bundled.irradiance),
+                ]);
+                return { radiance, background, irradiance };
+            },
+        }));
+        this.current = 0;
+        this.lighting = null;
+        this.fallback = createFlatLighting(gl);
+        this.error = null;
+
+        this.rotation = 0;
+        this.intensity = 1;
+        this.blur = 0;
+        this.background = Background.Environment;
+        this.backgroundColor = [0.3, 0.3, 0.3];
+        this.gradientColor = [0.1, 0.1, 0.1];
+
+        this.gl = gl;
+        this.baker = null;
+        this.selection = 0;
+
+        this.listeners = [];
+    }
+
+    // load the environment at `index` and light the view with it
+    // if that fails the error is kept for the environment panel to show, and the model keeps the light it had
+    async select(index: number) {
+        const selection = ++this.selection;
+        this.current = index;
+        this.error = null;
+        this.notify();
+
+        try {
+            const source = await this.environments[index].load();
+            if (selection !== this.selection) return;
+
+            // compiling the shaders can wait until they're needed
+            if (!this.baker) {
+                this.baker = new EnvironmentBaker(this.gl);
+            }
+
+            const lighting = this.baker.bake(source);
+            if (this.lighting) {
+                this.baker.dispose(this.lighting);
+            }
+            this.lighting = lighting;
+            this.notify();
+        } catch (e) {
+            if (selection === this.selection) {
+                this.error = e.message;
+                this.notify();
+            }
+            throw e;
+        }
+    }
+
+    // add an equirectangular image to the list and select it
+    addImage(name: string, image: Image) {
+        this.environments.push({
+            name,
+            load: async () => ({ radiance: image }),
+        });
+        return this.select(this.environments.length - 1);
+    }
+
+    // load an HDRI file and add it, `colorSpace` overrides the one it's tagged with unless it's null
+    async addFile(name: string, blob: Blob, colorSpace: ColorSpace) {
+        const extension = name.split('.').pop().toLowerCase();
+        if (!ENVIRONMENT_EXTENSIONS.includes(extension)) {
+            throw new Error(
+                'environments must be equirectangular .hdr or .exr images'
+            );
+        }
+
+        const asset = await loadAssetFromBlob(name, blob);
+        if (asset.type !== AssetType.Image) {
+            throw new Error('environments must be images');
+        }
+
+        return this.addImage(name.replace(/\.[^.]*$/, ''), {
+            ...asset.image,
+            colorSpace: colorSpace ?? asset.image.colorSpace,
+        });
+    }
+
+    set(options: Partial<EnvironmentOptions>) {
+        Object.assign(this, options);
+        this.notify();
+    }
+
+    getSettings(): EnvironmentSettings {
+        return {
+            name: this.environments[this.current].name,
+            rotation: this.rotation,
+            intensity: this.intensity,
+            blur: this.blur,
+            background: this.background,
+            backgroundColor: this.backgroundColor.slice(),
+            gradientColor: this.gradientColor.slice(),
+        };
+    }
+
+    applySettings({ name, ...options }: EnvironmentSettings) {
+        this.set({
+            ...options,
+            backgroundColor: options.backgroundColor.slice(),
+            gradientColor: options.gradientColor.slice(),
+        });
+
+        // HDRIs the user added aren't saved, so those projects keep whatever is lighting the view
+        const index = this.environments.findIndex((e) => e.name === name);
+        if (index >= 0 && index !== this.current) {
+            this.select(index).catch((e) =>
+                console.error("couldn't load the environment", e)
+            );
+        }
+    }
+
+    // for shaders that light with the environment, directions are turned from the world into the environment
+    setUniforms(gl: WebGLRenderingContext, shader: Shader) {
+        const rotation = mat4.fromYRotation(
+            mat4.create(),
+            (-this.rotation * Math.PI) / 180
+        );
+        gl.uniformMatrix3fv(
+            shader.uniforms.uEnvironmentRotation,
+            false,
+            mat3.fromMat4(mat3.create(), rotation)
+        );
+        gl.uniform1f(shader.uniforms.uEnvironmentIntensity, this.intensity);
+    }
+
+    // listeners are told about any change, including the selection's lighting becoming ready
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+
+        return () => {
+            this.listeners = this.listeners.filter((l) => l !== listener);
+        };
+    }
+
+    private notify() {
+        for (let i = 0; i < this.listeners.length; i++) {
+            this.listeners[i]();
+        }
+    }
+}
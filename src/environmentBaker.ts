@@ -0,0 +1,346 @@
+// Generating the cube maps the 3D view is lit by from an environment, by drawing each face into a float framebuffer
+// The skybox is resampled from the source, then box filtered down to the radiance the specular maps integrate.
+// A bundled environment can have a sharper background than its HDR radiance, then the radiance gets a cube of its own.
+// Diffuse lighting is projected into spherical harmonics on the CPU instead.
+import type {
+    EnvironmentSource,
+    ImageBasedLighting,
+    SkyboxImages,
+} from './assets/backgrounds';
+import type Image from './loader/image';
+import loadShaderProgram, { Shader } from './shaders';
+import { projectIrradiance } from './sphericalHarmonics';
+import { loadTextureFromImage } from './windowManager';
+
+import vertEnvironmentShader from './shaders/environment/vert.glsl';
+import fragSkyboxShader from './shaders/environment/skybox.glsl';
+import fragDownsampleShader from './shaders/environment/downsample.glsl';
+import fragPrefilterShader from './shaders/environment/prefilter.glsl';
+
+const MAX_SKYBOX_SIZE = 1024;
+const RADIANCE_SIZE = 128; // of the sharpest prefiltered level, each rougher one is half the size
+const PREFILTERED_LEVELS = 5; // matches getPrefiltered in the standard shader
+const MAX_DOWNSAMPLE_TAPS = 8; // MAX_TAPS in downsample.glsl
+
+// of the cube map `source` is resampled into, a face covers a quarter of an equirectangular image's width
+function faceSize(source: Image | SkyboxImages) {
+    return Math.min(
+        MAX_SKYBOX_SIZE,
+        Array.isArray(source) ? source[0].width : Math.floor(source.width / 4)
+    );
+}
+
+export default class EnvironmentBaker {
+    private gl: WebGLRenderingContext;
+    private skyboxShader: Shader;
+    private downsampleShader: Shader;
+    private prefilterShader: Shader;
+    private quadBuffer: WebGLBuffer;
+    private framebuffer: WebGLFramebuffer;
+    private filter: number; // float textures can only be filtered with OES_texture_float_linear
+
+    constructor(gl: WebGLRenderingContext) {
+        if (!gl.getExtension('WEBGL_color_buffer_float')) {
+            throw new Error(
+                "environments can't be generated without WEBGL_color_buffer_float"
+            );
+        }
+
+        this.gl = gl;
+        this.skyboxShader = loadShaderProgram(
+            gl,
+            vertEnvironmentShader,
+            fragSkyboxShader
+        );
+        this.downsampleShader = loadShaderProgram(
+            gl,
+            vertEnvironmentShader,
+            fragDownsampleShader
+        );
+        this.prefilterShader = loadShaderProgram(
+            gl,
+            vertEnvironmentShader,
+            fragPrefilterShader
+        );
+
+        this.quadBuffer = gl.createBuffer();
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+        gl.bufferData(
+            gl.ARRAY_BUFFER,
+            new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]),
+            gl.STATIC_DRAW
+        );
+
+        this.framebuffer = gl.createFramebuffer();
+        this.filter = gl.getExtension('OES_texture_float_linear')
+            ? gl.LINEAR
+            : gl.NEAREST;
+    }
+
+    // each part of `source` is an equirectangular image or the six faces of a cube map
+    bake({
+        radiance,
+        background = radiance,
+        irradiance,
+    }: EnvironmentSource): ImageBasedLighting {
+        const gl = this.gl;
+
+        const maxSize = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+        const images = [radiance, background].reduce<Image[]>(
+            (images, source) => images.concat(source),
+            []
+        );
+        if (
+            images.some(
+                ({ width, height }) => Math.max(width, height) > maxSize
+            )
+        ) {
+            throw new Error(
+                `environments larger than ${maxSize} pixels don't fit in a texture on this GPU`
+            );
+        }
+
+        const radianceTextures = this.upload(radiance);
+        const backgroundTextures =
+            background === radiance
+                ? radianceTextures
+                : this.upload(background);
+
+        gl.disable(gl.BLEND);
+        gl.disable(gl.CULL_FACE);
+        gl.disable(gl.DEPTH_TEST);
+
+        try {
+            const skybox = this.resample(background, backgroundTextures);
+
+            // a separate radiance is filtered from a cube of its own, which isn't kept
+            const radianceCube =
+                background === radiance
+                    ? skybox
+                    : this.resample(radiance, radianceTextures);
+            const radianceCubeSize = faceSize(radiance);
+
+            // each level of radiance is half the size of the last, to sample the rougher levels without aliasing
+            const levels = [
+                this.downsample(
+                    radianceCube,
+                    RADIANCE_SIZE,
+                    Math.round(radianceCubeSize / RADIANCE_SIZE)
+                ),
+            ];
+            if (radianceCube !== skybox) {
+                gl.deleteTexture(radianceCube);
+            }
+            for (let level = 1; level < PREFILTERED_LEVELS - 1; level++) {
+                levels.push(
+                    this.downsample(
+                        levels[level - 1],
+                        RADIANCE_SIZE >> level,
+                        2
+                    )
+                );
+            }
+
+            const prefiltered = [levels[0]];
+            for (let level = 1; level < PREFILTERED_LEVELS; level++) {
+                prefiltered.push(
+                    this.renderCube(
+                        RADIANCE_SIZE >> level,
+                        this.prefilterShader,
+                        () => {
+                            const { uniforms } = this.prefilterShader;
+                            this.bindSource(
+                                uniforms.uSource,
+                                levels[level - 1]
+                            );
+                            gl.uniform1f(
+                                uniforms.uRoughness,
+                                level / (PREFILTERED_LEVELS - 1)
+                            );
+                        }
+                    )
+                );
+            }
+
+            for (let level = 1; level < levels.length; level++) {
+                gl.deleteTexture(levels[level]);
+            }
+
+            return {
+                skybox,
+                irradiance: irradiance
+                    ? projectIrradiance(irradiance, true)
+                    : projectIrradiance(radiance),
+                prefiltered,
+            };
+        } finally {
+            for (const texture of radianceTextures) {
+                gl.deleteTexture(texture);
+            }
+            if (backgroundTextures !== radianceTextures) {
+                for (const texture of backgroundTextures) {
+                    gl.deleteTexture(texture);
+                }
+            }
+
+            gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+            // every shader here shares vert.glsl, so the attribute is in the same place
+            gl.disableVertexAttribArray(
+                this.skyboxShader.attributes.aVertexPosition
+            );
+            gl.enable(gl.BLEND);
+            gl.enable(gl.CULL_FACE);
+        }
+    }
+
+    dispose(lighting: ImageBasedLighting) {
+        const gl = this.gl;
+        gl.deleteTexture(lighting.skybox);
+        for (const texture of lighting.prefiltered) {
+            gl.deleteTexture(texture);
+        }
+    }
+
+    // a texture for each image of `source`
+    private upload(source: Image | SkyboxImages) {
+        const gl = this.gl;
+        return (Array.isArray(source) ? source : [source]).map((image) => {
+            const texture = loadTextureFromImage(gl, gl.createTexture(), image);
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, this.filter);
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, this.filter);
+            return texture;
+        });
+    }
+
+    // a cube map of `source`, drawn from the `textures` upload made of it
+    private resample(source: Image | SkyboxImages, textures: WebGLTexture[]) {
+        const gl = this.gl;
+        const faces = Array.isArray(source) ? source : null;
+
+        return this.renderCube(faceSize(source), this.skyboxShader, (face) => {
+            const { uniforms } = this.skyboxShader;
+            const image = faces ? faces[face] : (source as Image);
+
+            gl.activeTexture(gl.TEXTURE0);
+            gl.bindTexture(gl.TEXTURE_2D, textures[faces ? face : 0]);
+            gl.uniform1i(uniforms.uSource, 0);
+            gl.uniform1i(uniforms.uColorSpace, image.colorSpace);
+            gl.uniform1i(uniforms.uEquirectangular, faces ? 0 : 1);
+        });
+    }
+
+    // box filter `source` down to `size`, averaging `taps` x `taps` samples per texel
+    private downsample(source: WebGLTexture, size: number, taps: number) {
+        const { uniforms } = this.downsampleShader;
+
+        return this.renderCube(size, this.downsampleShader, () => {
+            this.bindSource(uniforms.uSource, source);
+            this.gl.uniform1i(
+                uniforms.uTaps,
+                Math.min(Math.max(taps, 1), MAX_DOWNSAMPLE_TAPS)
+            );
+        });
+    }
+
+    private bindSource(location: WebGLUniformLocation, cube: WebGLTexture) {
+        const gl = this.gl;
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_CUBE_MAP, cube);
+        gl.uniform1i(location, 0);
+    }
+
+    // a new float cube map with each face drawn by `shader`, setUniforms binds its inputs
+    private renderCube(
+        size: number,
+        shader: Shader,
+        setUniforms: (face: number) => void
+    ) {
+        const gl = this.gl;
+        const { attributes, uniforms } = shader;
+
+        const cube = gl.createTexture();
+        gl.bindTexture(gl.TEXTURE_CUBE_MAP, cube);
+        for (let face = 0; face < 6; face++) {
+            gl.texImage2D(
+                gl.TEXTURE_CUBE_MAP_POSITIVE_X + face,
+                0,
+                gl.RGBA,
+                size,
+                size,
+                0,
+                gl.RGBA,
+                gl.FLOAT,
+                null
+            );
+        }
+        gl.texParameteri(
+            gl.TEXTURE_CUBE_MAP,
+            gl.TEXTURE_WRAP_S,
+            gl.CLAMP_TO_EDGE
+        );
+        gl.texParameteri(
+            gl.TEXTURE_CUBE_MAP,
+            gl.TEXTURE_WRAP_T,
+            gl.CLAMP_TO_EDGE
+        );
+        gl.texParameteri(
+            gl.TEXTURE_CUBE_MAP,
+            gl.TEXTURE_MIN_FILTER,
+            this.filter
+        );
+        gl.texParameteri(
+            gl.TEXTURE_CUBE_MAP,
+            gl.TEXTURE_MAG_FILTER,
+            this.filter
+        );
+        gl.bindTexture(gl.TEXTURE_CUBE_MAP, null);
+
+        gl.useProgram(shader.program);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+        gl.enableVertexAttribArray(attributes.aVertexPosition);
+        gl.vertexAttribPointer(
+            attributes.aVertexPosition,
+            2,
+            gl.FLOAT,
+            false,
+            0,
+            0
+        );
+        gl.uniform1f(uniforms.uSize, size);
+
+        gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+        gl.viewport(0, 0, size, size);
+        gl.scissor(0, 0, size, size);
+
+        for (let face = 0; face < 6; face++) {
+            gl.framebufferTexture2D(
+                gl.FRAMEBUFFER,
+                gl.COLOR_ATTACHMENT0,
+                gl.TEXTURE_CUBE_MAP_POSITIVE_X + face,
+                cube,
+                0
+            );
+
+            // some browsers expose the extension but still can't render to float textures
+            const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+            if (status !== gl.FRAMEBUFFER_COMPLETE) {
+                gl.deleteTexture(cube);
+                throw new Error(`float framebuffer incomplete (${status})`);
+            }
+
+            gl.uniform1i(uniforms.uFace, face);
+            setUniforms(face);
+            gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+        }
+
+        gl.framebufferTexture2D(
+            gl.FRAMEBUFFER,
+            gl.COLOR_ATTACHMENT0,
+            gl.TEXTURE_2D,
+            null,
+            0
+        );
+
+        return cube;
+    }
+}
@@ -0,0 +1,36 @@
+// Helpers shared by the image writers
+
+import { rgbToSrgb } from '../color';
+
+// convert linear RGBA floats to integer samples
+// color is sRGB encoded when `srgb` is set, alpha is always stored linearly
+export function quantize(
+    pixels: Float32Array,
+    bits: 8 | 16,
+    srgb: boolean,
+    dither: boolean
+) {
+    const samples =
+        bits === 8
+            ? new Uint8Array(pixels.length)
+            : new Uint16Array(pixels.length);
+    const max = bits === 8 ? 255 : 65535;
+
+    for (let i = 0; i < pixels.length; i++) {
+        let value = Math.min(Math.max(pixels[i], 0), 1);
+        if (srgb && i % 4 !== 3) {
+            value = rgbToSrgb(value);
+        }
+
+        value *= max;
+
+        // triangular noise of one step hides banding in smooth gradients
+        if (dither) {
+            value += Math.random() - Math.random();
+        }
+
+        samples[i] = Math.min(Math.max(Math.round(value), 0), max);
+    }
+
+    return samples;
+}
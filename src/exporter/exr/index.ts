@@ -0,0 +1,193 @@
+// OpenEXR writer for half or float RGBA scanline images with ZIP compression
+
+import { concat, deflate, toHalf } from '../../binary';
+
+const MAGIC = 20000630;
+const LINES_PER_BLOCK = 16; // fixed by ZIP_COMPRESSION
+
+enum PixelType {
+    Half = 1,
+    Float = 2,
+}
+
+const ZIP_COMPRESSION = 3;
+
+// EXR wants channels sorted by name
+const CHANNELS: [string, number][] = [
+    ['A', 3],
+    ['B', 2],
+    ['G', 1],
+    ['R', 0],
+];
+
+// little-endian byte writer for the header
+class Writer {
+    bytes: number[] = [];
+
+    uint8(value: number) {
+        this.bytes.push(value & 0xff);
+    }
+
+    int32(value: number) {
+        for (let i = 0; i < 4; i++) {
+            this.uint8(value >> (i * 8));
+        }
+    }
+
+    float32(value: number) {
+        const buffer = new Uint8Array(new Float32Array([value]).buffer);
+        buffer.forEach((b) => this.uint8(b));
+    }
+
+    string(value: string) {
+        for (let i = 0; i < value.length; i++) {
+            this.uint8(value.charCodeAt(i));
+        }
+        this.uint8(0);
+    }
+
+    attribute(name: string, type: string, value: Writer) {
+        this.string(name);
+        this.string(type);
+        this.int32(value.bytes.length);
+        this.bytes.push(...value.bytes);
+    }
+}
+
+// `pixels` are linear straight-alpha RGBA, EXR stores them premultiplied
+export default async function encodeEXR(
+    width: number,
+    height: number,
+    pixels: Float32Array,
+    half: boolean
+): Promise<Uint8Array> {
+    const pixelType = half ? PixelType.Half : PixelType.Float;
+    const sampleSize = half ? 2 : 4;
+
+    const header = new Writer();
+    header.int32(MAGIC);
+    header.int32(2); // version 2, single part scanline
+
+    const channels = new Writer();
+    for (const [name] of CHANNELS) {
+        channels.string(name);
+        channels.int32(pixelType);
+        channels.int32(0); // pLinear and reserved
+        channels.int32(1); // x sampling
+        channels.int32(1); // y sampling
+    }
+    channels.uint8(0);
+    header.attribute('channels', 'chlist', channels);
+
+    const compression = new Writer();
+    compression.uint8(ZIP_COMPRESSION);
+    header.attribute('compression', 'compression', compression);
+
+    const window = new Writer();
+    window.int32(0);
+    window.int32(0);
+    window.int32(width - 1);
+    window.int32(height - 1);
+    header.attribute('dataWindow', 'box2i', window);
+    header.attribute('displayWindow', 'box2i', window);
+
+    const lineOrder = new Writer();
+    lineOrder.uint8(0); // increasing y
+    header.attribute('lineOrder', 'lineOrder', lineOrder);
+
+    const aspectRatio = new Writer();
+    aspectRatio.float32(1);
+    header.attribute('pixelAspectRatio', 'float', aspectRatio);
+
+    const screenCenter = new Writer();
+    screenCenter.float32(0);
+    screenCenter.float32(0);
+    header.attribute('screenWindowCenter', 'v2f', screenCenter);
+
+    const screenWidth = new Writer();
+    screenWidth.float32(1);
+    header.attribute('screenWindowWidth', 'float', screenWidth);
+
+    header.uint8(0); // end of header
+
+    const blockCount = Math.ceil(height / LINES_PER_BLOCK);
+    const blocks: Uint8Array[] = [];
+
+    for (let block = 0; block < blockCount; block++) {
+        const y0 = block * LINES_PER_BLOCK;
+        const y1 = Math.min(y0 + LINES_PER_BLOCK, height);
+
+        // each line holds every channel's samples one after the other
+        const raw = new Uint8Array((y1 - y0) * width * 4 * sampleSize);
+        const view = new DataView(raw.buffer);
+        let offset = 0;
+
+        for (let y = y0; y < y1; y++) {
+            for (const [, component] of CHANNELS) {
+                for (let x = 0; x < width; x++) {
+                    const index = (y * width + x) * 4;
+                    let value = pixels[index + component];
+                    if (component !== 3) {
+                        value *= pixels[index + 3];
+                    }
+
+                    if (half) {
+                        view.setUint16(offset, toHalf(value), true);
+                    } else {
+                        view.setFloat32(offset, value, true);
+                    }
+                    offset += sampleSize;
+                }
+            }
+        }
+
+        let data = await deflate(predict(raw));
+        if (data.length >= raw.length) {
+            data = raw; // readers treat blocks that didn't shrink as uncompressed
+        }
+
+        const blockHeader = new DataView(new ArrayBuffer(8));
+        blockHeader.setInt32(0, y0, true);
+        blockHeader.setInt32(4, data.length, true);
+        blocks.push(new Uint8Array(blockHeader.buffer), data);
+    }
+
+    // offsets from the start of the file to each block
+    const offsets = new DataView(new ArrayBuffer(blockCount * 8));
+    let position = header.bytes.length + blockCount * 8;
+    for (let block = 0; block < blockCount; block++) {
+        offsets.setUint32(block * 8, position % 0x100000000, true);
+        offsets.setUint32(
+            block * 8 + 4,
+            Math.floor(position / 0x100000000),
+            true
+        );
+        position += blocks[block * 2].length + blocks[block * 2 + 1].length;
+    }
+
+    return concat([
+        new Uint8Array(header.bytes),
+        new Uint8Array(offsets.buffer),
+        ...blocks,
+    ]);
+}
+
+// ZIP compression first splits the bytes into even and odd halves,
+// then stores each byte as the difference from the previous one
+const predict = (raw: Uint8Array) => {
+    const out = new Uint8Array(raw.length);
+    const half = Math.ceil(raw.length / 2);
+
+    for (let i = 0; i < raw.length; i++) {
+        out[(i & 1 ? half : 0) + (i >> 1)] = raw[i];
+    }
+
+    let previous = out[0];
+    for (let i = 1; i < out.length; i++) {
+        const value = out[i];
+        out[i] = (value - previous + 128 + 256) & 0xff;
+        previous = value;
+    }
+
+    return out;
+};
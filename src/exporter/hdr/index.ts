@@ -0,0 +1,140 @@
+// Radiance RGBE writer, alpha is dropped since the format can't store it
+
+const MIN_RUN = 4; // shorter runs are cheaper to store as literals
+
+const encoder = new TextEncoder();
+
+export default function encodeHDR(
+    width: number,
+    height: number,
+    pixels: Float32Array
+): Uint8Array {
+    const header = encoder.encode(
+        `#?RADIANCE\nFORMAT=32-bit_rle_rgbe\n\n-Y ${height} +X ${width}\n`
+    );
+
+    // worst case is every scanline stored as literals
+    const out = new Uint8Array(
+        header.length + height * (4 + 4 * (width + Math.ceil(width / 128)))
+    );
+    out.set(header);
+    let offset = header.length;
+
+    // run-length encoding is only allowed for these widths
+    const rle = width >= 8 && width < 0x8000;
+
+    const scanline = new Uint8Array(width * 4);
+    const component = new Uint8Array(width);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const index = (y * width + x) * 4;
+            toRGBE(
+                scanline,
+                x * 4,
+                pixels[index],
+                pixels[index + 1],
+                pixels[index + 2]
+            );
+        }
+
+        if (!rle) {
+            out.set(scanline, offset);
+            offset += scanline.length;
+            continue;
+        }
+
+        out[offset++] = 2;
+        out[offset++] = 2;
+        out[offset++] = width >> 8;
+        out[offset++] = width & 0xff;
+
+        // each component is run-length encoded separately
+        for (let c = 0; c < 4; c++) {
+            for (let x = 0; x < width; x++) {
+                component[x] = scanline[x * 4 + c];
+            }
+            offset = writeRuns(out, offset, component);
+        }
+    }
+
+    return out.slice(0, offset);
+}
+
+const toRGBE = (
+    out: Uint8Array,
+    offset: number,
+    r: number,
+    g: number,
+    b: number
+) => {
+    r = Math.max(r, 0);
+    g = Math.max(g, 0);
+    b = Math.max(b, 0);
+
+    const v = Math.max(r, g, b);
+    if (!(v > 1e-32)) {
+        out.fill(0, offset, offset + 4);
+        return;
+    }
+
+    // shared exponent so the largest component's mantissa lands in [128, 256)
+    let exponent = Math.floor(Math.log2(v)) + 1;
+    let scale = 256 / Math.pow(2, exponent);
+    if (v * scale >= 256) {
+        exponent++;
+        scale /= 2;
+    }
+
+    out[offset] = Math.floor(r * scale);
+    out[offset + 1] = Math.floor(g * scale);
+    out[offset + 2] = Math.floor(b * scale);
+    out[offset + 3] = Math.min(Math.max(exponent + 128, 0), 255);
+};
+
+// runs are stored as [128 + length, value], literals as [length, ...values]
+const writeRuns = (out: Uint8Array, offset: number, data: Uint8Array) => {
+    let current = 0;
+
+    while (current < data.length) {
+        // find the next run long enough to be worth encoding
+        let runStart = current;
+        let runLength = 0;
+        let previousRunLength = 0;
+        while (runLength < MIN_RUN && runStart < data.length) {
+            runStart += runLength;
+            previousRunLength = runLength;
+            runLength = 1;
+            while (
+                runStart + runLength < data.length &&
+                runLength < 127 &&
+                data[runStart] === data[runStart + runLength]
+            ) {
+                runLength++;
+            }
+        }
+
+        // a short run right before the long one is still cheaper as a run
+        if (previousRunLength > 1 && previousRunLength === runStart - current) {
+            out[offset++] = 128 + previousRunLength;
+            out[offset++] = data[current];
+            current = runStart;
+        }
+
+        while (current < runStart) {
+            const count = Math.min(runStart - current, 128);
+            out[offset++] = count;
+            out.set(data.subarray(current, current + count), offset);
+            offset += count;
+            current += count;
+        }
+
+        if (runLength >= MIN_RUN) {
+            out[offset++] = 128 + runLength;
+            out[offset++] = data[runStart];
+            current += runLength;
+        }
+    }
+
+    return offset;
+};
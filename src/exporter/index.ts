@@ -0,0 +1,188 @@
+// Writing images back out of texpaint, the counterpart to ../loader
+
+import { Channel, channelStride, CHANNEL_INFO } from '../channels';
+import { ColorSpace, convertPixels } from '../colorSpace';
+import Slate from '../slate';
+import { quantize } from './encoding';
+import encodeEXR from './exr';
+import encodeHDR from './hdr';
+import encodePNG from './png';
+import encodeTIFF from './tiff';
+
+export enum ExportFormat {
+    PNG8,
+    PNG16,
+    EXRHalf,
+    EXRFloat,
+    TIFF8,
+    TIFF16,
+    TIFFFloat,
+    HDR,
+}
+
+export interface ExportFormatInfo {
+    name: string;
+    extension: string;
+    mimeType: string;
+    integer: boolean; // integer formats are clamped to [0, 1] and can be dithered
+}
+
+export const EXPORT_FORMATS = [
+    ExportFormat.PNG8,
+    ExportFormat.PNG16,
+    ExportFormat.EXRHalf,
+    ExportFormat.EXRFloat,
+    ExportFormat.TIFF8,
+    ExportFormat.TIFF16,
+    ExportFormat.TIFFFloat,
+    ExportFormat.HDR,
+];
+
+export const EXPORT_FORMAT_INFO: { [format: number]: ExportFormatInfo } = {
+    [ExportFormat.PNG8]: {
+        name: 'PNG (8-bit)',
+        extension: 'png',
+        mimeType: 'image/png',
+        integer: true,
+    },
+    [ExportFormat.PNG16]: {
+        name: 'PNG (16-bit)',
+        extension: 'png',
+        mimeType: 'image/png',
+        integer: true,
+    },
+    [ExportFormat.EXRHalf]: {
+        name: 'OpenEXR (half)',
+        extension: 'exr',
+        mimeType: 'image/x-exr',
+        integer: false,
+    },
+    [ExportFormat.EXRFloat]: {
+        name: 'OpenEXR (float)',
+        extension: 'exr',
+        mimeType: 'image/x-exr',
+        integer: false,
+    },
+    [ExportFormat.TIFF8]: {
+        name: 'TIFF (8-bit)',
+        extension: 'tiff',
+        mimeType: 'image/tiff',
+        integer: true,
+    },
+    [ExportFormat.TIFF16]: {
+        name: 'TIFF (16-bit)',
+        extension: 'tiff',
+        mimeType: 'image/tiff',
+        integer: true,
+    },
+    [ExportFormat.TIFFFloat]: {
+        name: 'TIFF (float)',
+        extension: 'tiff',
+        mimeType: 'image/tiff',
+        integer: false,
+    },
+    [ExportFormat.HDR]: {
+        name: 'Radiance HDR',
+        extension: 'hdr',
+        mimeType: 'image/vnd.radiance',
+        integer: false,
+    },
+};
+
+export interface ExportOptions {
+    format: ExportFormat;
+    channel: Channel;
+    layer: number; // index into the slate's layers, -1 for the composited stack
+    dither: boolean;
+}
+
+// get straight-alpha linear RGBA for a channel of the slate, single values are repeated across RGB
+// colors are converted from the working space to Rec.709, which is what PNG, TIFF and EXR readers assume
+export function getExportPixels(slate: Slate, channel: Channel, layer: number) {
+    const pixelCount = slate.width * slate.height;
+    const pixels = new Float32Array(pixelCount * 4);
+
+    let source: Float32Array;
+    if (layer < 0) {
+        source = slate.composite(channel);
+    } else if (slate.layers[layer].hasChannel(channel)) {
+        source = slate.layers[layer].channels[channel];
+    } else {
+        return pixels; // nothing painted, fully transparent
+    }
+
+    const stride = channelStride(channel);
+    const components = CHANNEL_INFO[channel].components;
+
+    for (let i = 0; i < pixelCount; i++) {
+        for (let c = 0; c < 3; c++) {
+            pixels[i * 4 + c] =
+                source[i * stride + Math.min(c, components - 1)];
+        }
+        pixels[i * 4 + 3] = source[i * stride + components];
+    }
+
+    if (CHANNEL_INFO[channel].color) {
+        convertPixels(pixels, 4, slate.workingSpace, ColorSpace.LinearRec709);
+    }
+
+    return pixels;
+}
+
+export async function exportSlate(
+    slate: Slate,
+    options: ExportOptions
+): Promise<Blob> {
+    const { width, height } = slate;
+    const pixels = getExportPixels(slate, options.channel, options.layer);
+
+    // data channels like normals and roughness are written as-is
+    const srgb = CHANNEL_INFO[options.channel].color;
+
+    let data: Uint8Array;
+    switch (options.format) {
+        case ExportFormat.PNG8:
+        case ExportFormat.PNG16: {
+            const bits = options.format === ExportFormat.PNG8 ? 8 : 16;
+            const samples = quantize(pixels, bits, srgb, options.dither);
+            data = await encodePNG(width, height, samples, srgb);
+            break;
+        }
+        case ExportFormat.EXRHalf:
+        case ExportFormat.EXRFloat:
+            data = await encodeEXR(
+                width,
+                height,
+                pixels,
+                options.format === ExportFormat.EXRHalf
+            );
+            break;
+        case ExportFormat.TIFF8:
+        case ExportFormat.TIFF16: {
+            const bits = options.format === ExportFormat.TIFF8 ? 8 : 16;
+            const samples = quantize(pixels, bits, srgb, options.dither);
+            data = encodeTIFF(width, height, samples);
+            break;
+        }
+        case ExportFormat.TIFFFloat:
+            data = encodeTIFF(width, height, pixels);
+            break;
+        case ExportFormat.HDR:
+            data = encodeHDR(width, height, pixels);
+            break;
+    }
+
+    return new Blob([data], {
+        type: EXPORT_FORMAT_INFO[options.format].mimeType,
+    });
+}
+
+export function getExportFilename(slate: Slate, options: ExportOptions) {
+    const source =
+        options.layer < 0 ? 'texture' : slate.layers[options.layer].name;
+    const channel = CHANNEL_INFO[options.channel].name;
+
+    return `${source}_${channel}.${
+        EXPORT_FORMAT_INFO[options.format].extension
+    }`.replace(/\s+/g, '_');
+}
@@ -0,0 +1,76 @@
+// PNG writer for 8 and 16-bit RGBA
+
+import { concat, crc32, deflate } from '../../binary';
+
+const SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const chunk = (type: string, data: Uint8Array) => {
+    const out = new Uint8Array(data.length + 12);
+    const view = new DataView(out.buffer);
+
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) {
+        out[4 + i] = type.charCodeAt(i);
+    }
+    out.set(data, 8);
+
+    // the CRC covers the type and the data
+    view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+
+    return out;
+};
+
+// `samples` is RGBA, one element per sample
+// `srgb` marks the samples as sRGB encoded color, leave it off for data like normal maps
+export default async function encodePNG(
+    width: number,
+    height: number,
+    samples: Uint8Array | Uint16Array,
+    srgb: boolean
+): Promise<Uint8Array> {
+    const bits = samples instanceof Uint8Array ? 8 : 16;
+    const bytesPerPixel = (4 * bits) / 8;
+    const rowLength = width * bytesPerPixel;
+
+    // samples as big-endian bytes, each row prefixed with its filter type
+    const raw = new Uint8Array((rowLength + 1) * height);
+    const row = new Uint8Array(rowLength);
+    for (let y = 0; y < height; y++) {
+        if (bits === 8) {
+            row.set(samples.subarray(y * width * 4, (y + 1) * width * 4));
+        } else {
+            for (let i = 0; i < width * 4; i++) {
+                const value = samples[y * width * 4 + i];
+                row[i * 2] = value >> 8;
+                row[i * 2 + 1] = value & 0xff;
+            }
+        }
+
+        // the Sub filter stores each byte as the difference from the same byte of the pixel to the left
+        const offset = y * (rowLength + 1);
+        raw[offset] = 1;
+        for (let i = 0; i < rowLength; i++) {
+            const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+            raw[offset + 1 + i] = (row[i] - left) & 0xff;
+        }
+    }
+
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, width);
+    headerView.setUint32(4, height);
+    header[8] = bits;
+    header[9] = 6; // truecolor with alpha
+    header[10] = 0; // deflate
+    header[11] = 0; // adaptive filtering
+    header[12] = 0; // no interlacing
+
+    const chunks = [new Uint8Array(SIGNATURE), chunk('IHDR', header)];
+    if (srgb) {
+        chunks.push(chunk('sRGB', new Uint8Array([0]))); // perceptual rendering intent
+    }
+    chunks.push(chunk('IDAT', await deflate(raw)));
+    chunks.push(chunk('IEND', new Uint8Array(0)));
+
+    return concat(chunks);
+}
@@ -0,0 +1,171 @@
+// Baseline little-endian TIFF writer for 8/16-bit integer or 32-bit float RGBA
+// strips are left uncompressed since our own libtiff build (and plenty of others) can't read deflate
+
+import { concat } from '../../binary';
+
+enum FieldType {
+    Short = 3,
+    Long = 4,
+    Rational = 5,
+}
+
+enum Tag {
+    ImageWidth = 256,
+    ImageLength = 257,
+    BitsPerSample = 258,
+    Compression = 259,
+    PhotometricInterpretation = 262,
+    StripOffsets = 273,
+    SamplesPerPixel = 277,
+    RowsPerStrip = 278,
+    StripByteCounts = 279,
+    XResolution = 282,
+    YResolution = 283,
+    PlanarConfiguration = 284,
+    ResolutionUnit = 296,
+    ExtraSamples = 338,
+    SampleFormat = 339,
+}
+
+const NO_COMPRESSION = 1;
+const PHOTOMETRIC_RGB = 2;
+const UNASSOCIATED_ALPHA = 2;
+
+enum SampleFormat {
+    Uint = 1,
+    Float = 3,
+}
+
+interface Entry {
+    tag: Tag;
+    type: FieldType;
+    values: number[];
+}
+
+const TYPE_SIZE = {
+    [FieldType.Short]: 2,
+    [FieldType.Long]: 4,
+    [FieldType.Rational]: 8,
+};
+
+// `samples` is straight-alpha RGBA, one element per sample
+export default function encodeTIFF(
+    width: number,
+    height: number,
+    samples: Uint8Array | Uint16Array | Float32Array
+): Uint8Array {
+    const bits = samples.BYTES_PER_ELEMENT * 8;
+    const format =
+        samples instanceof Float32Array
+            ? SampleFormat.Float
+            : SampleFormat.Uint;
+
+    // typed arrays are little-endian on every platform we run on
+    const data = new Uint8Array(
+        samples.buffer,
+        samples.byteOffset,
+        samples.byteLength
+    );
+
+    const entries: Entry[] = [
+        { tag: Tag.ImageWidth, type: FieldType.Long, values: [width] },
+        { tag: Tag.ImageLength, type: FieldType.Long, values: [height] },
+        {
+            tag: Tag.BitsPerSample,
+            type: FieldType.Short,
+            values: [bits, bits, bits, bits],
+        },
+        {
+            tag: Tag.Compression,
+            type: FieldType.Short,
+            values: [NO_COMPRESSION],
+        },
+        {
+            tag: Tag.PhotometricInterpretation,
+            type: FieldType.Short,
+            values: [PHOTOMETRIC_RGB],
+        },
+        { tag: Tag.StripOffsets, type: FieldType.Long, values: [0] }, // filled in below
+        { tag: Tag.SamplesPerPixel, type: FieldType.Short, values: [4] },
+        { tag: Tag.RowsPerStrip, type: FieldType.Long, values: [height] },
+        {
+            tag: Tag.StripByteCounts,
+            type: FieldType.Long,
+            values: [data.length],
+        },
+        { tag: Tag.XResolution, type: FieldType.Rational, values: [72, 1] },
+        { tag: Tag.YResolution, type: FieldType.Rational, values: [72, 1] },
+        { tag: Tag.PlanarConfiguration, type: FieldType.Short, values: [1] },
+        { tag: Tag.ResolutionUnit, type: FieldType.Short, values: [2] }, // inches
+        {
+            tag: Tag.ExtraSamples,
+            type: FieldType.Short,
+            values: [UNASSOCIATED_ALPHA],
+        },
+        {
+            tag: Tag.SampleFormat,
+            type: FieldType.Short,
+            values: [format, format, format, format],
+        },
+    ];
+
+    // header, then the directory, then values too big to fit in an entry, then the strip
+    const directorySize = 2 + entries.length * 12 + 4;
+    let extraSize = 0;
+    for (const entry of entries) {
+        const size = valueSize(entry);
+        if (size > 4) extraSize += size;
+    }
+    const stripOffset = 8 + directorySize + extraSize;
+    entries.find((e) => e.tag === Tag.StripOffsets).values[0] = stripOffset;
+
+    const header = new DataView(new ArrayBuffer(8 + directorySize + extraSize));
+    header.setUint8(0, 0x49); // II, little-endian
+    header.setUint8(1, 0x49);
+    header.setUint16(2, 42, true);
+    header.setUint32(4, 8, true); // first directory
+
+    header.setUint16(8, entries.length, true);
+    let entryOffset = 10;
+    let extraOffset = 8 + directorySize;
+
+    for (const entry of entries) {
+        header.setUint16(entryOffset, entry.tag, true);
+        header.setUint16(entryOffset + 2, entry.type, true);
+        header.setUint32(
+            entryOffset + 4,
+            entry.type === FieldType.Rational
+                ? entry.values.length / 2
+                : entry.values.length,
+            true
+        );
+
+        // small values are stored in the entry itself
+        let valueOffset = entryOffset + 8;
+        if (valueSize(entry) > 4) {
+            header.setUint32(entryOffset + 8, extraOffset, true);
+            valueOffset = extraOffset;
+            extraOffset += valueSize(entry);
+        }
+
+        for (const value of entry.values) {
+            if (entry.type === FieldType.Short) {
+                header.setUint16(valueOffset, value, true);
+                valueOffset += 2;
+            } else {
+                header.setUint32(valueOffset, value, true);
+                valueOffset += 4;
+            }
+        }
+
+        entryOffset += 12;
+    }
+    header.setUint32(entryOffset, 0, true); // no more directories
+
+    return concat([new Uint8Array(header.buffer), data]);
+}
+
+const valueSize = (entry: Entry) =>
+    entry.type === FieldType.Rational
+        ? (entry.values.length / 2) * TYPE_SIZE[entry.type]
+        : entry.values.length * TYPE_SIZE[entry.type];
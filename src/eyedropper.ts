@@ -0,0 +1,74 @@
+// Picking the brush color from the image
+
+import { vec3 } from 'gl-matrix';
+import { Channel } from './channels';
+import { ColorSpace, convertColor } from './colorSpace';
+import { clampRect, isEmptyRect } from './rect';
+import type Slate from './slate';
+
+export enum EyedropperSource {
+    ActiveLayer,
+    AllLayers,
+}
+
+export const EYEDROPPER_SOURCE_NAMES: { [source: number]: string } = {
+    [EyedropperSource.ActiveLayer]: 'Current layer',
+    [EyedropperSource.AllLayers]: 'All layers',
+};
+
+// widths of the square of pixels averaged
+export const EYEDROPPER_SIZES = [1, 3, 5];
+
+export interface EyedropperSettings {
+    size: number;
+    source: EyedropperSource;
+}
+
+export const DEFAULT_EYEDROPPER: EyedropperSettings = {
+    size: 1,
+    source: EyedropperSource.AllLayers,
+};
+
+// the sRGB albedo around pixel (x, y) weighted by alpha, or null if there's nothing there to pick
+export function sampleColor(
+    slate: Slate,
+    x: number,
+    y: number,
+    settings: EyedropperSettings
+): vec3 {
+    const half = Math.floor(settings.size / 2);
+    const rect = clampRect(
+        { x0: x - half, y0: y - half, x1: x + half + 1, y1: y + half + 1 },
+        slate.width,
+        slate.height
+    );
+    if (isEmptyRect(rect)) return null;
+
+    let pixels: Float32Array;
+    if (settings.source === EyedropperSource.AllLayers) {
+        pixels = slate.composite(Channel.Albedo, rect);
+    } else if (slate.activeLayer.hasChannel(Channel.Albedo)) {
+        pixels = slate.activeLayer.getChannel(Channel.Albedo);
+    } else {
+        return null;
+    }
+
+    // average premultiplied so transparent pixels don't darken the result
+    const sum = vec3.create();
+    let alpha = 0;
+    for (let py = rect.y0; py < rect.y1; py++) {
+        for (let px = rect.x0; px < rect.x1; px++) {
+            const index = (py * slate.width + px) * 4;
+            const a = pixels[index + 3];
+            sum[0] += pixels[index] * a;
+            sum[1] += pixels[index + 1] * a;
+            sum[2] += pixels[index + 2] * a;
+            alpha += a;
+        }
+    }
+
+    if (alpha <= 0) return null;
+
+    vec3.scale(sum, sum, 1 / alpha);
+    return convertColor(sum, slate.workingSpace, ColorSpace.Srgb);
+}
@@ -0,0 +1,364 @@
+// Drawing dabs on the GPU, as instanced quads blended into float tiles that mirror a StrokeBuffer's coverage
+// GpuStroke paints the coverage into the view while the stroke goes on, and it's only read back into the StrokeBuffer
+// once the stroke ends, which then paints the layer the same way as with CPU dabs.
+// The coverage stays 32 bit float even where half float textures work, since it ends up in the layer.
+
+import BrushTip from './brushTip';
+import { Dab, dabBounds, DabShape } from './dab';
+import TilePool, { Tile, tilesInRect, TILE_SIZE } from './gpuTiles';
+import { isEmptyRect, Rect } from './rect';
+import loadShaderProgram, { Shader } from './shaders';
+import type StrokeBuffer from './strokeBuffer';
+
+import vertDabShader from './shaders/dabShader/vert.glsl';
+import fragDabShader from './shaders/dabShader/frag.glsl';
+
+// floats per instance: aDab, aDabShape and aOpacity
+const INSTANCE_SIZE = 9;
+
+export default class GpuDabs {
+    private gl: WebGLRenderingContext;
+    private instancing: ANGLE_instanced_arrays;
+    private minMax: EXT_blend_minmax;
+
+    private shader: Shader;
+    private cornerBuffer: WebGLBuffer;
+    private instanceBuffer: WebGLBuffer;
+    private instances: Float32Array;
+
+    private framebuffer: WebGLFramebuffer;
+    private pool: TilePool;
+    private tiles: Map<number, WebGLTexture>; // only the ones dabs have reached
+    private width: number;
+    private height: number;
+
+    private tipTexture: WebGLTexture;
+    private tip: BrushTip; // the tip in tipTexture
+
+    private readback: Float32Array;
+
+    // null if the GPU can't render and read back float coverage, in which case dabs are drawn on the CPU
+    static create(gl: WebGLRenderingContext) {
+        if (!gl) return null;
+
+        const instancing = gl.getExtension('ANGLE_instanced_arrays');
+        const minMax = gl.getExtension('EXT_blend_minmax');
+        const floatTextures = gl.getExtension('OES_texture_float');
+        const floatBuffers = gl.getExtension('WEBGL_color_buffer_float');
+        if (!instancing || !minMax || !floatTextures || !floatBuffers) {
+            return null;
+        }
+
+        try {
+            return new GpuDabs(gl, instancing, minMax);
+        } catch (e) {
+            console.warn('drawing brush dabs on the CPU', e);
+            return null;
+        }
+    }
+
+    private constructor(
+        gl: WebGLRenderingContext,
+        instancing: ANGLE_instanced_arrays,
+        minMax: EXT_blend_minmax
+    ) {
+        this.gl = gl;
+        this.instancing = instancing;
+        this.minMax = minMax;
+
+        this.shader = loadShaderProgram(gl, vertDabShader, fragDabShader);
+
+        this.cornerBuffer = gl.createBuffer();
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.cornerBuffer);
+        gl.bufferData(
+            gl.ARRAY_BUFFER,
+            new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]),
+            gl.STATIC_DRAW
+        );
+
+        this.instanceBuffer = gl.createBuffer();
+        this.instances = new Float32Array(INSTANCE_SIZE * 64);
+
+        this.framebuffer = gl.createFramebuffer();
+        this.pool = new TilePool(gl, gl.FLOAT);
+        this.tiles = new Map();
+        this.width = 0;
+        this.height = 0;
+
+        // round brushes never sample the tip, but the texture still has to be complete
+        this.tipTexture = gl.createTexture();
+        this.uploadTip(new BrushTip('none', 1, 1, new Float32Array(1)));
+
+        this.readback = new Float32Array(0);
+
+        // some browsers expose the extension but still can't render to float textures
+        const texture = this.pool.take();
+        gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+        gl.framebufferTexture2D(
+            gl.FRAMEBUFFER,
+            gl.COLOR_ATTACHMENT0,
+            gl.TEXTURE_2D,
+            texture,
+            0
+        );
+        const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        this.pool.give(texture);
+        if (status !== gl.FRAMEBUFFER_COMPLETE) {
+            throw new Error(`float framebuffer incomplete (${status})`);
+        }
+    }
+
+    // start a new stroke on a `width` x `height` image, with nothing covered yet
+    begin(width: number, height: number) {
+        this.end();
+        this.width = width;
+        this.height = height;
+    }
+
+    // the coverage in the tile with `key`, in the same layout as a StrokeBuffer's: opacity in red,
+    // uncovered in alpha. Undefined if no dab has reached the tile, so nothing is covered there.
+    tile(key: number) {
+        return this.tiles.get(key);
+    }
+
+    draw(dabs: Dab[], shape: DabShape) {
+        const gl = this.gl;
+        const { attributes, uniforms } = this.shader;
+
+        // every dab is drawn into every tile any of them reach, the GPU clips whatever's outside
+        const tiles = new Map<number, Tile>();
+        for (const dab of dabs) {
+            const { x0, y0, x1, y1 } = dabBounds(dab, shape);
+            const bounds = { x0, y0, x1: x1 + 1, y1: y1 + 1 };
+            for (const tile of tilesInRect(bounds, this.width, this.height)) {
+                tiles.set(tile.key, tile);
+            }
+        }
+
+        const count = this.fillInstances(dabs);
+        if (count > 0 && tiles.size > 0) {
+            gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+            gl.viewport(0, 0, TILE_SIZE, TILE_SIZE);
+            gl.scissor(0, 0, TILE_SIZE, TILE_SIZE);
+            gl.disable(gl.CULL_FACE);
+            gl.clearColor(0, 0, 0, 1); // no opacity yet, and all of each pixel left uncovered
+
+            gl.blendEquationSeparate(this.minMax.MAX_EXT, gl.FUNC_ADD);
+            gl.blendFuncSeparate(
+                gl.ONE,
+                gl.ONE,
+                gl.ZERO,
+                gl.ONE_MINUS_SRC_ALPHA
+            );
+
+            gl.useProgram(this.shader.program);
+            gl.uniform2f(uniforms.uSize, TILE_SIZE, TILE_SIZE);
+            gl.uniform1f(uniforms.uExtent, shape.tip ? Math.SQRT2 : 1);
+            gl.uniform1f(uniforms.uRoundness, shape.roundness);
+            gl.uniform1i(uniforms.uHasTip, shape.tip ? 1 : 0);
+
+            if (shape.tip) {
+                this.uploadTip(shape.tip);
+                gl.uniform2f(
+                    uniforms.uTipSize,
+                    shape.tip.width,
+                    shape.tip.height
+                );
+            }
+            gl.activeTexture(gl.TEXTURE0);
+            gl.bindTexture(gl.TEXTURE_2D, this.tipTexture);
+            gl.uniform1i(uniforms.uTip, 0);
+
+            gl.bindBuffer(gl.ARRAY_BUFFER, this.cornerBuffer);
+            gl.enableVertexAttribArray(attributes.aCorner);
+            gl.vertexAttribPointer(
+                attributes.aCorner,
+                2,
+                gl.FLOAT,
+                false,
+                0,
+                0
+            );
+
+            gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+            gl.bufferData(
+                gl.ARRAY_BUFFER,
+                this.instances.subarray(0, count * INSTANCE_SIZE),
+                gl.STREAM_DRAW
+            );
+
+            const stride = INSTANCE_SIZE * 4;
+            const instanced: [string, number, number][] = [
+                ['aDab', 4, 0],
+                ['aDabShape', 4, 16],
+                ['aOpacity', 1, 32],
+            ];
+            for (const [name, size, offset] of instanced) {
+                gl.enableVertexAttribArray(attributes[name]);
+                gl.vertexAttribPointer(
+                    attributes[name],
+                    size,
+                    gl.FLOAT,
+                    false,
+                    stride,
+                    offset
+                );
+                this.instancing.vertexAttribDivisorANGLE(attributes[name], 1);
+            }
+
+            tiles.forEach(({ key, rect }) => {
+                let texture = this.tiles.get(key);
+                const fresh = !texture;
+                if (fresh) {
+                    texture = this.pool.take();
+                    this.tiles.set(key, texture);
+                }
+
+                gl.framebufferTexture2D(
+                    gl.FRAMEBUFFER,
+                    gl.COLOR_ATTACHMENT0,
+                    gl.TEXTURE_2D,
+                    texture,
+                    0
+                );
+                if (fresh) {
+                    gl.clear(gl.COLOR_BUFFER_BIT);
+                }
+
+                gl.uniform2f(uniforms.uOrigin, rect.x0, rect.y0);
+                this.instancing.drawArraysInstancedANGLE(
+                    gl.TRIANGLE_STRIP,
+                    0,
+                    4,
+                    count
+                );
+            });
+
+            // leave the attributes how the other shaders expect them
+            for (const [name] of instanced) {
+                this.instancing.vertexAttribDivisorANGLE(attributes[name], 0);
+                gl.disableVertexAttribArray(attributes[name]);
+            }
+            gl.disableVertexAttribArray(attributes.aCorner);
+
+            gl.blendEquation(gl.FUNC_ADD);
+            gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+            gl.enable(gl.CULL_FACE);
+            gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        }
+    }
+
+    // one instance per dab, plus one for the mark a brush smaller than a pixel leaves
+    private fillInstances(dabs: Dab[]) {
+        const needed = dabs.length * 2 * INSTANCE_SIZE;
+        if (this.instances.length < needed) {
+            this.instances = new Float32Array(needed);
+        }
+
+        let count = 0;
+        const add = (dab: Dab, mark: number) => {
+            this.instances.set(
+                [
+                    dab.x,
+                    dab.y,
+                    dab.radius,
+                    mark,
+                    Math.cos(dab.angle),
+                    Math.sin(dab.angle),
+                    dab.hardness,
+                    dab.flow,
+                    dab.opacity,
+                ],
+                count * INSTANCE_SIZE
+            );
+            count++;
+        };
+
+        for (const dab of dabs) {
+            if (dab.radius < 0.5) add(dab, 1);
+            if (dab.radius > 0) add(dab, 0);
+        }
+        return count;
+    }
+
+    // copy the coverage in `rect` back into `buffer`, this waits for the GPU so it's only done once a stroke ends
+    // tiles no dab reached are left alone, the buffer starts every stroke uncovered
+    read(buffer: StrokeBuffer, rect: Rect) {
+        const gl = this.gl;
+        if (isEmptyRect(rect)) return;
+
+        if (this.readback.length < TILE_SIZE * TILE_SIZE * 4) {
+            this.readback = new Float32Array(TILE_SIZE * TILE_SIZE * 4);
+        }
+
+        gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+        for (const tile of tilesInRect(rect, this.width, this.height)) {
+            const texture = this.tiles.get(tile.key);
+            if (!texture) continue;
+
+            const x0 = Math.max(rect.x0, tile.rect.x0);
+            const y0 = Math.max(rect.y0, tile.rect.y0);
+            const width = Math.min(rect.x1, tile.rect.x1) - x0;
+            const height = Math.min(rect.y1, tile.rect.y1) - y0;
+
+            gl.framebufferTexture2D(
+                gl.FRAMEBUFFER,
+                gl.COLOR_ATTACHMENT0,
+                gl.TEXTURE_2D,
+                texture,
+                0
+            );
+            gl.readPixels(
+                x0 - tile.rect.x0,
+                y0 - tile.rect.y0,
+                width,
+                height,
+                gl.RGBA,
+                gl.FLOAT,
+                this.readback
+            );
+
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    const source = (y * width + x) * 4;
+                    const index = (y0 + y) * buffer.width + x0 + x;
+                    buffer.coverage[index * 2] = this.readback[source + 3];
+                    buffer.coverage[index * 2 + 1] = this.readback[source];
+                }
+            }
+        }
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    }
+
+    // give the stroke's tiles back once it's been read
+    end() {
+        this.tiles.forEach((texture) => this.pool.give(texture));
+        this.tiles.clear();
+    }
+
+    private uploadTip(tip: BrushTip) {
+        if (tip === this.tip) return;
+        this.tip = tip;
+
+        const gl = this.gl;
+        gl.bindTexture(gl.TEXTURE_2D, this.tipTexture);
+        gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+        gl.texImage2D(
+            gl.TEXTURE_2D,
+            0,
+            gl.LUMINANCE,
+            tip.width,
+            tip.height,
+            0,
+            gl.LUMINANCE,
+            gl.FLOAT,
+            tip.coverage
+        );
+        gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    }
+}
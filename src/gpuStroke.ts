@@ -0,0 +1,368 @@
+// Painting the stroke into the view on the GPU, so the layer is only painted on the CPU once the stroke ends
+// Tiles of the layers below the active one, the active layer from before the stroke and the layers above it are
+// copied into textures as the stroke reaches them, then composited with the stroke's coverage straight into the
+// slate's textures. Nothing is read back until the stroke ends.
+// The copies are only ever shown, so they're half float where the GPU has it.
+
+import { toHalf } from './binary';
+import { Channel, channelStride } from './channels';
+import type GpuDabs from './gpuDabs';
+import TilePool, { Tile, tilesInRect, TILE_SIZE } from './gpuTiles';
+import { BlendMode, compositeLayersIntoRect } from './layer';
+import { Rect } from './rect';
+import loadShaderProgram, { Shader } from './shaders';
+import type Slate from './slate';
+
+import vertStrokeShader from './shaders/strokeShader/vert.glsl';
+import fragStrokeShader from './shaders/strokeShader/frag.glsl';
+
+// everything needed to show one channel of the stroke
+interface StrokeChannel {
+    channel: Channel;
+    value: number[];
+    hasAbove: boolean; // whether any layer above the active one shows this channel
+    target: WebGLTexture; // the slate's texture
+    component: number; // of the target, -1 for all of them
+}
+
+// the copies of one channel in a tile
+interface ChannelTile {
+    below: WebGLTexture; // the layers under the active one, composited
+    active: WebGLTexture; // from before the stroke
+    above: WebGLTexture; // the layers over it composited, null if none of them show the channel
+}
+
+export default class GpuStroke {
+    private gl: WebGLRenderingContext;
+    private shader: Shader;
+    private quadBuffer: WebGLBuffer;
+    private framebuffer: WebGLFramebuffer;
+
+    private pool: TilePool;
+    private type: number; // of the copies, HALF_FLOAT_OES where the GPU has it
+
+    private slate: Slate;
+    private mode: number; // the stroke's BrushBlendMode
+    private channels: StrokeChannel[];
+    private tiles: Map<number, ChannelTile[]>; // the tiles the stroke has reached, by channel
+
+    private tileComposite: Float32Array;
+    private tilePixels: Float32Array | Uint16Array; // for uploading, in the type of the copies
+
+    // null if the GPU can't composite float layers, in which case strokes are painted on the CPU
+    static create(gl: WebGLRenderingContext) {
+        try {
+            return new GpuStroke(gl);
+        } catch (e) {
+            console.warn('painting strokes on the CPU', e);
+            return null;
+        }
+    }
+
+    private constructor(gl: WebGLRenderingContext) {
+        this.gl = gl;
+        this.shader = loadShaderProgram(gl, vertStrokeShader, fragStrokeShader);
+
+        this.quadBuffer = gl.createBuffer();
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+        gl.bufferData(
+            gl.ARRAY_BUFFER,
+            new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]),
+            gl.STATIC_DRAW
+        );
+
+        this.framebuffer = gl.createFramebuffer();
+
+        const halfFloat = gl.getExtension('OES_texture_half_float');
+        this.type = halfFloat ? halfFloat.HALF_FLOAT_OES : gl.FLOAT;
+        this.pool = new TilePool(gl, this.type);
+
+        this.slate = null;
+        this.mode = 0;
+        this.channels = [];
+        this.tiles = new Map();
+
+        this.tileComposite = new Float32Array(TILE_SIZE * TILE_SIZE * 4);
+        this.tilePixels = halfFloat
+            ? new Uint16Array(TILE_SIZE * TILE_SIZE * 4)
+            : new Float32Array(TILE_SIZE * TILE_SIZE * 4);
+    }
+
+    // whether a stroke painting `channels` of the slate's active layer can be shown
+    // the layers above it are composited into one texture, which only works if they all blend normally
+    canShow(slate: Slate, channels: Channel[]) {
+        return slate.layers
+            .slice(slate.activeLayerIndex + 1)
+            .every(
+                (layer) =>
+                    layer.blendMode === BlendMode.Normal ||
+                    !layer.visible ||
+                    layer.opacity <= 0 ||
+                    !channels.some((channel) => layer.hasChannel(channel))
+            );
+    }
+
+    // start a stroke painting `values` into `channels` of the slate's active layer
+    begin(
+        slate: Slate,
+        channels: Channel[],
+        values: { [channel: number]: number[] },
+        mode: number
+    ) {
+        this.end();
+
+        this.slate = slate;
+        this.mode = mode;
+
+        const above = slate.layers.slice(slate.activeLayerIndex + 1);
+        this.channels = channels.map((channel) => {
+            const [target, component] = slate.channelTexture(channel);
+            return {
+                channel,
+                value: values[channel],
+                hasAbove: above.some(
+                    (layer) =>
+                        layer.visible &&
+                        layer.opacity > 0 &&
+                        layer.hasChannel(channel)
+                ),
+                target,
+                component,
+            };
+        });
+    }
+
+    // show `rect` of the stroke with the coverage `dabs` have drawn
+    draw(rect: Rect, dabs: GpuDabs) {
+        const gl = this.gl;
+        const { attributes, uniforms } = this.shader;
+        const { slate } = this;
+
+        gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffer);
+        gl.viewport(0, 0, slate.width, slate.height);
+        gl.disable(gl.BLEND);
+        gl.disable(gl.CULL_FACE);
+
+        gl.useProgram(this.shader.program);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.quadBuffer);
+        gl.enableVertexAttribArray(attributes.aVertexPosition);
+        gl.vertexAttribPointer(
+            attributes.aVertexPosition,
+            2,
+            gl.FLOAT,
+            false,
+            0,
+            0
+        );
+
+        gl.uniform2f(uniforms.uImageSize, slate.width, slate.height);
+        gl.uniform1f(uniforms.uTileSize, TILE_SIZE);
+        gl.uniform1i(uniforms.uBase, 0);
+        gl.uniform1i(uniforms.uLayer, 1);
+        gl.uniform1i(uniforms.uAbove, 2);
+        gl.uniform1i(uniforms.uStroke, 3);
+        gl.uniform1i(uniforms.uHasSelection, slate.selection.active ? 1 : 0);
+        gl.uniform1i(uniforms.uBrushMode, this.mode);
+
+        const { activeLayer } = slate;
+        gl.uniform1f(
+            uniforms.uOpacity,
+            activeLayer.visible ? activeLayer.opacity : 0
+        );
+        gl.uniform1i(uniforms.uBlendMode, activeLayer.blendMode);
+
+        // without a selection its texture is never sampled, but it still has to be complete
+        if (slate.selection.active) {
+            gl.activeTexture(gl.TEXTURE4);
+            gl.bindTexture(gl.TEXTURE_2D, slate.selection.texture);
+            gl.uniform1i(uniforms.uSelection, 4);
+        } else {
+            gl.uniform1i(uniforms.uSelection, 3);
+        }
+
+        for (const tile of tilesInRect(rect, slate.width, slate.height)) {
+            const coverage = dabs.tile(tile.key);
+            if (!coverage) continue; // nothing covered, so nothing to show
+
+            let channelTiles = this.tiles.get(tile.key);
+            if (!channelTiles) {
+                channelTiles = this.prepareTile(tile);
+                this.tiles.set(tile.key, channelTiles);
+            }
+
+            const x0 = Math.max(rect.x0, tile.rect.x0);
+            const y0 = Math.max(rect.y0, tile.rect.y0);
+            gl.scissor(
+                x0,
+                y0,
+                Math.min(rect.x1, tile.rect.x1) - x0,
+                Math.min(rect.y1, tile.rect.y1) - y0
+            );
+            gl.uniform2f(uniforms.uOrigin, tile.rect.x0, tile.rect.y0);
+
+            gl.activeTexture(gl.TEXTURE3);
+            gl.bindTexture(gl.TEXTURE_2D, coverage);
+
+            this.channels.forEach(
+                ({ value, hasAbove, target, component }, i) => {
+                    const { below, active, above } = channelTiles[i];
+
+                    const [r, g, b] =
+                        value.length === 1
+                            ? [value[0], value[0], value[0]]
+                            : value;
+                    gl.uniform3f(uniforms.uValue, r, g, b);
+
+                    gl.framebufferTexture2D(
+                        gl.FRAMEBUFFER,
+                        gl.COLOR_ATTACHMENT0,
+                        gl.TEXTURE_2D,
+                        target,
+                        0
+                    );
+                    const split = component >= 0;
+                    gl.colorMask(
+                        !split || component === 0,
+                        !split || component === 1,
+                        !split || component === 2,
+                        !split || component === 3
+                    );
+                    gl.uniform1i(uniforms.uSplat, split ? 1 : 0);
+
+                    gl.activeTexture(gl.TEXTURE0);
+                    gl.bindTexture(gl.TEXTURE_2D, below);
+                    gl.activeTexture(gl.TEXTURE1);
+                    gl.bindTexture(gl.TEXTURE_2D, active);
+                    gl.activeTexture(gl.TEXTURE2);
+                    gl.bindTexture(gl.TEXTURE_2D, hasAbove ? above : below);
+                    gl.uniform1i(uniforms.uHasAbove, hasAbove ? 1 : 0);
+
+                    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+                }
+            );
+        }
+
+        gl.colorMask(true, true, true, true);
+        gl.framebufferTexture2D(
+            gl.FRAMEBUFFER,
+            gl.COLOR_ATTACHMENT0,
+            gl.TEXTURE_2D,
+            null,
+            0
+        );
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        gl.disableVertexAttribArray(attributes.aVertexPosition);
+        gl.activeTexture(gl.TEXTURE0);
+        gl.enable(gl.BLEND);
+        gl.enable(gl.CULL_FACE);
+    }
+
+    // the stroke has been painted into the layer, which the slate composites again
+    end() {
+        this.tiles.forEach((channelTiles) => {
+            for (const { below, active, above } of channelTiles) {
+                this.pool.give(below);
+                this.pool.give(active);
+                if (above) this.pool.give(above);
+            }
+        });
+        this.tiles.clear();
+
+        this.slate = null;
+        this.channels = [];
+    }
+
+    // copy each channel of the layers in `tile` into textures
+    private prepareTile({ rect }: Tile) {
+        const { slate } = this;
+        const index = slate.activeLayerIndex;
+        const tileRect = {
+            x0: 0,
+            y0: 0,
+            x1: rect.x1 - rect.x0,
+            y1: rect.y1 - rect.y0,
+        };
+
+        return this.channels.map(({ channel, hasAbove }) => {
+            const stride = channelStride(channel);
+
+            compositeLayersIntoRect(
+                this.tileComposite,
+                slate.layers.slice(0, index),
+                channel,
+                slate.width,
+                rect
+            );
+            const below = this.pool.take();
+            this.upload(below, this.tileComposite, stride, tileRect);
+
+            const active = this.pool.take();
+            this.upload(
+                active,
+                slate.activeLayer.getChannel(channel),
+                stride,
+                rect,
+                slate.width
+            );
+
+            let above: WebGLTexture = null;
+            if (hasAbove) {
+                // starting out transparent, so it can go over anything
+                compositeLayersIntoRect(
+                    this.tileComposite,
+                    slate.layers.slice(index + 1),
+                    channel,
+                    slate.width,
+                    rect,
+                    new Array(stride).fill(0)
+                );
+                above = this.pool.take();
+                this.upload(above, this.tileComposite, stride, tileRect);
+            }
+
+            return { below, active, above };
+        });
+    }
+
+    // upload `rect` of `pixels`, `width` pixels wide with `stride` values each, into the corner of `texture`
+    // scalar channels go in every component, and alpha always goes last
+    private upload(
+        texture: WebGLTexture,
+        pixels: Float32Array,
+        stride: number,
+        rect: Rect,
+        width = rect.x1 - rect.x0
+    ) {
+        const gl = this.gl;
+        const out = this.tilePixels;
+        const alphaOffset = stride - 1;
+        const half = this.type !== gl.FLOAT;
+
+        let o = 0;
+        for (let y = rect.y0; y < rect.y1; y++) {
+            for (let x = rect.x0; x < rect.x1; x++) {
+                const i = (y * width + x) * stride;
+                for (let c = 0; c < 3; c++) {
+                    const value = pixels[i + Math.min(c, alphaOffset - 1)];
+                    out[o + c] = half ? toHalf(value) : value;
+                }
+                const alpha = pixels[i + alphaOffset];
+                out[o + 3] = half ? toHalf(alpha) : alpha;
+                o += 4;
+            }
+        }
+
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texSubImage2D(
+            gl.TEXTURE_2D,
+            0,
+            0,
+            0,
+            rect.x1 - rect.x0,
+            rect.y1 - rect.y0,
+            gl.RGBA,
+            this.type,
+            out.subarray(0, o)
+        );
+    }
+}
@@ -0,0 +1,93 @@
+// Tiles for the parts of a stroke kept on the GPU, only allocated where the stroke goes
+// so a stroke over a small part of a large slate doesn't take textures the size of the whole slate
+
+import { clampRect, isEmptyRect, Rect } from './rect';
+
+export const TILE_SIZE = 256;
+
+// enough for an ordinary stroke, anything more a big one took is deleted once it ends
+const POOL_SIZE = 16;
+
+export interface Tile {
+    key: number; // the same for the same tile of any image this size
+    rect: Rect; // the part of the image it covers
+}
+
+// the tiles `rect` of a `width` x `height` image reaches into
+export function tilesInRect(rect: Rect, width: number, height: number) {
+    const { x0, y0, x1, y1 } = clampRect(rect, width, height);
+    const tiles: Tile[] = [];
+    if (isEmptyRect({ x0, y0, x1, y1 })) return tiles;
+
+    const tilesX = Math.ceil(width / TILE_SIZE);
+    for (
+        let tileY = Math.floor(y0 / TILE_SIZE);
+        tileY * TILE_SIZE < y1;
+        tileY++
+    ) {
+        for (
+            let tileX = Math.floor(x0 / TILE_SIZE);
+            tileX * TILE_SIZE < x1;
+            tileX++
+        ) {
+            const x = tileX * TILE_SIZE;
+            const y = tileY * TILE_SIZE;
+            tiles.push({
+                key: tileY * tilesX + tileX,
+                rect: clampRect(
+                    { x0: x, y0: y, x1: x + TILE_SIZE, y1: y + TILE_SIZE },
+                    width,
+                    height
+                ),
+            });
+        }
+    }
+    return tiles;
+}
+
+// RGBA textures a tile in size, of `type` like FLOAT or HALF_FLOAT_OES, reused from one stroke to the next
+export default class TilePool {
+    private gl: WebGLRenderingContext;
+    private type: number;
+    private free: WebGLTexture[];
+
+    constructor(gl: WebGLRenderingContext, type: number) {
+        this.gl = gl;
+        this.type = type;
+        this.free = [];
+    }
+
+    // the contents are whatever the last stroke left in it
+    take() {
+        const texture = this.free.pop();
+        if (texture) return texture;
+
+        const gl = this.gl;
+        const created = gl.createTexture();
+        gl.bindTexture(gl.TEXTURE_2D, created);
+        gl.texImage2D(
+            gl.TEXTURE_2D,
+            0,
+            gl.RGBA,
+            TILE_SIZE,
+            TILE_SIZE,
+            0,
+            gl.RGBA,
+            this.type,
+            null
+        );
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+        return created;
+    }
+
+    give(texture: WebGLTexture) {
+        if (this.free.length < POOL_SIZE) {
+            this.free.push(texture);
+        } else {
+            this.gl.deleteTexture(texture);
+        }
+    }
+}
@@ -0,0 +1,396 @@
+// Delta-based undo history
+// Instead of cloning whole images, each entry keeps the tiles that were touched since its checkpoint
+// plus a snapshot of whatever non-pixel state the owner wants restored (the layer stack for a Slate).
+// Applying an entry swaps its contents with the live state, so the same entry is used for undo and redo.
+
+export const TILE_SIZE = 64;
+
+interface TileDelta {
+    buffer: Float32Array;
+    bufferWidth: number;
+    components: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    data: Float32Array;
+    compressed: Uint32Array; // set instead of data once the entry is old enough
+}
+
+interface HistoryEntry<T> {
+    structure: T;
+    tiles: TileDelta[];
+    savedTiles: Map<Float32Array, Set<number>>; // tiles already saved per buffer while recording
+    bytes: number;
+}
+
+export default class History<T> {
+    maxBytes: number;
+    compressAfter: number; // entries this many steps behind the newest are compressed, 0 to disable
+
+    entries: HistoryEntry<T>[];
+    index: number; // number of entries that can be undone
+    bytes: number;
+
+    recording: HistoryEntry<T>;
+
+    // tiles modified since they were last taken, so autosave only has to write those
+    modifiedTiles: Map<Float32Array, Set<number>>;
+    modifiedTime: number;
+
+    applyStructure: (structure: T) => T;
+
+    // `applyStructure` restores a snapshot and returns a snapshot of the state it replaced
+    constructor(
+        applyStructure: (structure: T) => T,
+        maxBytes: number,
+        compressAfter: number
+    ) {
+        this.applyStructure = applyStructure;
+        this.maxBytes = maxBytes;
+        this.compressAfter = compressAfter;
+
+        this.modifiedTiles = new Map();
+        this.modifiedTime = 0;
+
+        this.reset();
+    }
+
+    reset() {
+        this.entries = [];
+        this.index = 0;
+        this.bytes = 0;
+        this.recording = null;
+    }
+
+    // start a new undo step, dropping anything that could have been redone
+    checkpoint(structure: T) {
+        for (let i = this.index; i < this.entries.length; i++) {
+            this.bytes -= this.entries[i].bytes;
+        }
+        this.entries.length = this.index;
+
+        this.recording = {
+            structure,
+            tiles: [],
+            savedTiles: new Map(),
+            bytes: 0,
+        };
+        this.entries.push(this.recording);
+        this.index++;
+
+        this.compressOldEntries();
+        this.evict();
+    }
+
+    // save every tile of `buffer` overlapping [x0, x1) x [y0, y1) that isn't saved yet
+    // this has to be called before the pixels are modified
+    touch(
+        buffer: Float32Array,
+        bufferWidth: number,
+        bufferHeight: number,
+        components: number,
+        x0: number,
+        y0: number,
+        x1: number,
+        y1: number
+    ) {
+        this.markRectModified(
+            buffer,
+            bufferWidth,
+            bufferHeight,
+            x0,
+            y0,
+            x1,
+            y1
+        );
+
+        const tilesX = Math.ceil(bufferWidth / TILE_SIZE);
+        const startX = Math.max(Math.floor(x0 / TILE_SIZE), 0);
+        const startY = Math.max(Math.floor(y0 / TILE_SIZE), 0);
+        const endX = Math.min(Math.ceil(x1 / TILE_SIZE), tilesX);
+        const endY = Math.min(
+            Math.ceil(y1 / TILE_SIZE),
+            Math.ceil(bufferHeight / TILE_SIZE)
+        );
+
+        const entry = this.recording;
+        if (!entry) return;
+
+        let saved = entry.savedTiles.get(buffer);
+        if (!saved) {
+            saved = new Set();
+            entry.savedTiles.set(buffer, saved);
+        }
+
+        for (let tileY = startY; tileY < endY; tileY++) {
+            for (let tileX = startX; tileX < endX; tileX++) {
+                const key = tileY * tilesX + tileX;
+                if (saved.has(key)) continue;
+                saved.add(key);
+
+                const x = tileX * TILE_SIZE;
+                const y = tileY * TILE_SIZE;
+                const tile: TileDelta = {
+                    buffer,
+                    bufferWidth,
+                    components,
+                    x,
+                    y,
+                    width: Math.min(TILE_SIZE, bufferWidth - x),
+                    height: Math.min(TILE_SIZE, bufferHeight - y),
+                    data: null,
+                    compressed: null,
+                };
+                tile.data = new Float32Array(
+                    tile.width * tile.height * components
+                );
+                readTile(tile);
+
+                entry.tiles.push(tile);
+                entry.bytes += tile.data.byteLength;
+                this.bytes += tile.data.byteLength;
+            }
+        }
+
+        this.evict();
+    }
+
+    // like touch, but only for autosave, for changes undo can't go back past
+    markRectModified(
+        buffer: Float32Array,
+        bufferWidth: number,
+        bufferHeight: number,
+        x0: number,
+        y0: number,
+        x1: number,
+        y1: number
+    ) {
+        const tilesX = Math.ceil(bufferWidth / TILE_SIZE);
+        const startX = Math.max(Math.floor(x0 / TILE_SIZE), 0);
+        const startY = Math.max(Math.floor(y0 / TILE_SIZE), 0);
+        const endX = Math.min(Math.ceil(x1 / TILE_SIZE), tilesX);
+        const endY = Math.min(
+            Math.ceil(y1 / TILE_SIZE),
+            Math.ceil(bufferHeight / TILE_SIZE)
+        );
+
+        for (let tileY = startY; tileY < endY; tileY++) {
+            for (let tileX = startX; tileX < endX; tileX++) {
+                this.markModified(buffer, tileY * tilesX + tileX);
+            }
+        }
+    }
+
+    private markModified(buffer: Float32Array, key: number) {
+        let modified = this.modifiedTiles.get(buffer);
+        if (!modified) {
+            modified = new Set();
+            this.modifiedTiles.set(buffer, modified);
+        }
+        modified.add(key);
+        this.modifiedTime = performance.now();
+    }
+
+    // get the tiles modified since the last call, keyed the same way as `touch`
+    takeModifiedTiles() {
+        const modified = this.modifiedTiles;
+        this.modifiedTiles = new Map();
+        return modified;
+    }
+
+    // account for memory kept alive by an entry's structure, like a deleted layer
+    retain(bytes: number) {
+        if (!this.recording) return;
+
+        this.recording.bytes += bytes;
+        this.bytes += bytes;
+        this.evict();
+    }
+
+    canUndo() {
+        return this.index > 0;
+    }
+
+    canRedo() {
+        return this.index < this.entries.length;
+    }
+
+    undo() {
+        if (!this.canUndo()) return false;
+
+        this.index--;
+        this.apply(this.entries[this.index]);
+        return true;
+    }
+
+    redo() {
+        if (!this.canRedo()) return false;
+
+        this.apply(this.entries[this.index]);
+        this.index++;
+        return true;
+    }
+
+    private apply(entry: HistoryEntry<T>) {
+        this.recording = null;
+
+        for (let i = 0; i < entry.tiles.length; i++) {
+            const tile = entry.tiles[i];
+            if (tile.compressed) {
+                const bytes = tile.compressed.byteLength;
+                tile.data = decompress(
+                    tile.compressed,
+                    tile.width * tile.height * tile.components
+                );
+                tile.compressed = null;
+
+                this.updateBytes(entry, tile.data.byteLength - bytes);
+            }
+            swapTile(tile);
+
+            const tilesX = Math.ceil(tile.bufferWidth / TILE_SIZE);
+            this.markModified(
+                tile.buffer,
+                (tile.y / TILE_SIZE) * tilesX + tile.x / TILE_SIZE
+            );
+        }
+
+        entry.structure = this.applyStructure(entry.structure);
+    }
+
+    private updateBytes(entry: HistoryEntry<T>, delta: number) {
+        entry.bytes += delta;
+        this.bytes += delta;
+    }
+
+    private compressOldEntries() {
+        if (this.compressAfter <= 0) return;
+
+        const last = this.entries.length - 1 - this.compressAfter;
+        for (let i = 0; i <= last; i++) {
+            const entry = this.entries[i];
+
+            for (let j = 0; j < entry.tiles.length; j++) {
+                const tile = entry.tiles[j];
+                if (tile.compressed) continue;
+
+                tile.compressed = compress(tile.data);
+                this.updateBytes(
+                    entry,
+                    tile.compressed.byteLength - tile.data.byteLength
+                );
+                tile.data = null;
+            }
+        }
+    }
+
+    // drop the oldest undo steps until we're within budget, never the one being recorded
+    private evict() {
+        while (this.bytes > this.maxBytes && this.index > 0) {
+            const oldest = this.entries[0];
+            if (oldest === this.recording) break;
+
+            this.entries.shift();
+            this.bytes -= oldest.bytes;
+            this.index--;
+        }
+    }
+}
+
+// copy the pixels currently in the tile's buffer into the tile
+const readTile = (tile: TileDelta) => {
+    const rowLength = tile.width * tile.components;
+    const stride = tile.bufferWidth * tile.components;
+    let bufferIndex = (tile.y * tile.bufferWidth + tile.x) * tile.components;
+
+    for (let row = 0; row < tile.height; row++) {
+        tile.data.set(
+            tile.buffer.subarray(bufferIndex, bufferIndex + rowLength),
+            row * rowLength
+        );
+        bufferIndex += stride;
+    }
+};
+
+// exchange the tile's saved pixels with the pixels currently in its buffer
+const swapTile = (tile: TileDelta) => {
+    const rowLength = tile.width * tile.components;
+    const stride = tile.bufferWidth * tile.components;
+    let bufferIndex = (tile.y * tile.bufferWidth + tile.x) * tile.components;
+    let tileIndex = 0;
+
+    for (let row = 0; row < tile.height; row++) {
+        for (let i = 0; i < rowLength; i++) {
+            const value = tile.buffer[bufferIndex + i];
+            tile.buffer[bufferIndex + i] = tile.data[tileIndex];
+            tile.data[tileIndex++] = value;
+        }
+        bufferIndex += stride;
+    }
+};
+
+// lossless run-length encoding on the raw float bits
+// runs are stored as [count, value], literal spans as [count | LITERAL_FLAG, ...values]
+const LITERAL_FLAG = 0x80000000;
+
+const compress = (data: Float32Array) => {
+    const words = new Uint32Array(data.buffer, data.byteOffset, data.length);
+    const out = new Uint32Array(words.length * 2 + 2);
+    let outIndex = 0;
+
+    let i = 0;
+    while (i < words.length) {
+        let run = 1;
+        while (i + run < words.length && words[i + run] === words[i]) {
+            run++;
+        }
+
+        if (run > 2) {
+            out[outIndex++] = run;
+            out[outIndex++] = words[i];
+            i += run;
+            continue;
+        }
+
+        // gather literals until the next run of 3 or more
+        const countIndex = outIndex++;
+        let count = 0;
+        while (
+            i < words.length &&
+            !(
+                i + 2 < words.length &&
+                words[i] === words[i + 1] &&
+                words[i] === words[i + 2]
+            )
+        ) {
+            out[outIndex++] = words[i++];
+            count++;
+        }
+        out[countIndex] = count | LITERAL_FLAG;
+    }
+
+    return out.slice(0, outIndex);
+};
+
+const decompress = (compressed: Uint32Array, length: number) => {
+    const data = new Float32Array(length);
+    const words = new Uint32Array(data.buffer);
+    let outIndex = 0;
+
+    for (let i = 0; i < compressed.length; ) {
+        const header = compressed[i++];
+
+        if (header & LITERAL_FLAG) {
+            const count = header & ~LITERAL_FLAG;
+            words.set(compressed.subarray(i, i + count), outIndex);
+            i += count;
+            outIndex += count;
+        } else {
+            words.fill(compressed[i++], outIndex, outIndex + header);
+            outIndex += header;
+        }
+    }
+
+    return data;
+};
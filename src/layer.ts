@@ -0,0 +1,211 @@
+// A single layer in a Slate's layer stack
+
+import { Channel, channelStride, CHANNEL_INFO } from './channels';
+import { Rect } from './rect';
+
+export enum BlendMode {
+    Normal,
+    Multiply,
+    Screen,
+    Overlay,
+    Add,
+}
+
+export const BLEND_MODE_NAMES: { [mode: number]: string } = {
+    [BlendMode.Normal]: 'Normal',
+    [BlendMode.Multiply]: 'Multiply',
+    [BlendMode.Screen]: 'Screen',
+    [BlendMode.Overlay]: 'Overlay',
+    [BlendMode.Add]: 'Add',
+};
+
+export default class Layer {
+    name: string;
+    width: number;
+    height: number;
+
+    // linear, straight-alpha pixels for each channel this layer has painted
+    // channels are only allocated once something is painted into them
+    channels: { [channel: number]: Float32Array };
+
+    opacity: number;
+    visible: boolean;
+    blendMode: BlendMode;
+
+    constructor(name: string, width: number, height: number) {
+        this.name = name;
+        this.width = width;
+        this.height = height;
+        this.channels = {};
+
+        this.opacity = 1.0;
+        this.visible = true;
+        this.blendMode = BlendMode.Normal;
+    }
+
+    hasChannel(channel: Channel) {
+        return this.channels.hasOwnProperty(channel);
+    }
+
+    // get the pixels for `channel`, allocating them as transparent if needed
+    getChannel(channel: Channel) {
+        if (!this.hasChannel(channel)) {
+            this.channels[channel] = new Float32Array(
+                this.width * this.height * channelStride(channel)
+            );
+        }
+
+        return this.channels[channel];
+    }
+
+    // total memory used by this layer's pixels
+    get byteLength() {
+        let bytes = 0;
+        for (const channel in this.channels) {
+            bytes += this.channels[channel].byteLength;
+        }
+        return bytes;
+    }
+
+    clone(name: string = this.name) {
+        const layer = new Layer(name, this.width, this.height);
+        for (const channel in this.channels) {
+            layer.channels[channel] = new Float32Array(this.channels[channel]);
+        }
+        layer.opacity = this.opacity;
+        layer.visible = this.visible;
+        layer.blendMode = this.blendMode;
+
+        return layer;
+    }
+}
+
+// separable blend functions from the W3C compositing spec
+// colors are linear and may go above 1.0, so Add doesn't clamp
+export function blendChannel(mode: BlendMode, base: number, blend: number) {
+    switch (mode) {
+        case BlendMode.Multiply:
+            return base * blend;
+        case BlendMode.Screen:
+            return base + blend - base * blend;
+        case BlendMode.Overlay:
+            if (base <= 0.5) {
+                return 2 * base * blend;
+            }
+            return 1 - 2 * (1 - base) * (1 - blend);
+        case BlendMode.Add:
+            return base + blend;
+        default:
+            return blend;
+    }
+}
+
+// composite `channel` of `layers` bottom to top into `out` (straight alpha)
+// `out` starts out as `base`, usually the channel's default value
+export function compositeLayers(
+    out: Float32Array,
+    layers: Layer[],
+    channel: Channel,
+    base: number[] = CHANNEL_INFO[channel].base
+) {
+    compositeSpan(out, layers, channel, base, 0, out.length);
+}
+
+// like compositeLayers, but only for the pixels in `rect` of a `width` pixel wide image
+export function compositeLayersInRect(
+    out: Float32Array,
+    layers: Layer[],
+    channel: Channel,
+    width: number,
+    rect: Rect
+) {
+    const stride = channelStride(channel);
+    const base = CHANNEL_INFO[channel].base;
+
+    for (let y = rect.y0; y < rect.y1; y++) {
+        const start = (y * width + rect.x0) * stride;
+        const end = (y * width + rect.x1) * stride;
+        compositeSpan(out, layers, channel, base, start, end);
+    }
+}
+
+// like compositeLayersInRect, but into `out` holding only the pixels in `rect`, row by row
+export function compositeLayersIntoRect(
+    out: Float32Array,
+    layers: Layer[],
+    channel: Channel,
+    width: number,
+    rect: Rect,
+    base: number[] = CHANNEL_INFO[channel].base
+) {
+    const stride = channelStride(channel);
+    const rowLength = (rect.x1 - rect.x0) * stride;
+
+    for (let y = rect.y0; y < rect.y1; y++) {
+        const start = (y * width + rect.x0) * stride;
+        const end = (y * width + rect.x1) * stride;
+        compositeSpan(
+            out,
+            layers,
+            channel,
+            base,
+            start,
+            end,
+            (y - rect.y0) * rowLength
+        );
+    }
+}
+
+// composite the values in [start, end) of the channel buffers into `out` from `outStart`
+function compositeSpan(
+    out: Float32Array,
+    layers: Layer[],
+    channel: Channel,
+    base: number[],
+    start: number,
+    end: number,
+    outStart = start
+) {
+    const stride = channelStride(channel);
+    const alphaOffset = stride - 1;
+    const offset = outStart - start;
+
+    for (let i = start; i < end; i += stride) {
+        for (let c = 0; c < stride; c++) {
+            out[i + offset + c] = base[c];
+        }
+    }
+
+    for (let l = 0; l < layers.length; l++) {
+        const layer = layers[l];
+        if (!layer.visible || layer.opacity <= 0) continue;
+        if (!layer.hasChannel(channel)) continue;
+
+        const source = layer.channels[channel];
+
+        for (let i = start; i < end; i += stride) {
+            const sourceAlpha = source[i + alphaOffset] * layer.opacity;
+            if (sourceAlpha <= 0) continue;
+
+            const baseAlpha = out[i + offset + alphaOffset];
+            const alpha = sourceAlpha + baseAlpha * (1 - sourceAlpha);
+
+            for (let c = 0; c < alphaOffset; c++) {
+                const base = out[i + offset + c];
+                const blend = source[i + c];
+
+                // blend result is only used where the backdrop is opaque
+                const mixed =
+                    (1 - baseAlpha) * blend +
+                    baseAlpha * blendChannel(layer.blendMode, base, blend);
+
+                const premultiplied =
+                    mixed * sourceAlpha + base * baseAlpha * (1 - sourceAlpha);
+
+                out[i + offset + c] = premultiplied / alpha;
+            }
+
+            out[i + offset + alphaOffset] = alpha;
+        }
+    }
+}
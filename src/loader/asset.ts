@@ -1,9 +1,11 @@
 import MeshData from "./meshData";
 import Image from "./image";
+import type { Project } from "../project";
 
 export enum AssetType {
     Image,
-    Mesh
+    Mesh,
+    Project
 };
 
 export interface ImageAsset {
@@ -16,6 +18,11 @@ export interface MeshAsset {
     meshes: MeshData[] // TODO: better handling for file types that contain multiple assets, ie OBJ with meshes
 }
 
-type Asset = ImageAsset | MeshAsset;
+export interface ProjectAsset {
+    type: AssetType.Project,
+    project: Project
+};
+
+type Asset = ImageAsset | MeshAsset | ProjectAsset;
 
 export default Asset;
\ No newline at end of file
@@ -0,0 +1,442 @@
+// Bounding volume hierarchy over a mesh's triangles
+// Nodes live in flat typed arrays so a mesh with hundreds of thousands of triangles
+// doesn't turn into hundreds of thousands of little objects.
+
+import { vec3 } from 'gl-matrix';
+import { RaycastHit, Triangle } from './meshData';
+
+const MAX_LEAF_TRIANGLES = 4;
+const BIN_COUNT = 12;
+
+export default class BVH {
+    vertices: vec3[];
+    triangles: Triangle[];
+
+    nodeCount: number;
+    bounds: Float32Array; // min xyz then max xyz per node
+    offsets: Uint32Array; // first child for interior nodes (the second follows it), first triangle for leaves
+    counts: Uint32Array; // number of triangles in a leaf, 0 for interior nodes
+    triangleIndices: Uint32Array; // triangles ordered so each leaf's are contiguous
+
+    // traversal stacks, reused so casting lots of rays doesn't allocate
+    private stack: Uint32Array;
+    private stackDistances: Float64Array;
+
+    constructor(vertices: vec3[], triangles: Triangle[]) {
+        this.vertices = vertices;
+        this.triangles = triangles;
+
+        this.build();
+    }
+
+    private build() {
+        const triangleCount = this.triangles.length;
+        const maxNodes = Math.max(triangleCount * 2 - 1, 1);
+
+        this.bounds = new Float32Array(maxNodes * 6);
+        this.offsets = new Uint32Array(maxNodes);
+        this.counts = new Uint32Array(maxNodes);
+        this.triangleIndices = new Uint32Array(triangleCount);
+
+        // bounds and centroid of every triangle, computed once up front
+        const triangleBounds = new Float32Array(triangleCount * 6);
+        const centroids = new Float32Array(triangleCount * 3);
+
+        for (let i = 0; i < triangleCount; i++) {
+            this.triangleIndices[i] = i;
+
+            const triangle = this.triangles[i];
+            for (let axis = 0; axis < 3; axis++) {
+                const a = this.vertices[triangle[0]][axis];
+                const b = this.vertices[triangle[1]][axis];
+                const c = this.vertices[triangle[2]][axis];
+
+                const min = Math.min(a, b, c);
+                const max = Math.max(a, b, c);
+                triangleBounds[i * 6 + axis] = min;
+                triangleBounds[i * 6 + 3 + axis] = max;
+                centroids[i * 3 + axis] = (min + max) / 2;
+            }
+        }
+
+        const binBounds = new Float32Array(BIN_COUNT * 6);
+        const binCounts = new Uint32Array(BIN_COUNT);
+        const rightAreas = new Float64Array(BIN_COUNT);
+        const rightCounts = new Uint32Array(BIN_COUNT);
+        const centroidMin = vec3.create();
+        const centroidMax = vec3.create();
+        const left = new Float32Array(6);
+        const right = new Float32Array(6);
+
+        this.nodeCount = 1;
+        let maxDepth = 1;
+
+        // [node, first triangle, triangle count, depth]
+        const work: number[][] = [[0, 0, triangleCount, 1]];
+
+        while (work.length > 0) {
+            const [node, start, count, depth] = work.pop();
+            maxDepth = Math.max(maxDepth, depth);
+
+            this.offsets[node] = start;
+            this.counts[node] = count;
+
+            // node and centroid bounds
+            resetBounds(this.bounds, node);
+            vec3.set(centroidMin, Infinity, Infinity, Infinity);
+            vec3.set(centroidMax, -Infinity, -Infinity, -Infinity);
+            for (let i = start; i < start + count; i++) {
+                const triangle = this.triangleIndices[i];
+                growBounds(this.bounds, node, triangleBounds, triangle);
+                for (let axis = 0; axis < 3; axis++) {
+                    const centroid = centroids[triangle * 3 + axis];
+                    centroidMin[axis] = Math.min(centroidMin[axis], centroid);
+                    centroidMax[axis] = Math.max(centroidMax[axis], centroid);
+                }
+            }
+
+            if (count <= MAX_LEAF_TRIANGLES) continue;
+
+            // find the cheapest split by binning centroids along each axis (surface area heuristic)
+            let bestAxis = -1;
+            let bestBin = 0;
+            let bestCost = Infinity;
+
+            for (let axis = 0; axis < 3; axis++) {
+                const extent = centroidMax[axis] - centroidMin[axis];
+                if (extent <= 0) continue;
+
+                const binScale = BIN_COUNT / extent;
+
+                for (let bin = 0; bin < BIN_COUNT; bin++) {
+                    resetBounds(binBounds, bin);
+                    binCounts[bin] = 0;
+                }
+
+                for (let i = start; i < start + count; i++) {
+                    const triangle = this.triangleIndices[i];
+                    const bin = getBin(
+                        centroids[triangle * 3 + axis],
+                        centroidMin[axis],
+                        binScale
+                    );
+                    binCounts[bin]++;
+                    growBounds(binBounds, bin, triangleBounds, triangle);
+                }
+
+                // sweep from the right to get the cost of everything past each split
+                resetBounds(right, 0);
+                let rightCount = 0;
+                for (let bin = BIN_COUNT - 1; bin > 0; bin--) {
+                    growBounds(right, 0, binBounds, bin);
+                    rightCount += binCounts[bin];
+                    rightAreas[bin] = surfaceArea(right, 0);
+                    rightCounts[bin] = rightCount;
+                }
+
+                // then from the left, splitting before `bin`
+                resetBounds(left, 0);
+                let leftCount = 0;
+                for (let bin = 1; bin < BIN_COUNT; bin++) {
+                    growBounds(left, 0, binBounds, bin - 1);
+                    leftCount += binCounts[bin - 1];
+
+                    if (leftCount === 0 || rightCounts[bin] === 0) continue;
+
+                    const cost =
+                        leftCount * surfaceArea(left, 0) +
+                        rightCounts[bin] * rightAreas[bin];
+                    if (cost < bestCost) {
+                        bestCost = cost;
+                        bestAxis = axis;
+                        bestBin = bin;
+                    }
+                }
+            }
+
+            // every centroid is in the same spot, no split will separate them
+            if (bestAxis === -1) continue;
+
+            // partition the node's triangles around the split
+            const binScale =
+                BIN_COUNT / (centroidMax[bestAxis] - centroidMin[bestAxis]);
+            let i = start;
+            let j = start + count - 1;
+            while (i <= j) {
+                const triangle = this.triangleIndices[i];
+                const bin = getBin(
+                    centroids[triangle * 3 + bestAxis],
+                    centroidMin[bestAxis],
+                    binScale
+                );
+                if (bin < bestBin) {
+                    i++;
+                } else {
+                    this.triangleIndices[i] = this.triangleIndices[j];
+                    this.triangleIndices[j] = triangle;
+                    j--;
+                }
+            }
+
+            const leftCount = i - start;
+            const leftChild = this.nodeCount;
+            this.nodeCount += 2;
+
+            this.offsets[node] = leftChild;
+            this.counts[node] = 0;
+
+            work.push([leftChild, start, leftCount, depth + 1]);
+            work.push([leftChild + 1, i, count - leftCount, depth + 1]);
+        }
+
+        this.stack = new Uint32Array(maxDepth * 2);
+        this.stackDistances = new Float64Array(maxDepth * 2);
+    }
+
+    // find the closest triangle hit by the ray, returns whether anything was hit
+    raycast(hit: RaycastHit, origin: vec3, direction: vec3) {
+        if (this.triangles.length === 0) return false;
+
+        const inverseX = 1 / direction[0];
+        const inverseY = 1 / direction[1];
+        const inverseZ = 1 / direction[2];
+
+        let closest = Infinity;
+        const barycentric = vec3.create();
+
+        let stackSize = 0;
+        const rootDistance = this.intersectBox(
+            0,
+            origin,
+            inverseX,
+            inverseY,
+            inverseZ
+        );
+        if (rootDistance === Infinity) return false;
+
+        this.stack[stackSize] = 0;
+        this.stackDistances[stackSize++] = rootDistance;
+
+        while (stackSize > 0) {
+            stackSize--;
+            const node = this.stack[stackSize];
+            if (this.stackDistances[stackSize] >= closest) continue;
+
+            const count = this.counts[node];
+            const offset = this.offsets[node];
+
+            if (count > 0) {
+                for (let i = offset; i < offset + count; i++) {
+                    const triangleIndex = this.triangleIndices[i];
+                    const triangle = this.triangles[triangleIndex];
+
+                    const t = rayTriangleIntersection(
+                        barycentric,
+                        origin,
+                        direction,
+                        this.vertices[triangle[0]],
+                        this.vertices[triangle[1]],
+                        this.vertices[triangle[2]]
+                    );
+                    if (t < closest) {
+                        closest = t;
+                        hit.triangle = triangleIndex;
+                        vec3.copy(hit.barycentric, barycentric);
+                    }
+                }
+                continue;
+            }
+
+            let near = offset;
+            let far = offset + 1;
+            let nearDistance = this.intersectBox(
+                near,
+                origin,
+                inverseX,
+                inverseY,
+                inverseZ
+            );
+            let farDistance = this.intersectBox(
+                far,
+                origin,
+                inverseX,
+                inverseY,
+                inverseZ
+            );
+
+            if (farDistance < nearDistance) {
+                [near, far] = [far, near];
+                [nearDistance, farDistance] = [farDistance, nearDistance];
+            }
+
+            // push the far child first so the near one is visited first
+            if (farDistance < closest) {
+                this.stack[stackSize] = far;
+                this.stackDistances[stackSize++] = farDistance;
+            }
+            if (nearDistance < closest) {
+                this.stack[stackSize] = near;
+                this.stackDistances[stackSize++] = nearDistance;
+            }
+        }
+
+        if (closest === Infinity) return false;
+
+        hit.distance = closest;
+        vec3.scaleAndAdd(hit.point, origin, direction, closest);
+        return true;
+    }
+
+    // call `callback` with every triangle whose node overlaps the box
+    // triangles are only culled by node, so callers should do their own finer test
+    queryBox(min: vec3, max: vec3, callback: (triangle: number) => void) {
+        if (this.triangles.length === 0) return;
+
+        let stackSize = 0;
+        this.stack[stackSize++] = 0;
+
+        while (stackSize > 0) {
+            const node = this.stack[--stackSize];
+
+            const base = node * 6;
+            if (
+                this.bounds[base] > max[0] ||
+                this.bounds[base + 1] > max[1] ||
+                this.bounds[base + 2] > max[2] ||
+                this.bounds[base + 3] < min[0] ||
+                this.bounds[base + 4] < min[1] ||
+                this.bounds[base + 5] < min[2]
+            ) {
+                continue;
+            }
+
+            const count = this.counts[node];
+            const offset = this.offsets[node];
+
+            if (count > 0) {
+                for (let i = offset; i < offset + count; i++) {
+                    callback(this.triangleIndices[i]);
+                }
+            } else {
+                this.stack[stackSize++] = offset;
+                this.stack[stackSize++] = offset + 1;
+            }
+        }
+    }
+
+    // slab test, returns the distance to the box along the ray or Infinity for a miss
+    private intersectBox(
+        node: number,
+        origin: vec3,
+        inverseX: number,
+        inverseY: number,
+        inverseZ: number
+    ) {
+        const base = node * 6;
+
+        const tx0 = (this.bounds[base] - origin[0]) * inverseX;
+        const tx1 = (this.bounds[base + 3] - origin[0]) * inverseX;
+        let tMin = Math.min(tx0, tx1);
+        let tMax = Math.max(tx0, tx1);
+
+        const ty0 = (this.bounds[base + 1] - origin[1]) * inverseY;
+        const ty1 = (this.bounds[base + 4] - origin[1]) * inverseY;
+        tMin = Math.max(tMin, Math.min(ty0, ty1));
+        tMax = Math.min(tMax, Math.max(ty0, ty1));
+
+        const tz0 = (this.bounds[base + 2] - origin[2]) * inverseZ;
+        const tz1 = (this.bounds[base + 5] - origin[2]) * inverseZ;
+        tMin = Math.max(tMin, Math.min(tz0, tz1));
+        tMax = Math.min(tMax, Math.max(tz0, tz1));
+
+        if (tMax < 0 || tMin > tMax) {
+            return Infinity;
+        }
+
+        return Math.max(tMin, 0);
+    }
+}
+
+const resetBounds = (bounds: Float32Array, index: number) => {
+    bounds.fill(Infinity, index * 6, index * 6 + 3);
+    bounds.fill(-Infinity, index * 6 + 3, index * 6 + 6);
+};
+
+// grow box `index` of `bounds` to contain box `other` of `otherBounds`
+const growBounds = (
+    bounds: Float32Array,
+    index: number,
+    otherBounds: Float32Array,
+    other: number
+) => {
+    for (let axis = 0; axis < 3; axis++) {
+        bounds[index * 6 + axis] = Math.min(
+            bounds[index * 6 + axis],
+            otherBounds[other * 6 + axis]
+        );
+        bounds[index * 6 + 3 + axis] = Math.max(
+            bounds[index * 6 + 3 + axis],
+            otherBounds[other * 6 + 3 + axis]
+        );
+    }
+};
+
+const surfaceArea = (bounds: Float32Array, index: number) => {
+    const x = bounds[index * 6 + 3] - bounds[index * 6];
+    const y = bounds[index * 6 + 4] - bounds[index * 6 + 1];
+    const z = bounds[index * 6 + 5] - bounds[index * 6 + 2];
+    return x * y + y * z + z * x;
+};
+
+const getBin = (centroid: number, min: number, binScale: number) =>
+    Math.min(Math.floor((centroid - min) * binScale), BIN_COUNT - 1);
+
+const edge1 = vec3.create();
+const edge2 = vec3.create();
+const p = vec3.create();
+const q = vec3.create();
+const s = vec3.create();
+
+// Möller–Trumbore intersection, returns the distance along the ray or Infinity for a miss
+// both sides of the triangle are hit, since painting should work on open meshes
+const rayTriangleIntersection = (
+    barycentric: vec3,
+    origin: vec3,
+    direction: vec3,
+    v0: vec3,
+    v1: vec3,
+    v2: vec3
+) => {
+    vec3.sub(edge1, v1, v0);
+    vec3.sub(edge2, v2, v0);
+
+    vec3.cross(p, direction, edge2);
+    const determinant = vec3.dot(edge1, p);
+
+    if (Math.abs(determinant) < Number.EPSILON) {
+        return Infinity; // parallel to the triangle
+    }
+
+    const inverseDeterminant = 1 / determinant;
+
+    vec3.sub(s, origin, v0);
+    const u = vec3.dot(s, p) * inverseDeterminant;
+    if (u < 0 || u > 1) {
+        return Infinity;
+    }
+
+    vec3.cross(q, s, edge1);
+    const v = vec3.dot(direction, q) * inverseDeterminant;
+    if (v < 0 || u + v > 1) {
+        return Infinity;
+    }
+
+    const t = vec3.dot(edge2, q) * inverseDeterminant;
+    if (t < 0) {
+        return Infinity;
+    }
+
+    vec3.set(barycentric, 1 - u - v, u, v);
+
+    return t;
+};
@@ -2,6 +2,7 @@ import Module from './wasm/wrap_openexr';
 import m_Url from 'url:./wasm/wrap_openexr.wasm';
 import Image, { ImageFormat, ImageStorage } from '../image';
 import Asset, { AssetType } from '../asset';
+import { ColorSpace } from '../../colorSpace';
 
 let instance = null;
 const getInstance = async () => {
@@ -34,7 +35,8 @@ export default async function parseExr(data: ArrayBuffer): Promise<Asset> {
         storage: {
             type: ImageStorage.Float32,
             pixels: imageBuffer,
-        }
+        },
+        colorSpace: ColorSpace.LinearRec709, // the chromaticities attribute isn't exposed by the wrapper
     };
 
     return {
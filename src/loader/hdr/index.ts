@@ -1,5 +1,10 @@
 import { AssetType } from "../asset";
 import Image, { ImageFormat, ImageStorage } from "../image";
+import {
+    ColorSpace,
+    colorSpaceFromPrimaries,
+    convertXyzPixels,
+} from "../../colorSpace";
 
 type ParseResult<T> = [T, number];
 
@@ -260,19 +265,31 @@ export async function getHDRImage(
 ): Promise<Asset> {
     const hdr = await parseRadianceHDR(buffer);
 
+    let colorSpace = ColorSpace.LinearRec709;
     if (hdr.format === RadianceHDRFormat.XYZE) {
-        // don't do anything
-        // eventually I might want this to translate to ACES but preserve input color spaces for now
+        convertXyzPixels(hdr.pixels, 3, colorSpace);
+    } else if (hdr.primaries) {
+        const { red, green, blue, white } = hdr.primaries;
+        const xy = [red, green, blue, white].flatMap((c) => [
+            c.hue,
+            c.colorfulness,
+        ]);
+        colorSpace = colorSpaceFromPrimaries(xy);
+        if (colorSpace === null) {
+            console.warn(`unknown HDR primaries ${xy}, reading as Rec.709`);
+            colorSpace = ColorSpace.LinearRec709;
+        }
     }
 
-    const image = {
+    const image: Image = {
         width: hdr.width,
         height: hdr.height,
         format: ImageFormat.RGB, // no alpha channel
         storage: {
             type: ImageStorage.Float32,
             pixels: hdr.pixels
-        }
+        },
+        colorSpace
     };
 
     return {
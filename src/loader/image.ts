@@ -1,3 +1,5 @@
+import type { ColorSpace } from '../colorSpace';
+
 export enum ImageFormat {
     RGB,
     RGBA
@@ -25,4 +27,5 @@ export default interface Image {
     height: number;
     format: ImageFormat;
     storage: ImageBuffer;
+    colorSpace: ColorSpace; // what the pixels are encoded as, see colorSpace.ts
 };
\ No newline at end of file
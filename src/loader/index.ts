@@ -1,10 +1,11 @@
-import { srgbToRgb } from "../color";
+import { ColorSpace } from "../colorSpace";
 import parseExr from "./exr";
 import { getHDRImage } from "./hdr";
 import Image, { ImageFormat, ImageStorage } from "./image";
 import Asset, { AssetType } from './asset';
 import parseTiff from "./tiff";
 import parseWaveformObj from "./obj";
+import { parseProject } from "../project";
 
 const getExtension = (path: string) => {
     const parts = path.split('.');
@@ -15,7 +16,8 @@ const loaders: { [extension: string]: (data: ArrayBuffer) => Promise<Asset> } =
     "exr": parseExr,
     "hdr": getHDRImage,
     "tiff": parseTiff,
-    "obj": parseWaveformObj
+    "obj": parseWaveformObj,
+    "texpaint": parseProject
 };
 
 const loadImageDOM = (url: string): Promise<Image> => new Promise((resolve, reject) => {
@@ -40,14 +42,17 @@ const loadImageDOM = (url: string): Promise<Image> => new Promise((resolve, reje
                 tempImg.height
             );
 
+            // keep the encoded bytes, they're decoded when converted to a linear space
+            // the canvas gives us sRGB whatever profile the file has, and data maps are read as raw
             const image: Image = {
                 width: imageData.width,
                 height: imageData.height,
-                format: ImageFormat.RGB,
+                format: ImageFormat.RGBA,
                 storage: {
                     type: ImageStorage.Uint8,
-                    pixels: imageData.data.map(u => srgbToRgb(u / 255) * 255) // assume all images loaded by the browser are in sRGB
-                }
+                    pixels: imageData.data
+                },
+                colorSpace: ColorSpace.Srgb
             };
 
             resolve(image);
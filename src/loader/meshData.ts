@@ -1,4 +1,5 @@
 import { vec2, vec3 } from "gl-matrix";
+import BVH from './bvh';
 
 export type Triangle = [number, number, number];
 
@@ -9,6 +10,8 @@ export default class MeshData {
     uvs: vec2[];
     triangles: Triangle[];
 
+    bvh: BVH;
+
     constructor(
         name: string,
         vertices: vec3[] = [],
@@ -21,109 +24,73 @@ export default class MeshData {
         this.vertexNormals = vertexNormals;
         this.uvs = uvs;
         this.triangles = triangles;
+        this.bvh = null;
     }
 
-    raycast(intersection: vec3, origin: vec3, direction: vec3) {
-        // TODO: use a BVH to speed this up
-        let closest = Infinity;
-        let closestPoint = vec3.create();
-
-        const currentPoint = vec3.create();
-
-        for (let i = 0; i < this.triangles.length; i++) {
-            const triangle = this.triangles[i];
-
-            const intersection = rayTriangleIntersection(
-                currentPoint,
-                origin,
-                direction,
-                this.vertices[triangle[0]],
-                this.vertices[triangle[1]],
-                this.vertices[triangle[2]]
-            );
-            if (intersection > 0 && intersection < closest) {
-                closest = intersection;
-                vec3.copy(closestPoint, currentPoint);
-            }
-        }
-
-        if (isFinite(closest)) {
-            vec3.copy(intersection, closestPoint);
-            return true;
-        }
-
-        return false;
-    }
-}
-
-const rayTriangleIntersection = (
-    point: vec3,
-    origin: vec3,
-    direction: vec3,
-    v0: vec3,
-    v1: vec3,
-    v2: vec3
-) => {
-    const v0v1 = vec3.create();
-    const v0v2 = vec3.create();
-
-    vec3.sub(v0v1, v1, v0);
-    vec3.sub(v0v2, v2, v0);
-
-    const normal = vec3.create();
-    vec3.cross(normal, v0v1, v0v2);
-    vec3.normalize(normal, normal);
-
-    const normalDotRayDirection = vec3.dot(normal, direction);
-    if (Math.abs(normalDotRayDirection) < Number.EPSILON) {
-        return Infinity;
+    // build the BVH used for raycasts and surface queries
+    // this has to be called again if the vertices or triangles change
+    buildBVH() {
+        this.bvh = new BVH(this.vertices, this.triangles);
     }
 
-    const d = vec3.dot(normal, v0);
-    const t = (vec3.dot(normal, origin) + d) / -normalDotRayDirection;
+    raycast(hit: RaycastHit, origin: vec3, direction: vec3) {
+        if (!this.bvh) this.buildBVH();
 
-    if (t < 0) {
-        return -1;
+        return this.bvh.raycast(hit, origin, direction);
     }
 
-    vec3.zero(point);
-    vec3.scale(point, direction, t);
-    vec3.add(point, point, origin);
-
-    const edge0 = vec3.create();
-    vec3.sub(edge0, v1, v0);
-
-    const vp0 = vec3.create();
-    vec3.sub(vp0, point, v0);
+    // call `callback` with the triangles that might be within `radius` of `center`
+    queryTrianglesNear(
+        center: vec3,
+        radius: number,
+        callback: (triangle: number) => void
+    ) {
+        if (!this.bvh) this.buildBVH();
 
-    const C = vec3.create();
-    vec3.cross(C, edge0, vp0);
+        const min = vec3.create();
+        const max = vec3.create();
+        vec3.sub(min, center, [radius, radius, radius]);
+        vec3.add(max, center, [radius, radius, radius]);
 
-    if (vec3.dot(normal, C) < 0) {
-        return Infinity;
+        this.bvh.queryBox(min, max, callback);
     }
 
-    const edge1 = vec3.create();
-    vec3.sub(edge1, v2, v1);
-
-    const vp1 = vec3.create();
-    vec3.sub(vp1, point, v1);
-    vec3.cross(C, edge1, vp1);
-
-    if (vec3.dot(normal, C) < 0) {
-        return Infinity;
+    // interpolate the UV coordinates of a point on a triangle
+    getUV(out: vec2, triangleIndex: number, barycentric: vec3) {
+        const triangle = this.triangles[triangleIndex];
+        vec2.zero(out);
+        for (let i = 0; i < 3; i++) {
+            vec2.scaleAndAdd(out, out, this.uvs[triangle[i]], barycentric[i]);
+        }
+        return out;
     }
 
-    const edge2 = vec3.create();
-    vec3.sub(edge2, v0, v2);
-
-    const vp2 = vec3.create();
-    vec3.sub(vp2, point, v0);
-    vec3.cross(C, edge2, vp2);
-
-    if (vec3.dot(normal, C) < 0) {
-        return Infinity;
+    // interpolate the vertex normals of a point on a triangle
+    getNormal(out: vec3, triangleIndex: number, barycentric: vec3) {
+        const triangle = this.triangles[triangleIndex];
+        vec3.zero(out);
+        for (let i = 0; i < 3; i++) {
+            vec3.scaleAndAdd(
+                out,
+                out,
+                this.vertexNormals[triangle[i]],
+                barycentric[i]
+            );
+        }
+        return vec3.normalize(out, out);
     }
+}
+
+export interface RaycastHit {
+    point: vec3;
+    triangle: number;
+    barycentric: vec3; // weights of the triangle's three vertices
+    distance: number;
+}
 
-    return t;
-};
\ No newline at end of file
+export const createRaycastHit = (): RaycastHit => ({
+    point: vec3.create(),
+    triangle: -1,
+    barycentric: vec3.create(),
+    distance: Infinity,
+});
@@ -60,6 +60,8 @@ const reIndex = (
         mesh.triangles.push(triangle);
     }
 
+    mesh.buildBVH();
+
     return mesh;
 };
 
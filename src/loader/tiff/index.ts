@@ -2,7 +2,7 @@ import Module from './wasm/wrap_libtiff';
 import m_Url from 'url:./wasm/wrap_libtiff.wasm';
 import Asset, { AssetType } from '../asset';
 import Image, { ImageFormat, ImageStorage } from '../image';
-import { srgbToRgb } from '../../color';
+import { ColorSpace } from '../../colorSpace';
 
 let instance = null;
 const getInstance = async () => {
@@ -39,10 +39,10 @@ export default async function parseTiff(data: ArrayBuffer): Promise<Asset> {
         const b = (pixel >> 16) & 0xff;
         const a = (pixel >> 24) & 0xff;
 
-        imageBuffer[destIndex++] = 255 * srgbToRgb(r / 255); // assume sRGB 
-        imageBuffer[destIndex++] = 255 * srgbToRgb(g / 255);
-        imageBuffer[destIndex++] = 255 * srgbToRgb(b / 255);
-        imageBuffer[destIndex++] = 255 * srgbToRgb(a / 255);
+        imageBuffer[destIndex++] = r;
+        imageBuffer[destIndex++] = g;
+        imageBuffer[destIndex++] = b;
+        imageBuffer[destIndex++] = a;
     }
 
     const image: Image = {
@@ -52,7 +52,8 @@ export default async function parseTiff(data: ArrayBuffer): Promise<Asset> {
         storage: {
             type: ImageStorage.Uint8,
             pixels: imageBuffer,
-        }
+        },
+        colorSpace: ColorSpace.Srgb, // libtiff gives us 8 bit RGBA, and we don't read ICC profiles
     };
 
     return {
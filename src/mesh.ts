@@ -6,8 +6,10 @@ import fragStandardShader from './shaders/workspace/standardShader/frag.glsl';
 
 import vertUVShader from './shaders/uvShader/vert.glsl';
 import fragUVShader from './shaders/uvShader/frag.glsl';
-import MeshData from './loader/meshData';
+import MeshData, { RaycastHit } from './loader/meshData';
 import Slate from './slate';
+import type Display from './display';
+import type Environments from './environment';
 
 export default class Mesh {
     data: MeshData;
@@ -107,10 +109,13 @@ export default class Mesh {
         gl: WebGLRenderingContext,
         modelViewMatrix: mat4,
         projectionMatrix: mat4,
-        irradiance: WebGLTexture,
-        prefilterMaps: WebGLTexture[],
+        environments: Environments,
         brdfLUT: WebGLTexture,
+        display: Display,
     ) {
+        // lit flat until the environment is ready, or if it never will be
+        const lighting = environments.lighting || environments.fallback;
+
         gl.useProgram(this.standardShader.program);
 
         // set projection and model*view matrices;
@@ -202,37 +207,54 @@ export default class Mesh {
         gl.bindTexture(gl.TEXTURE_2D, this.slate.albedo);
         gl.uniform1i(this.standardShader.uniforms.uAlbedo, 0);
 
-        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
-        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, this.slate.textureFilter);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, this.slate.textureFilter);
+
+        // the other material channels go after the environment maps
+        // this needs 11 texture units with the LUT, which every desktop GPU has even though WebGL only guarantees 8
+        gl.activeTexture(gl.TEXTURE8);
+        gl.bindTexture(gl.TEXTURE_2D, this.slate.material);
+        gl.uniform1i(this.standardShader.uniforms.uMaterial, 8);
+
+        gl.activeTexture(gl.TEXTURE9);
+        gl.bindTexture(gl.TEXTURE_2D, this.slate.normal);
+        gl.uniform1i(this.standardShader.uniforms.uNormalMap, 9);
 
-        gl.activeTexture(gl.TEXTURE1);
-        gl.bindTexture(gl.TEXTURE_CUBE_MAP, irradiance);
-        gl.uniform1i(this.standardShader.uniforms.uIrradiance, 1);
+        gl.activeTexture(gl.TEXTURE10);
+        gl.bindTexture(gl.TEXTURE_2D, this.slate.emissive);
+        gl.uniform1i(this.standardShader.uniforms.uEmissive, 10);
+
+        gl.uniform1i(this.standardShader.uniforms.uWorkingSpace, this.slate.workingSpace);
+
+        gl.uniform3fv(this.standardShader.uniforms.uIrradianceSH, lighting.irradiance);
 
         gl.activeTexture(gl.TEXTURE2);
         gl.bindTexture(gl.TEXTURE_2D, brdfLUT);
         gl.uniform1i(this.standardShader.uniforms.uBrdfLUT, 2);
 
         gl.activeTexture(gl.TEXTURE3);
-        gl.bindTexture(gl.TEXTURE_CUBE_MAP, prefilterMaps[0]);
+        gl.bindTexture(gl.TEXTURE_CUBE_MAP, lighting.prefiltered[0]);
         gl.uniform1i(this.standardShader.uniforms.uPrefilterMapLevel0, 3);
 
         gl.activeTexture(gl.TEXTURE4);
-        gl.bindTexture(gl.TEXTURE_CUBE_MAP, prefilterMaps[1]);
+        gl.bindTexture(gl.TEXTURE_CUBE_MAP, lighting.prefiltered[1]);
         gl.uniform1i(this.standardShader.uniforms.uPrefilterMapLevel1, 4);
 
         gl.activeTexture(gl.TEXTURE5);
-        gl.bindTexture(gl.TEXTURE_CUBE_MAP, prefilterMaps[2]);
+        gl.bindTexture(gl.TEXTURE_CUBE_MAP, lighting.prefiltered[2]);
         gl.uniform1i(this.standardShader.uniforms.uPrefilterMapLevel2, 5);
 
         gl.activeTexture(gl.TEXTURE6);
-        gl.bindTexture(gl.TEXTURE_CUBE_MAP, prefilterMaps[3]);
+        gl.bindTexture(gl.TEXTURE_CUBE_MAP, lighting.prefiltered[3]);
         gl.uniform1i(this.standardShader.uniforms.uPrefilterMapLevel3, 6);
 
         gl.activeTexture(gl.TEXTURE7);
-        gl.bindTexture(gl.TEXTURE_CUBE_MAP, prefilterMaps[4]);
+        gl.bindTexture(gl.TEXTURE_CUBE_MAP, lighting.prefiltered[4]);
         gl.uniform1i(this.standardShader.uniforms.uPrefilterMapLevel4, 7);
 
+        environments.setUniforms(gl, this.standardShader);
+        display.setUniforms(gl, this.standardShader, 1);
+
         gl.drawElements( // TODO: do instanced draw with drawArrays
             gl.TRIANGLES,
             this.data.triangles.length * 3,
@@ -285,9 +307,8 @@ export default class Mesh {
         gl.drawArrays(gl.LINES, 0, this.uvLineCount);
     }
 
-    raycast(intersection: vec3, origin: vec3, direction: vec3) {
-        // TODO: use a BVH to speed this up
-        return this.data.raycast(intersection, origin, direction);
+    raycast(hit: RaycastHit, origin: vec3, direction: vec3) {
+        return this.data.raycast(hit, origin, direction);
     }
 }
 
@@ -0,0 +1,440 @@
+// Swatches: named palettes of colors, and the colors painted with most recently
+// Palettes are saved with the project, and can be shared as GIMP, Adobe swatch exchange or plain hex files.
+
+import { rgbToSrgb } from './color';
+
+export interface Swatch {
+    name: string;
+    color: number[]; // sRGB, like the color picker
+}
+
+export interface Palette {
+    name: string;
+    swatches: Swatch[];
+}
+
+// everything saved with the project
+export interface SwatchSettings {
+    palettes: Palette[];
+    recent: number[][];
+}
+
+export enum PaletteFormat {
+    Gpl,
+    Ase,
+    Hex,
+}
+
+export const PALETTE_FORMATS = [
+    PaletteFormat.Gpl,
+    PaletteFormat.Ase,
+    PaletteFormat.Hex,
+];
+
+export const PALETTE_FORMAT_NAMES: { [format: number]: string } = {
+    [PaletteFormat.Gpl]: 'GIMP (.gpl)',
+    [PaletteFormat.Ase]: 'Adobe (.ase)',
+    [PaletteFormat.Hex]: 'Hex list (.hex)',
+};
+
+export const PALETTE_EXTENSIONS: { [format: number]: string } = {
+    [PaletteFormat.Gpl]: 'gpl',
+    [PaletteFormat.Ase]: 'ase',
+    [PaletteFormat.Hex]: 'hex',
+};
+
+const MAX_RECENT_COLORS = 16;
+
+// colors this close in every component count as the same recent color
+const SAME_COLOR = 0.5 / 255;
+
+const DEFAULT_PALETTE: Palette = {
+    name: 'Basic',
+    swatches: [
+        ['Black', '000000'],
+        ['Dark gray', '404040'],
+        ['Gray', '808080'],
+        ['Light gray', 'c0c0c0'],
+        ['White', 'ffffff'],
+        ['Red', 'ff0000'],
+        ['Orange', 'ff8000'],
+        ['Yellow', 'ffff00'],
+        ['Green', '00ff00'],
+        ['Cyan', '00ffff'],
+        ['Blue', '0000ff'],
+        ['Magenta', 'ff00ff'],
+    ].map(([name, hex]) => ({ name, color: fromHex(hex) })),
+};
+
+export default class Swatches {
+    palettes: Palette[];
+    recent: number[][]; // most recent first
+
+    listeners: (() => void)[];
+
+    constructor() {
+        this.palettes = [clonePalette(DEFAULT_PALETTE)];
+        this.recent = [];
+        this.listeners = [];
+    }
+
+    getSettings(): SwatchSettings {
+        return {
+            palettes: this.palettes.map(clonePalette),
+            recent: this.recent.map((color) => color.slice()),
+        };
+    }
+
+    applySettings(settings: SwatchSettings) {
+        this.palettes = settings.palettes.map(clonePalette);
+        this.recent = settings.recent.map((color) => color.slice());
+        this.notify();
+    }
+
+    // move `color` to the front of the recent colors
+    addRecent(color: ArrayLike<number>) {
+        const same = (other: number[]) =>
+            other.every((c, i) => Math.abs(c - color[i]) <= SAME_COLOR);
+
+        this.recent = [
+            Array.from(color),
+            ...this.recent.filter((other) => !same(other)),
+        ].slice(0, MAX_RECENT_COLORS);
+        this.notify();
+    }
+
+    // palettes with the same name are replaced
+    addPalettes(palettes: Palette[]) {
+        for (const palette of palettes) {
+            const index = this.palettes.findIndex(
+                (p) => p.name === palette.name
+            );
+            if (index >= 0) {
+                this.palettes[index] = palette;
+            } else {
+                this.palettes.push(palette);
+            }
+        }
+        this.notify();
+    }
+
+    removePalette(index: number) {
+        this.palettes.splice(index, 1);
+        this.notify();
+    }
+
+    addSwatch(paletteIndex: number, swatch: Swatch) {
+        this.palettes[paletteIndex].swatches.push(swatch);
+        this.notify();
+    }
+
+    removeSwatch(paletteIndex: number, swatchIndex: number) {
+        this.palettes[paletteIndex].swatches.splice(swatchIndex, 1);
+        this.notify();
+    }
+
+    // listeners are told about any change, including colors added to the recent ones by painting
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+
+        return () => {
+            this.listeners = this.listeners.filter((l) => l !== listener);
+        };
+    }
+
+    private notify() {
+        for (let i = 0; i < this.listeners.length; i++) {
+            this.listeners[i]();
+        }
+    }
+}
+
+const clonePalette = (palette: Palette): Palette => ({
+    name: palette.name,
+    swatches: palette.swatches.map(({ name, color }) => ({
+        name,
+        color: color.slice(),
+    })),
+});
+
+const to8Bit = (c: number) => Math.round(Math.min(Math.max(c, 0), 1) * 255);
+
+export const toHex = (color: number[]) =>
+    color
+        .slice(0, 3)
+        .map((c) => to8Bit(c).toString(16).padStart(2, '0'))
+        .join('');
+
+export function fromHex(hex: string) {
+    const value = parseInt(hex, 16);
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map(
+        (c) => c / 255
+    );
+}
+
+// Reading and writing palette files
+
+// the format is guessed from the extension, and palettes without a name of their own are named after the file
+export function parsePalette(filename: string, data: ArrayBuffer): Palette {
+    const name = filename.replace(/\.[^.]*$/, '');
+    const extension = filename.split('.').pop().toLowerCase();
+    const text = () => new TextDecoder().decode(data);
+
+    switch (extension) {
+        case 'gpl':
+            return parseGpl(text(), name);
+        case 'ase':
+            return parseAse(data, name);
+        default:
+            return parseHex(text(), name);
+    }
+}
+
+export function serializePalette(
+    palette: Palette,
+    format: PaletteFormat
+): Uint8Array {
+    const encoder = new TextEncoder();
+
+    switch (format) {
+        case PaletteFormat.Gpl:
+            return encoder.encode(serializeGpl(palette));
+        case PaletteFormat.Ase:
+            return serializeAse(palette);
+        case PaletteFormat.Hex:
+            return encoder.encode(serializeHex(palette));
+    }
+}
+
+// GIMP palettes are a header, then a line of "red green blue name" per color
+function parseGpl(text: string, name: string): Palette {
+    const lines = text.split(/\r?\n/);
+    if (lines[0].trim() !== 'GIMP Palette') {
+        throw new Error('not a GIMP palette');
+    }
+
+    const palette: Palette = { name, swatches: [] };
+    for (const line of lines.slice(1)) {
+        const trimmed = line.trim();
+        if (trimmed === '' || trimmed.startsWith('#')) continue;
+
+        const header = /^Name:\s*(.*)$/.exec(trimmed);
+        if (header) {
+            palette.name = header[1];
+            continue;
+        }
+
+        const color = /^(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/.exec(trimmed);
+        if (!color) continue; // Columns: and anything else newer versions add
+
+        const [, r, g, b, swatchName] = color;
+        palette.swatches.push({
+            name: swatchName,
+            color: [r, g, b].map((c) => Number(c) / 255),
+        });
+    }
+
+    return palette;
+}
+
+function serializeGpl(palette: Palette) {
+    const lines = ['GIMP Palette', `Name: ${palette.name}`, '#'];
+    for (const { name, color } of palette.swatches) {
+        const [r, g, b] = color.map((c) => String(to8Bit(c)).padStart(3));
+        lines.push(`${r} ${g} ${b}\t${name}`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+// any six digit hex colors, one per line in the usual case
+function parseHex(text: string, name: string): Palette {
+    const matches = text.match(/\b[0-9a-f]{6}\b/gi);
+    if (!matches) {
+        throw new Error('no hex colors found');
+    }
+
+    return {
+        name,
+        swatches: matches.map((hex) => ({
+            name: `#${hex.toLowerCase()}`,
+            color: fromHex(hex),
+        })),
+    };
+}
+
+const serializeHex = (palette: Palette) =>
+    palette.swatches.map(({ color }) => toHex(color)).join('\n') + '\n';
+
+// Adobe swatch exchange files are big-endian blocks of colors, optionally inside groups
+const ASE_SIGNATURE = 'ASEF';
+const ASE_GROUP_START = 0xc001;
+const ASE_GROUP_END = 0xc002;
+const ASE_COLOR = 0x0001;
+const ASE_NORMAL_COLOR = 2;
+
+function parseAse(data: ArrayBuffer, name: string): Palette {
+    const view = new DataView(data);
+    const signature = String.fromCharCode(...new Uint8Array(data.slice(0, 4)));
+    if (signature !== ASE_SIGNATURE) {
+        throw new Error('not an Adobe swatch exchange file');
+    }
+
+    const blockCount = view.getUint32(8);
+    let offset = 12;
+
+    // UTF-16 with a length prefix that counts the terminating zero
+    const readName = () => {
+        const length = view.getUint16(offset);
+        offset += 2;
+        let s = '';
+        for (let i = 0; i < length; i++) {
+            const c = view.getUint16(offset + i * 2);
+            if (c !== 0) s += String.fromCharCode(c);
+        }
+        offset += length * 2;
+        return s;
+    };
+
+    const palette: Palette = { name, swatches: [] };
+    for (let block = 0; block < blockCount; block++) {
+        const type = view.getUint16(offset);
+        const length = view.getUint32(offset + 2);
+        const end = offset + 6 + length;
+        offset += 6;
+
+        if (type === ASE_GROUP_START && block === 0) {
+            palette.name = readName(); // a single group names the palette
+        } else if (type === ASE_COLOR) {
+            const swatchName = readName();
+            const model = String.fromCharCode(
+                ...new Uint8Array(data.slice(offset, offset + 4))
+            );
+            offset += 4;
+
+            const values: number[] = [];
+            const count = { 'RGB ': 3, CMYK: 4, 'LAB ': 3, Gray: 1 }[model];
+            if (count === undefined) {
+                console.warn(
+                    `skipping ${swatchName} in unknown color model ${model}`
+                );
+            } else {
+                for (let i = 0; i < count; i++) {
+                    values.push(view.getFloat32(offset + i * 4));
+                }
+                palette.swatches.push({
+                    name: swatchName,
+                    color: aseToSrgb(model, values),
+                });
+            }
+        }
+
+        offset = end;
+    }
+
+    return palette;
+}
+
+function aseToSrgb(model: string, values: number[]) {
+    const clamp = (c: number) => Math.min(Math.max(c, 0), 1);
+
+    switch (model) {
+        case 'CMYK': {
+            // naive, without a color profile
+            const [c, m, y, k] = values;
+            return [c, m, y].map((v) => clamp((1 - v) * (1 - k)));
+        }
+        case 'LAB ':
+            return labToSrgb(values).map(clamp);
+        case 'Gray':
+            return [values[0], values[0], values[0]].map(clamp);
+        default:
+            return values.map(clamp);
+    }
+}
+
+// CIE L*a*b* with a D50 white point, which is what Adobe uses
+function labToSrgb([l, a, b]: number[]) {
+    const fy = (l * 100 + 16) / 116;
+    const fx = fy + a / 500;
+    const fz = fy - b / 200;
+    const inverse = (f: number) =>
+        f > 6 / 29 ? f * f * f : 3 * (6 / 29) ** 2 * (f - 4 / 29);
+
+    const x = 0.9642 * inverse(fx);
+    const y = inverse(fy);
+    const z = 0.8249 * inverse(fz);
+
+    // D50 XYZ to linear sRGB, with Bradford adaptation to D65 folded in
+    const linear = [
+        3.1338561 * x - 1.6168667 * y - 0.4906146 * z,
+        -0.9787684 * x + 1.9161415 * y + 0.033454 * z,
+        0.0719453 * x - 0.2289914 * y + 1.4052427 * z,
+    ];
+    return linear.map((c) => rgbToSrgb(Math.max(c, 0)));
+}
+
+function serializeAse(palette: Palette) {
+    const nameBytes = (s: string) => 2 + (s.length + 1) * 2;
+    const colorLength = (swatch: Swatch) => nameBytes(swatch.name) + 4 + 12 + 2;
+    // the colors go in a group so the palette keeps its name
+    const size =
+        12 +
+        6 +
+        nameBytes(palette.name) +
+        6 +
+        palette.swatches.reduce(
+            (sum, swatch) => sum + 6 + colorLength(swatch),
+            0
+        );
+
+    const data = new Uint8Array(size);
+    const view = new DataView(data.buffer);
+    let offset = 0;
+
+    const writeString = (s: string) => {
+        for (let i = 0; i < s.length; i++) {
+            view.setUint8(offset++, s.charCodeAt(i));
+        }
+    };
+    const writeName = (s: string) => {
+        view.setUint16(offset, s.length + 1);
+        offset += 2;
+        for (let i = 0; i < s.length; i++) {
+            view.setUint16(offset, s.charCodeAt(i));
+            offset += 2;
+        }
+        view.setUint16(offset, 0);
+        offset += 2;
+    };
+
+    writeString(ASE_SIGNATURE);
+    view.setUint16(4, 1); // version 1.0
+    view.setUint16(6, 0);
+    view.setUint32(8, palette.swatches.length + 2);
+    offset = 12;
+
+    view.setUint16(offset, ASE_GROUP_START);
+    view.setUint32(offset + 2, nameBytes(palette.name));
+    offset += 6;
+    writeName(palette.name);
+
+    for (const swatch of palette.swatches) {
+        view.setUint16(offset, ASE_COLOR);
+        view.setUint32(offset + 2, colorLength(swatch));
+        offset += 6;
+
+        writeName(swatch.name);
+        writeString('RGB ');
+        for (let i = 0; i < 3; i++) {
+            view.setFloat32(offset, swatch.color[i]);
+            offset += 4;
+        }
+        view.setUint16(offset, ASE_NORMAL_COLOR);
+        offset += 2;
+    }
+
+    view.setUint16(offset, ASE_GROUP_END);
+    view.setUint32(offset + 2, 0);
+
+    return data;
+}
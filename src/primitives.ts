@@ -99,3 +99,12 @@ export const CUBE_LINE_INDICES = [
     7,
     6,
 ];
+
+// unit circle in the xy plane, drawn as a line loop
+export const CIRCLE_SEGMENTS = 48;
+
+export const CIRCLE_VERTICES: number[] = [];
+for (let i = 0; i < CIRCLE_SEGMENTS; i++) {
+    const angle = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+    CIRCLE_VERTICES.push(Math.cos(angle), Math.sin(angle), 0);
+}
@@ -0,0 +1,483 @@
+// Autosaving the session to IndexedDB so it can be recovered after a crash
+// Layer pixels are stored in the same tiles the undo history uses and only tiles painted since the last
+// autosave are written, a few at a time while the browser is idle, so painting never waits on a whole buffer.
+
+import { Channel, channelStride } from '../channels';
+import { AUTOSAVE_INTERVAL, AUTOSAVE_QUIET_TIME } from '../constants';
+import { TILE_SIZE } from '../history';
+import type MeshData from '../loader/meshData';
+import type WindowManager from '../windowManager';
+import {
+    createManifest,
+    meshFiles,
+    Project,
+    ProjectManifest,
+    readProject,
+} from '.';
+import migrateManifest from './migrations';
+
+const DATABASE_NAME = 'texpaint-autosave';
+const DATABASE_VERSION = 1;
+
+// object stores
+const SESSION = 'session'; // the manifest
+const TILES = 'tiles'; // layer pixels, keyed by [file, tile]
+const FILES = 'files'; // mesh files, keyed by name
+
+const SESSION_KEY = 'current';
+
+const MESH_FILES = ['vertices', 'normals', 'uvs', 'triangles'];
+
+// stop writing tiles when there's less idle time left than this (in milliseconds)
+const MIN_IDLE_TIME = 2;
+
+export interface AutosavedSession {
+    manifest: ProjectManifest;
+    time: number; // milliseconds since the epoch
+    unsaved: boolean; // cleared when the session is saved as a project
+}
+
+interface StoredTile {
+    tile: number;
+    pixels: Float32Array;
+}
+
+interface PendingTile {
+    file: string;
+    pixels: Float32Array;
+    width: number;
+    height: number;
+    components: number;
+    tile: number;
+}
+
+export default class Autosave {
+    windowManager: WindowManager;
+
+    private database: Promise<IDBDatabase>;
+    private timer: number;
+    private saving: boolean;
+
+    // buffers and meshes already written in full, later saves only write what changed
+    private files: WeakMap<Float32Array, string>;
+    private meshes: WeakMap<MeshData, string>;
+    private filePrefix: string; // keeps file names from different page loads apart
+    private nextFile: number;
+    private referencedFiles: string; // files the last written manifest used, sorted and joined
+    private storedFiles: Set<string>; // the same files, anything else may have been deleted
+
+    private unsaved: boolean;
+    private lastSession: string;
+
+    constructor(windowManager: WindowManager) {
+        this.windowManager = windowManager;
+
+        this.database = null;
+        this.timer = null;
+        this.saving = false;
+
+        this.files = new WeakMap();
+        this.meshes = new WeakMap();
+        this.filePrefix = Date.now().toString(36);
+        this.nextFile = 0;
+        this.referencedFiles = null;
+        this.storedFiles = new Set();
+
+        this.unsaved = false;
+        this.lastSession = null;
+    }
+
+    private open() {
+        if (!this.database) {
+            this.database = openDatabase();
+        }
+        return this.database;
+    }
+
+    // the last autosaved session, if it has changes that weren't saved as a project
+    async findSession(): Promise<AutosavedSession> {
+        try {
+            const db = await this.open();
+            const session: AutosavedSession = await request(
+                db.transaction(SESSION).objectStore(SESSION).get(SESSION_KEY)
+            );
+            return session && session.unsaved ? session : null;
+        } catch (e) {
+            console.warn('unable to read autosave', e);
+            return null;
+        }
+    }
+
+    async restore(session: AutosavedSession): Promise<Project> {
+        const db = await this.open();
+        const manifest = migrateManifest(session.manifest);
+
+        const transaction = db.transaction([TILES, FILES]);
+        const tiles = transaction.objectStore(TILES);
+        const files = new Map<string, Uint8Array>();
+        const reads: Promise<void>[] = [];
+
+        for (const layer of manifest.layers) {
+            for (const name in layer.channels) {
+                const channel: Channel = Channel[name];
+                if (channel === undefined) continue;
+
+                const file = layer.channels[name];
+                const components = channelStride(channel);
+                const pixels = new Float32Array(
+                    manifest.width * manifest.height * components
+                );
+
+                const read = request<StoredTile[]>(
+                    tiles.getAll(fileRange(file))
+                ).then((stored) => {
+                    for (const { tile, pixels: data } of stored) {
+                        pasteTile(
+                            pixels,
+                            manifest.width,
+                            manifest.height,
+                            components,
+                            tile,
+                            data
+                        );
+                    }
+                    files.set(file, new Uint8Array(pixels.buffer));
+                });
+                reads.push(read);
+            }
+        }
+
+        if (manifest.mesh) {
+            for (const name of MESH_FILES) {
+                const file = manifest.mesh[name];
+                const read = request<Uint8Array>(
+                    transaction.objectStore(FILES).get(file)
+                ).then((data) => {
+                    if (data) files.set(file, data);
+                });
+                reads.push(read);
+            }
+        }
+
+        await Promise.all(reads);
+
+        return readProject(manifest, files);
+    }
+
+    // start saving periodically, `unsaved` is whether the current session already has unsaved work
+    start(unsaved: boolean) {
+        if (this.timer !== null) return;
+
+        this.unsaved = unsaved;
+        this.timer = window.setInterval(() => this.save(), AUTOSAVE_INTERVAL);
+
+        // anything structural, like adding a layer, is unsaved work too
+        this.windowManager.slate.subscribe(() => {
+            this.unsaved = true;
+        });
+
+        // save right away when the tab is hidden or something went wrong, the tab might not come back
+        document.addEventListener('visibilitychange', () => {
+            if (document.visibilityState === 'hidden') {
+                this.save(true);
+            }
+        });
+        window.addEventListener('error', () => this.save(true));
+    }
+
+    // the session was saved as a project, so there's nothing to recover anymore
+    markSaved() {
+        this.unsaved = false;
+        this.save();
+    }
+
+    // `force` saves immediately instead of waiting for painting to stop and for idle time
+    async save(force = false) {
+        if (this.timer === null || this.saving) return;
+
+        const history = this.windowManager.slate.history;
+        if (
+            !force &&
+            performance.now() - history.modifiedTime < AUTOSAVE_QUIET_TIME
+        ) {
+            return;
+        }
+
+        this.saving = true;
+        try {
+            await this.write(force);
+        } catch (e) {
+            console.warn('autosave failed', e);
+
+            // the modified tiles were lost with it, so write everything next time
+            this.files = new WeakMap();
+            this.meshes = new WeakMap();
+            this.referencedFiles = null;
+            this.storedFiles = new Set();
+            this.lastSession = null;
+        } finally {
+            this.saving = false;
+        }
+    }
+
+    private async write(force: boolean) {
+        const { slate, mesh } = this.windowManager;
+        const modified = slate.history.takeModifiedTiles();
+        if (modified.size > 0) {
+            this.unsaved = true;
+        }
+
+        const tiles: PendingTile[] = [];
+        const newFiles = new Map<Float32Array, string>();
+
+        let meshDirectory = mesh && this.meshes.get(mesh.data);
+        const newMesh = mesh && !meshDirectory;
+        if (newMesh) {
+            meshDirectory = `${this.filePrefix}/mesh-${this.nextFile++}`;
+        }
+
+        const manifest = createManifest(
+            this.windowManager,
+            (layerIndex, channel, pixels) => {
+                let file = this.files.get(pixels);
+                let changed = modified.get(pixels) || [];
+
+                // undo can bring back a removed layer after its tiles were deleted, only its swapped tiles are modified
+                if (file && !this.storedFiles.has(file)) {
+                    this.files.delete(pixels);
+                    file = null;
+                }
+                if (!file) {
+                    file = `${this.filePrefix}/${this.nextFile++}`;
+                    newFiles.set(pixels, file);
+                    changed = allTiles(slate.width, slate.height);
+                }
+
+                for (const tile of changed) {
+                    tiles.push({
+                        file,
+                        pixels,
+                        width: slate.width,
+                        height: slate.height,
+                        components: channelStride(channel),
+                        tile,
+                    });
+                }
+
+                return file;
+            },
+            meshDirectory
+        );
+
+        const session = JSON.stringify({ manifest, unsaved: this.unsaved });
+        if (tiles.length === 0 && !newMesh && session === this.lastSession) {
+            return;
+        }
+
+        const db = await this.open();
+
+        for (let i = 0; i < tiles.length; ) {
+            const deadline = await idle(force);
+            const transaction = db.transaction(TILES, 'readwrite');
+            const done = transactionDone(transaction);
+            const store = transaction.objectStore(TILES);
+
+            // tiles painted after they're copied here are written again by the next save
+            do {
+                const tile = tiles[i++];
+                const stored: StoredTile = {
+                    tile: tile.tile,
+                    pixels: copyTile(
+                        tile.pixels,
+                        tile.width,
+                        tile.height,
+                        tile.components,
+                        tile.tile
+                    ),
+                };
+                store.put(stored, [tile.file, tile.tile]);
+            } while (
+                i < tiles.length &&
+                deadline.timeRemaining() > MIN_IDLE_TIME
+            );
+
+            await done;
+        }
+
+        if (newMesh) {
+            await idle(force);
+            const transaction = db.transaction(FILES, 'readwrite');
+            const done = transactionDone(transaction);
+            const files = meshFiles(mesh.data);
+            for (const name of MESH_FILES) {
+                transaction
+                    .objectStore(FILES)
+                    .put(files[name], manifest.mesh[name]);
+            }
+            await done;
+        }
+
+        // the manifest goes last, so a crash part way through leaves the previous session intact
+        const transaction = db.transaction(SESSION, 'readwrite');
+        const done = transactionDone(transaction);
+        const stored: AutosavedSession = {
+            manifest,
+            time: Date.now(),
+            unsaved: this.unsaved,
+        };
+        transaction.objectStore(SESSION).put(stored, SESSION_KEY);
+        await done;
+
+        this.lastSession = session;
+        newFiles.forEach((file, pixels) => this.files.set(pixels, file));
+        if (newMesh) {
+            this.meshes.set(mesh.data, meshDirectory);
+        }
+
+        await this.collectGarbage(db, manifest);
+    }
+
+    // delete whatever the manifest doesn't use anymore, like removed layers or an earlier session
+    private async collectGarbage(db: IDBDatabase, manifest: ProjectManifest) {
+        const referenced = new Set<string>();
+        for (const layer of manifest.layers) {
+            for (const name in layer.channels) {
+                referenced.add(layer.channels[name]);
+            }
+        }
+        if (manifest.mesh) {
+            MESH_FILES.forEach((name) => referenced.add(manifest.mesh[name]));
+        }
+
+        const files = Array.from(referenced).sort().join();
+        if (files === this.referencedFiles) return;
+
+        // buffers still mapped to the files deleted here are written in full if they come back
+        this.storedFiles = referenced;
+
+        const transaction = db.transaction([TILES, FILES], 'readwrite');
+        const done = transactionDone(transaction);
+        const tileStore = transaction.objectStore(TILES);
+        const fileStore = transaction.objectStore(FILES);
+
+        const [tileKeys, fileKeys] = await Promise.all([
+            request(tileStore.getAllKeys()),
+            request(fileStore.getAllKeys()),
+        ]);
+        for (const key of tileKeys) {
+            if (!referenced.has(key[0])) tileStore.delete(key);
+        }
+        for (const key of fileKeys) {
+            if (!referenced.has(key as string)) fileStore.delete(key);
+        }
+
+        await done;
+        this.referencedFiles = files;
+    }
+}
+
+const openDatabase = () =>
+    new Promise<IDBDatabase>((resolve, reject) => {
+        const open = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+        open.onupgradeneeded = () => {
+            const db = open.result;
+            db.createObjectStore(SESSION);
+            db.createObjectStore(TILES);
+            db.createObjectStore(FILES);
+        };
+        open.onsuccess = () => resolve(open.result);
+        open.onerror = () => reject(open.error);
+    });
+
+const request = <T>(req: IDBRequest<T>) =>
+    new Promise<T>((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction) =>
+    new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+
+// wait for the browser to be idle, or not at all when forced
+const idle = (force: boolean) =>
+    new Promise<IdleDeadline>((resolve) => {
+        if (force) {
+            resolve({ didTimeout: true, timeRemaining: () => Infinity });
+        } else if (typeof requestIdleCallback === 'function') {
+            requestIdleCallback(resolve, { timeout: AUTOSAVE_INTERVAL });
+        } else {
+            // no idle callbacks in this browser, a short slice after the current frame will do
+            setTimeout(() => {
+                const end = performance.now() + 8;
+                resolve({
+                    didTimeout: false,
+                    timeRemaining: () => Math.max(end - performance.now(), 0),
+                });
+            });
+        }
+    });
+
+// every tile of a file, from [file, 0] to [file, Infinity]
+const fileRange = (file: string) =>
+    IDBKeyRange.bound([file, 0], [file, Infinity]);
+
+const allTiles = (width: number, height: number) => {
+    const count = Math.ceil(width / TILE_SIZE) * Math.ceil(height / TILE_SIZE);
+    return Array.from({ length: count }, (_, i) => i);
+};
+
+// tiles are numbered row by row, like the undo history does
+const tileRect = (width: number, height: number, tile: number) => {
+    const tilesX = Math.ceil(width / TILE_SIZE);
+    const x = (tile % tilesX) * TILE_SIZE;
+    const y = Math.floor(tile / tilesX) * TILE_SIZE;
+    return {
+        x,
+        y,
+        width: Math.min(TILE_SIZE, width - x),
+        height: Math.min(TILE_SIZE, height - y),
+    };
+};
+
+// copy a tile out of `pixels` with its rows packed together
+const copyTile = (
+    pixels: Float32Array,
+    width: number,
+    height: number,
+    components: number,
+    tile: number
+) => {
+    const rect = tileRect(width, height, tile);
+    const rowLength = rect.width * components;
+    const out = new Float32Array(rowLength * rect.height);
+
+    for (let row = 0; row < rect.height; row++) {
+        const start = ((rect.y + row) * width + rect.x) * components;
+        out.set(pixels.subarray(start, start + rowLength), row * rowLength);
+    }
+    return out;
+};
+
+const pasteTile = (
+    pixels: Float32Array,
+    width: number,
+    height: number,
+    components: number,
+    tile: number,
+    data: Float32Array
+) => {
+    const rect = tileRect(width, height, tile);
+    const rowLength = rect.width * components;
+
+    for (let row = 0; row < rect.height; row++) {
+        const start = ((rect.y + row) * width + rect.x) * components;
+        pixels.set(
+            data.subarray(row * rowLength, (row + 1) * rowLength),
+            start
+        );
+    }
+};
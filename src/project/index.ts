@@ -0,0 +1,422 @@
+// .texpaint project files
+// A zip archive with a JSON manifest describing the session and raw little-endian buffers for the pixels and mesh.
+// Enums are stored by name so reordering them doesn't break old projects.
+
+import { quat, vec2, vec3 } from 'gl-matrix';
+import { BrushBlendMode, BrushSettings } from '../brushEngine';
+import BrushTip, { SerializedBrushTip } from '../brushTip';
+import {
+    deserializeDynamics,
+    SerializedDynamics,
+    serializeDynamics,
+} from '../dynamics';
+import { Channel, CHANNELS, channelStride } from '../channels';
+import { ColorSpace } from '../colorSpace';
+import { Background, EnvironmentSettings } from '../environment';
+import Layer, { BlendMode } from '../layer';
+import Asset, { AssetType } from '../loader/asset';
+import MeshData, { Triangle } from '../loader/meshData';
+import { SwatchSettings } from '../palettes';
+import type { MeshView } from '../widgets/meshDisplay';
+import type WindowManager from '../windowManager';
+import migrateManifest, { PROJECT_VERSION } from './migrations';
+import { readZip, writeZip, ZipEntry } from './zip';
+
+export const PROJECT_EXTENSION = 'texpaint';
+
+const MANIFEST = 'manifest.json';
+
+export interface Project {
+    width: number;
+    height: number;
+    layers: Layer[];
+    activeLayerIndex: number;
+    workingSpace: ColorSpace;
+    mesh: MeshData;
+    view: MeshView;
+    brush: BrushSettings;
+    swatches: SwatchSettings;
+    environment: EnvironmentSettings;
+}
+
+// the manifest as it's written for the current version, older versions are migrated to this
+export interface ProjectManifest {
+    version: number;
+    width: number;
+    height: number;
+    activeLayerIndex: number;
+    workingSpace: string; // of the color channels in the layers
+    layers: {
+        name: string;
+        opacity: number;
+        visible: boolean;
+        blendMode: string;
+        channels: { [channel: string]: string }; // file in the archive for each painted channel
+    }[];
+    mesh: {
+        name: string;
+        vertices: string;
+        normals: string;
+        uvs: string;
+        triangles: string;
+    };
+    view: {
+        position: number[];
+        rotation: number[];
+        scale: number;
+    };
+    brush: {
+        radius: number;
+        color: number[];
+        spacing: number;
+        channels: string[];
+        channelValues: { [channel: string]: number[] };
+        hardness: number;
+        roundness: number;
+        angle: number;
+        angleJitter: number;
+        tip: SerializedBrushTip;
+        opacity: number;
+        flow: number;
+        blendMode: string;
+        dynamics: SerializedDynamics;
+    };
+    swatches: {
+        palettes: {
+            name: string;
+            swatches: { name: string; color: number[] }[]; // sRGB
+        }[];
+        recent: number[][];
+    };
+    environment: {
+        name: string;
+        rotation: number; // in degrees
+        intensity: number;
+        blur: number;
+        background: string;
+        backgroundColor: number[]; // sRGB
+        gradientColor: number[];
+    };
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const bytesOf = (array: Float32Array | Uint32Array) =>
+    new Uint8Array(array.buffer, array.byteOffset, array.byteLength);
+
+const flatten = <T extends Float32Array | Uint32Array>(
+    out: T,
+    vectors: ArrayLike<number>[],
+    size: number
+) => {
+    for (let i = 0; i < vectors.length; i++) {
+        for (let j = 0; j < size; j++) {
+            out[i * size + j] = vectors[i][j];
+        }
+    }
+    return out;
+};
+
+// describe the session, `channelFile` names the file a layer channel's pixels are stored in
+// and mesh files go in `meshDirectory`
+export function createManifest(
+    windowManager: WindowManager,
+    channelFile: (
+        layerIndex: number,
+        channel: Channel,
+        pixels: Float32Array
+    ) => string,
+    meshDirectory: string
+): ProjectManifest {
+    const { slate, brushEngine, meshView } = windowManager;
+
+    const layers = slate.layers.map((layer, i) => {
+        const channels = {};
+        for (const channel of CHANNELS) {
+            if (!layer.hasChannel(channel)) continue;
+
+            channels[Channel[channel]] = channelFile(
+                i,
+                channel,
+                layer.channels[channel]
+            );
+        }
+
+        return {
+            name: layer.name,
+            opacity: layer.opacity,
+            visible: layer.visible,
+            blendMode: BlendMode[layer.blendMode],
+            channels,
+        };
+    });
+
+    let mesh = null;
+    if (windowManager.mesh) {
+        mesh = {
+            name: windowManager.mesh.data.name,
+            vertices: `${meshDirectory}/vertices.f32`,
+            normals: `${meshDirectory}/normals.f32`,
+            uvs: `${meshDirectory}/uvs.f32`,
+            triangles: `${meshDirectory}/triangles.u32`,
+        };
+    }
+
+    const brush = brushEngine.getSettings();
+    const environment = windowManager.environments.getSettings();
+    const channelValues = {};
+    for (const channel in brush.channelValues) {
+        channelValues[Channel[channel]] = brush.channelValues[channel];
+    }
+
+    return {
+        version: PROJECT_VERSION,
+        width: slate.width,
+        height: slate.height,
+        activeLayerIndex: slate.activeLayerIndex,
+        workingSpace: ColorSpace[slate.workingSpace],
+        layers,
+        mesh,
+        view: {
+            position: Array.from(meshView.position),
+            rotation: Array.from(meshView.rotation),
+            scale: meshView.scale,
+        },
+        brush: {
+            radius: brush.radius,
+            color: brush.color,
+            spacing: brush.spacing,
+            channels: brush.channels.map((channel) => Channel[channel]),
+            channelValues,
+            hardness: brush.hardness,
+            roundness: brush.roundness,
+            angle: brush.angle,
+            angleJitter: brush.angleJitter,
+            tip: brush.tip ? brush.tip.serialize() : null,
+            opacity: brush.opacity,
+            flow: brush.flow,
+            blendMode: BrushBlendMode[brush.blendMode],
+            dynamics: serializeDynamics(brush.dynamics),
+        },
+        swatches: windowManager.swatches.getSettings(),
+        environment: {
+            ...environment,
+            background: Background[environment.background],
+        },
+    };
+}
+
+// the contents of each mesh file named in the manifest
+export function meshFiles(data: MeshData) {
+    return {
+        vertices: bytesOf(
+            flatten(
+                new Float32Array(data.vertices.length * 3),
+                data.vertices,
+                3
+            )
+        ),
+        normals: bytesOf(
+            flatten(
+                new Float32Array(data.vertexNormals.length * 3),
+                data.vertexNormals,
+                3
+            )
+        ),
+        uvs: bytesOf(
+            flatten(new Float32Array(data.uvs.length * 2), data.uvs, 2)
+        ),
+        triangles: bytesOf(
+            flatten(
+                new Uint32Array(data.triangles.length * 3),
+                data.triangles,
+                3
+            )
+        ),
+    };
+}
+
+export async function saveProject(windowManager: WindowManager) {
+    const entries: ZipEntry[] = [];
+
+    const manifest = createManifest(
+        windowManager,
+        (layerIndex, channel, pixels) => {
+            const name = `layers/${layerIndex}/${Channel[channel]}.f32`;
+            entries.push({ name, data: bytesOf(pixels) });
+            return name;
+        },
+        'mesh'
+    );
+
+    if (manifest.mesh) {
+        const files = meshFiles(windowManager.mesh.data);
+        for (const file in files) {
+            entries.push({ name: manifest.mesh[file], data: files[file] });
+        }
+    }
+
+    // the manifest goes first so it's easy to find when poking at a project by hand
+    entries.unshift({
+        name: MANIFEST,
+        data: encoder.encode(JSON.stringify(manifest, null, 4)),
+    });
+
+    return new Blob([await writeZip(entries)], {
+        type: 'application/x-texpaint',
+    });
+}
+
+export async function parseProject(buffer: ArrayBuffer): Promise<Asset> {
+    const files = await readZip(buffer);
+    const manifest = JSON.parse(decoder.decode(getFile(files, MANIFEST)));
+
+    return {
+        type: AssetType.Project,
+        project: readProject(manifest, files),
+    };
+}
+
+const getFile = (files: Map<string, Uint8Array>, name: string) => {
+    if (!files.has(name)) {
+        throw new Error(`project is missing ${name}`);
+    }
+    return files.get(name);
+};
+
+// rebuild a project from its manifest, `files` has every file the manifest names
+export function readProject(
+    savedManifest: any,
+    files: Map<string, Uint8Array>
+): Project {
+    // copy into a fresh buffer so the typed array is aligned
+    const getFloats = (name: string) =>
+        new Float32Array(getFile(files, name).slice().buffer);
+
+    const manifest = migrateManifest(savedManifest);
+
+    const layers = manifest.layers.map((properties) => {
+        const layer = new Layer(
+            properties.name,
+            manifest.width,
+            manifest.height
+        );
+        layer.opacity = properties.opacity;
+        layer.visible = properties.visible;
+        layer.blendMode = BlendMode[properties.blendMode] ?? BlendMode.Normal;
+
+        for (const name in properties.channels) {
+            const channel: Channel = Channel[name];
+            if (channel === undefined) {
+                console.warn(`skipping unknown channel ${name}`);
+                continue;
+            }
+
+            const pixels = getFloats(properties.channels[name]);
+            const expected =
+                manifest.width * manifest.height * channelStride(channel);
+            if (pixels.length !== expected) {
+                throw new Error(
+                    `${properties.channels[name]} has the wrong size`
+                );
+            }
+            layer.channels[channel] = pixels;
+        }
+
+        return layer;
+    });
+
+    let mesh: MeshData = null;
+    if (manifest.mesh) {
+        const vertices = getFloats(manifest.mesh.vertices);
+        const normals = getFloats(manifest.mesh.normals);
+        const uvs = getFloats(manifest.mesh.uvs);
+        const triangles = new Uint32Array(
+            getFile(files, manifest.mesh.triangles).slice().buffer
+        );
+
+        mesh = new MeshData(manifest.mesh.name);
+        for (let i = 0; i < vertices.length / 3; i++) {
+            mesh.vertices.push(
+                vec3.fromValues(
+                    vertices[i * 3],
+                    vertices[i * 3 + 1],
+                    vertices[i * 3 + 2]
+                )
+            );
+            mesh.vertexNormals.push(
+                vec3.fromValues(
+                    normals[i * 3],
+                    normals[i * 3 + 1],
+                    normals[i * 3 + 2]
+                )
+            );
+            mesh.uvs.push(vec2.fromValues(uvs[i * 2], uvs[i * 2 + 1]));
+        }
+        for (let i = 0; i < triangles.length; i += 3) {
+            const triangle: Triangle = [
+                triangles[i],
+                triangles[i + 1],
+                triangles[i + 2],
+            ];
+            mesh.triangles.push(triangle);
+        }
+        mesh.buildBVH();
+    }
+
+    const [px, py, pz] = manifest.view.position;
+    const [rx, ry, rz, rw] = manifest.view.rotation;
+    const view: MeshView = {
+        position: vec3.fromValues(px, py, pz),
+        rotation: quat.fromValues(rx, ry, rz, rw),
+        scale: manifest.view.scale,
+    };
+
+    const channelValues = {};
+    for (const name in manifest.brush.channelValues) {
+        if (Channel[name] !== undefined) {
+            channelValues[Channel[name]] = manifest.brush.channelValues[name];
+        }
+    }
+    const brush: BrushSettings = {
+        radius: manifest.brush.radius,
+        color: manifest.brush.color,
+        spacing: manifest.brush.spacing,
+        channels: manifest.brush.channels
+            .map((name) => Channel[name])
+            .filter((channel) => channel !== undefined),
+        channelValues,
+        hardness: manifest.brush.hardness,
+        roundness: manifest.brush.roundness,
+        angle: manifest.brush.angle,
+        angleJitter: manifest.brush.angleJitter,
+        tip: manifest.brush.tip
+            ? BrushTip.deserialize(manifest.brush.tip)
+            : null,
+        opacity: manifest.brush.opacity,
+        flow: manifest.brush.flow,
+        blendMode:
+            BrushBlendMode[manifest.brush.blendMode] ?? BrushBlendMode.Normal,
+        dynamics: deserializeDynamics(manifest.brush.dynamics),
+    };
+
+    return {
+        width: manifest.width,
+        height: manifest.height,
+        layers,
+        activeLayerIndex: manifest.activeLayerIndex,
+        workingSpace:
+            ColorSpace[manifest.workingSpace] ?? ColorSpace.LinearRec709,
+        mesh,
+        view,
+        brush,
+        swatches: manifest.swatches,
+        environment: {
+            ...manifest.environment,
+            background:
+                Background[manifest.environment.background] ??
+                Background.Environment,
+        },
+    };
+}
@@ -0,0 +1,35 @@
+// Upgrading manifests written by older versions of texpaint
+// When the manifest changes, bump PROJECT_VERSION and add a migration from the previous version.
+
+import type { ProjectManifest } from '.';
+
+export const PROJECT_VERSION = 1;
+
+// each migration takes a manifest of version `n` and returns one of version `n + 1`
+const migrations: { [version: number]: (manifest: any) => any } = {};
+
+export default function migrateManifest(manifest: any): ProjectManifest {
+    if (typeof manifest.version !== 'number') {
+        throw new Error('project manifest has no version');
+    }
+
+    if (manifest.version > PROJECT_VERSION) {
+        throw new Error(
+            `project was saved by a newer version of texpaint (version ${manifest.version})`
+        );
+    }
+
+    while (manifest.version < PROJECT_VERSION) {
+        const migrate = migrations[manifest.version];
+        if (!migrate) {
+            throw new Error(
+                `can't open projects from version ${manifest.version}`
+            );
+        }
+
+        manifest = migrate(manifest);
+        manifest.version++;
+    }
+
+    return manifest;
+}
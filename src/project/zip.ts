@@ -0,0 +1,154 @@
+// Minimal zip archive reading and writing, enough for project files
+// No zip64, so archives and entries are limited to 4GB.
+
+import { concat, crc32, deflate, inflate } from '../binary';
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+const VERSION = 20; // 2.0, deflate
+const UTF8_NAMES = 0x0800;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+export async function writeZip(entries: ZipEntry[]): Promise<Uint8Array> {
+    const parts: Uint8Array[] = [];
+    const central: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const name = encoder.encode(entry.name);
+        const crc = crc32(entry.data);
+
+        let method = DEFLATED;
+        let data = await deflate(entry.data, 'deflate-raw');
+        if (data.length >= entry.data.length) {
+            method = STORED;
+            data = entry.data;
+        }
+
+        if (offset + data.length > 0xffffffff) {
+            throw new Error('project is too large to save');
+        }
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_HEADER, true);
+        local.setUint16(4, VERSION, true);
+        local.setUint16(6, UTF8_NAMES, true);
+        local.setUint16(8, method, true);
+        local.setUint16(10, 0, true); // modification time
+        local.setUint16(12, 0x21, true); // modification date, 1980-01-01
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, entry.data.length, true);
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true); // extra field length
+
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, CENTRAL_HEADER, true);
+        header.setUint16(4, VERSION, true); // made by
+        header.setUint16(6, VERSION, true); // needed to extract
+        header.setUint16(8, UTF8_NAMES, true);
+        header.setUint16(10, method, true);
+        header.setUint16(12, 0, true);
+        header.setUint16(14, 0x21, true);
+        header.setUint32(16, crc, true);
+        header.setUint32(20, data.length, true);
+        header.setUint32(24, entry.data.length, true);
+        header.setUint16(28, name.length, true);
+        header.setUint32(42, offset, true); // local header
+        // extra, comment, disk and attributes are all zero
+
+        parts.push(new Uint8Array(local.buffer), name, data);
+        central.push(new Uint8Array(header.buffer), name);
+        offset += 30 + name.length + data.length;
+    }
+
+    const directory = concat(central);
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+    end.setUint16(8, entries.length, true); // entries on this disk
+    end.setUint16(10, entries.length, true); // total entries
+    end.setUint32(12, directory.length, true);
+    end.setUint32(16, offset, true);
+
+    return concat([...parts, directory, new Uint8Array(end.buffer)]);
+}
+
+export async function readZip(
+    buffer: ArrayBuffer
+): Promise<Map<string, Uint8Array>> {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+
+    // the end record is at the end, unless there's a trailing comment
+    let end = bytes.length - 22;
+    while (end >= 0 && view.getUint32(end, true) !== END_OF_CENTRAL_DIRECTORY) {
+        end--;
+    }
+    if (end < 0) {
+        throw new Error('not a zip archive');
+    }
+
+    const count = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+
+    const entries = new Map<string, Uint8Array>();
+
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(offset, true) !== CENTRAL_HEADER) {
+            throw new Error('corrupt zip central directory');
+        }
+
+        const method = view.getUint16(offset + 10, true);
+        const crc = view.getUint32(offset + 16, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(
+            bytes.subarray(offset + 46, offset + 46 + nameLength)
+        );
+
+        // the local header's extra field can differ from the central one
+        const dataOffset =
+            localOffset +
+            30 +
+            view.getUint16(localOffset + 26, true) +
+            view.getUint16(localOffset + 28, true);
+        const compressed = bytes.subarray(
+            dataOffset,
+            dataOffset + compressedSize
+        );
+
+        let data: Uint8Array;
+        if (method === STORED) {
+            data = compressed.slice();
+        } else if (method === DEFLATED) {
+            data = await inflate(compressed, 'deflate-raw');
+        } else {
+            throw new Error(`unsupported zip compression method ${method}`);
+        }
+
+        if (crc32(data) !== crc) {
+            throw new Error(`${name} is corrupt`);
+        }
+
+        entries.set(name, data);
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+}
@@ -0,0 +1,41 @@
+// Axis-aligned pixel rectangles, [x0, x1) x [y0, y1)
+
+export interface Rect {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+}
+
+// grows to fit whatever is added to it
+export const emptyRect = (): Rect => ({
+    x0: Infinity,
+    y0: Infinity,
+    x1: -Infinity,
+    y1: -Infinity,
+});
+
+export const isEmptyRect = (rect: Rect) =>
+    rect.x1 <= rect.x0 || rect.y1 <= rect.y0;
+
+export function extendRect(
+    rect: Rect,
+    x0: number,
+    y0: number,
+    x1: number,
+    y1: number
+) {
+    rect.x0 = Math.min(rect.x0, x0);
+    rect.y0 = Math.min(rect.y0, y0);
+    rect.x1 = Math.max(rect.x1, x1);
+    rect.y1 = Math.max(rect.y1, y1);
+    return rect;
+}
+
+// the part of `rect` inside a `width` x `height` image
+export const clampRect = (rect: Rect, width: number, height: number): Rect => ({
+    x0: Math.max(rect.x0, 0),
+    y0: Math.max(rect.y0, 0),
+    x1: Math.min(rect.x1, width),
+    y1: Math.min(rect.y1, height),
+});
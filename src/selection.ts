@@ -0,0 +1,407 @@
+// The selected area of a Slate, stored as a soft mask that scales brush coverage
+// Without a mask everything can be painted, which is also how "nothing selected" behaves.
+
+import { vec2 } from 'gl-matrix';
+import { ColorSpace, convertPixels } from './colorSpace';
+
+export enum SelectionMode {
+    Replace,
+    Add,
+    Subtract,
+    Intersect,
+}
+
+export const SELECTION_MODE_NAMES: { [mode: number]: string } = {
+    [SelectionMode.Replace]: 'Replace',
+    [SelectionMode.Add]: 'Add',
+    [SelectionMode.Subtract]: 'Subtract',
+    [SelectionMode.Intersect]: 'Intersect',
+};
+
+// vertical sub-scanlines per pixel when rasterizing shapes, for anti-aliased edges
+const SUBSAMPLES = 4;
+
+export default class Selection {
+    width: number;
+    height: number;
+
+    mask: Float32Array; // coverage of each pixel in [0, 1], null when there's no selection
+
+    // settings for the selection tools
+    mode: SelectionMode;
+    tolerance: number; // magic wand, in 8-bit sRGB steps
+    contiguous: boolean; // magic wand only selects pixels connected to the one clicked
+
+    texture: WebGLTexture;
+    private dirty: boolean;
+
+    constructor(gl: WebGLRenderingContext, width: number, height: number) {
+        this.width = width;
+        this.height = height;
+        this.mask = null;
+
+        this.mode = SelectionMode.Replace;
+        this.tolerance = 32;
+        this.contiguous = true;
+
+        this.texture = gl.createTexture();
+        this.dirty = true;
+    }
+
+    get active() {
+        return this.mask !== null;
+    }
+
+    // how much of a brush dab lands on the pixel at `index`
+    coverageAt(index: number) {
+        return this.mask ? this.mask[index] : 1;
+    }
+
+    resize(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+        this.deselect();
+    }
+
+    deselect() {
+        this.mask = null;
+        this.dirty = true;
+    }
+
+    selectAll() {
+        this.mask = new Float32Array(this.width * this.height).fill(1);
+        this.dirty = true;
+    }
+
+    invert() {
+        if (!this.mask) return; // the inverse of nothing selected would be an empty selection
+
+        for (let i = 0; i < this.mask.length; i++) {
+            this.mask[i] = 1 - this.mask[i];
+        }
+        this.finishEdit();
+    }
+
+    // combine `shape`, a coverage mask the size of the selection, with the current selection
+    apply(shape: Float32Array, mode: SelectionMode = this.mode) {
+        if (!this.mask) {
+            // with nothing selected every mode starts a new selection, except subtracting from nothing
+            if (mode === SelectionMode.Subtract) return;
+            mode = SelectionMode.Replace;
+        }
+
+        switch (mode) {
+            case SelectionMode.Replace:
+                this.mask = shape;
+                break;
+            case SelectionMode.Add:
+                for (let i = 0; i < shape.length; i++) {
+                    this.mask[i] = Math.max(this.mask[i], shape[i]);
+                }
+                break;
+            case SelectionMode.Subtract:
+                for (let i = 0; i < shape.length; i++) {
+                    this.mask[i] = Math.min(this.mask[i], 1 - shape[i]);
+                }
+                break;
+            case SelectionMode.Intersect:
+                for (let i = 0; i < shape.length; i++) {
+                    this.mask[i] = Math.min(this.mask[i], shape[i]);
+                }
+                break;
+        }
+
+        this.finishEdit();
+    }
+
+    // soften the edges, `radius` is roughly where the falloff ends in pixels
+    feather(radius: number) {
+        if (!this.mask || radius <= 0) return;
+
+        // three box blurs come close enough to a gaussian with sigma = radius / 2
+        const boxRadius = Math.max(Math.round(radius / 2), 1);
+        const temp = new Float32Array(this.mask.length);
+        for (let i = 0; i < 3; i++) {
+            boxBlur(this.mask, temp, this.width, this.height, boxRadius, 1);
+            boxBlur(
+                temp,
+                this.mask,
+                this.height,
+                this.width,
+                boxRadius,
+                this.width
+            );
+        }
+
+        this.finishEdit();
+    }
+
+    // an empty selection is dropped, the same as deselecting
+    private finishEdit() {
+        let empty = true;
+        for (let i = 0; i < this.mask.length; i++) {
+            if (this.mask[i] > 0) {
+                empty = false;
+                break;
+            }
+        }
+
+        if (empty) {
+            this.mask = null;
+        }
+        this.dirty = true;
+    }
+
+    uploadTexture(gl: WebGLRenderingContext) {
+        if (!this.dirty) return;
+        this.dirty = false;
+
+        if (!this.mask) return;
+
+        // 8 bits is plenty to find the edge for marching ants
+        const pixels = new Uint8Array(this.mask.length);
+        for (let i = 0; i < pixels.length; i++) {
+            pixels[i] = Math.round(this.mask[i] * 255);
+        }
+
+        gl.bindTexture(gl.TEXTURE_2D, this.texture);
+        gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1); // rows aren't padded to 4 bytes
+        gl.texImage2D(
+            gl.TEXTURE_2D,
+            0,
+            gl.LUMINANCE,
+            this.width,
+            this.height,
+            0,
+            gl.LUMINANCE,
+            gl.UNSIGNED_BYTE,
+            pixels
+        );
+        gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4);
+
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    }
+}
+
+// Shapes
+// each of these returns a coverage mask to pass to Selection.apply
+
+// fill a closed polygon in pixel coordinates with the even-odd rule, so self-intersecting lassos still work
+export function rasterizePolygon(
+    points: vec2[],
+    width: number,
+    height: number
+) {
+    const mask = new Float32Array(width * height);
+    if (points.length < 3) return mask;
+
+    const weight = 1 / SUBSAMPLES;
+    const crossings: number[] = [];
+
+    let minY = Infinity;
+    let maxY = -Infinity;
+    for (const point of points) {
+        minY = Math.min(minY, point[1]);
+        maxY = Math.max(maxY, point[1]);
+    }
+    const startRow = Math.max(Math.floor(minY), 0);
+    const endRow = Math.min(Math.ceil(maxY), height);
+
+    for (let row = startRow; row < endRow; row++) {
+        for (let sample = 0; sample < SUBSAMPLES; sample++) {
+            const y = row + (sample + 0.5) / SUBSAMPLES;
+
+            crossings.length = 0;
+            for (let i = 0; i < points.length; i++) {
+                const a = points[i];
+                const b = points[(i + 1) % points.length];
+                if (a[1] <= y === b[1] <= y) continue; // doesn't cross this line
+
+                const t = (y - a[1]) / (b[1] - a[1]);
+                crossings.push(a[0] + t * (b[0] - a[0]));
+            }
+            crossings.sort((a, b) => a - b);
+
+            for (let i = 0; i + 1 < crossings.length; i += 2) {
+                fillSpan(
+                    mask,
+                    width,
+                    row,
+                    crossings[i],
+                    crossings[i + 1],
+                    weight
+                );
+            }
+        }
+    }
+
+    return mask;
+}
+
+// the corners of an axis-aligned rectangle between two opposite corners
+export function rectanglePolygon(a: vec2, b: vec2) {
+    return [
+        vec2.fromValues(a[0], a[1]),
+        vec2.fromValues(b[0], a[1]),
+        vec2.fromValues(b[0], b[1]),
+        vec2.fromValues(a[0], b[1]),
+    ];
+}
+
+// an ellipse inscribed in the rectangle between two opposite corners, with segments about 2 pixels long
+export function ellipsePolygon(a: vec2, b: vec2) {
+    const cx = (a[0] + b[0]) / 2;
+    const cy = (a[1] + b[1]) / 2;
+    const rx = Math.abs(b[0] - a[0]) / 2;
+    const ry = Math.abs(b[1] - a[1]) / 2;
+
+    const perimeter = 2 * Math.PI * Math.sqrt((rx * rx + ry * ry) / 2);
+    const segments = Math.max(Math.ceil(perimeter / 2), 16);
+
+    const points: vec2[] = [];
+    for (let i = 0; i < segments; i++) {
+        const angle = (i / segments) * 2 * Math.PI;
+        points.push(
+            vec2.fromValues(
+                cx + Math.cos(angle) * rx,
+                cy + Math.sin(angle) * ry
+            )
+        );
+    }
+    return points;
+}
+
+// select pixels within `tolerance` 8-bit sRGB steps of the pixel at (x, y), comparing every channel and alpha
+// `pixels` are straight-alpha RGBA in `space`, the slate's working space
+export function magicWand(
+    pixels: Float32Array,
+    space: ColorSpace,
+    width: number,
+    height: number,
+    x: number,
+    y: number,
+    tolerance: number,
+    contiguous: boolean
+) {
+    const mask = new Float32Array(width * height);
+    x = Math.floor(x);
+    y = Math.floor(y);
+    if (x < 0 || x >= width || y < 0 || y >= height) return mask;
+
+    // compare in sRGB so the tolerance matches what the color looks like
+    const encoded = pixels.slice();
+    convertPixels(encoded, 4, space, ColorSpace.Srgb);
+    for (let i = 0; i < encoded.length; i++) {
+        encoded[i] *= 255;
+    }
+
+    const seed = (y * width + x) * 4;
+    const matches = (index: number) => {
+        for (let c = 0; c < 4; c++) {
+            if (
+                Math.abs(encoded[index * 4 + c] - encoded[seed + c]) > tolerance
+            ) {
+                return false;
+            }
+        }
+        return true;
+    };
+
+    if (!contiguous) {
+        for (let i = 0; i < mask.length; i++) {
+            if (matches(i)) mask[i] = 1;
+        }
+        return mask;
+    }
+
+    // scanline flood fill, 4-connected
+    const stack = [y * width + x];
+    while (stack.length > 0) {
+        const index = stack.pop();
+        const row = Math.floor(index / width);
+        if (mask[index] || !matches(index)) continue;
+
+        let left = index;
+        while (left % width > 0 && !mask[left - 1] && matches(left - 1)) {
+            left--;
+        }
+        let right = index;
+        while (
+            right % width < width - 1 &&
+            !mask[right + 1] &&
+            matches(right + 1)
+        ) {
+            right++;
+        }
+
+        for (let i = left; i <= right; i++) {
+            mask[i] = 1;
+            if (row > 0 && !mask[i - width]) stack.push(i - width);
+            if (row < height - 1 && !mask[i + width]) stack.push(i + width);
+        }
+    }
+
+    return mask;
+}
+
+// add `weight` times the coverage of [x0, x1) to a row of the mask, with fractional coverage at the ends
+const fillSpan = (
+    mask: Float32Array,
+    width: number,
+    row: number,
+    x0: number,
+    x1: number,
+    weight: number
+) => {
+    x0 = Math.max(x0, 0);
+    x1 = Math.min(x1, width);
+    if (x1 <= x0) return;
+
+    const first = Math.floor(x0);
+    const last = Math.min(Math.ceil(x1) - 1, width - 1);
+    const offset = row * width;
+
+    if (first === last) {
+        mask[offset + first] += (x1 - x0) * weight;
+        return;
+    }
+
+    mask[offset + first] += (first + 1 - x0) * weight;
+    for (let x = first + 1; x < last; x++) {
+        mask[offset + x] += weight;
+    }
+    mask[offset + last] += (x1 - last) * weight;
+};
+
+// blur each line of `input` into `output` with a box of `radius` pixels, clamping at the edges
+// lines are `length` long and `step` elements apart within a line, so the same code blurs rows or columns
+const boxBlur = (
+    input: Float32Array,
+    output: Float32Array,
+    length: number,
+    lines: number,
+    radius: number,
+    step: number
+) => {
+    const lineStride = step === 1 ? length : 1;
+    const size = radius * 2 + 1;
+
+    for (let line = 0; line < lines; line++) {
+        const start = line * lineStride;
+        const at = (i: number) =>
+            input[start + Math.min(Math.max(i, 0), length - 1) * step];
+
+        let sum = 0;
+        for (let i = -radius; i <= radius; i++) {
+            sum += at(i);
+        }
+
+        for (let i = 0; i < length; i++) {
+            output[start + i * step] = sum / size;
+            sum += at(i + radius + 1) - at(i - radius);
+        }
+    }
+};
@@ -0,0 +1,10 @@
+precision mediump float;
+
+// Bradford adaptation from the ACES white to D65
+const mat3 D60_2_D65_CAT = mat3(
+    0.9872240, -0.0061133, 0.0159533,
+    -0.0075983, 1.0018613, 0.0053300,
+    0.0030726, -0.0050960, 1.0816807
+);
+
+#pragma glslify: export(D60_2_D65_CAT)
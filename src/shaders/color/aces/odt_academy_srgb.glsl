@@ -54,16 +54,17 @@ UNDISCLOSED.
 
 #pragma glslify: rgb_to_srgb = require('~/src/shaders/color/rgb_to_srgb')
 #pragma glslify: log10 = require('~/src/shaders/color/aces/log10')
-#pragma glslify: segmented_spline_c5_fwd = require(~/src/shaders/color/aces/segmented_spline_c5_fwd')
+#pragma glslify: segmented_spline_c5_fwd = require('~/src/shaders/color/aces/segmented_spline_c5_fwd')
 #pragma glslify: EPSILON = require('~/src/shaders/epsilon')
-#pragma glslify: M = require(~/src/shaders/color/aces/monomial')
+#pragma glslify: M = require('~/src/shaders/color/aces/monomial')
 
-#pragma glslify: AP1_2_XYZ_MAT = require(~/src/shaders/color/aces/ap1_2_xyz_mat')
-#pragma glslify: XYZ_2_AP1_MAT = require(~/src/shaders/color/aces/xyz_2_ap1_mat')
-#pragma glslify: AP1_RGB2Y = require(~/src/shaders/color/aces/ap1_rgb2y')
-#pragma glslify: AP0_2_AP1_MAT = require(~/src/shaders/color/aces/ap0_2_ap1_mat')
-#pragma glslify: XYZ_2_AP0_MAT = require(~/src/shaders/color/aces/xyz_2_ap0_mat')
-#pragma glslify: DISPLAY_PRI_2_XYZ = require(~/src/shaders/color/aces/display_pri_2_xyz')
+#pragma glslify: AP1_2_XYZ_MAT = require('~/src/shaders/color/aces/ap1_2_xyz_mat')
+#pragma glslify: XYZ_2_AP1_MAT = require('~/src/shaders/color/aces/xyz_2_ap1_mat')
+#pragma glslify: AP1_RGB2Y = require('~/src/shaders/color/aces/ap1_rgb2y')
+#pragma glslify: AP0_2_AP1_MAT = require('~/src/shaders/color/aces/ap0_2_ap1_mat')
+#pragma glslify: XYZ_2_AP0_MAT = require('~/src/shaders/color/aces/xyz_2_ap0_mat')
+#pragma glslify: D60_2_D65_CAT = require('~/src/shaders/color/aces/d60_2_d65_cat')
+#pragma glslify: XYZ_2_DISPLAY_PRI_MAT = require('~/src/shaders/color/aces/xyz_2_rec709_mat')
 
 precision mediump float;
 
@@ -164,7 +165,7 @@ float segmented_spline_c9_fwd(float x) {
         logy = logx * slopeHigh + ( log10(maxPoint.y) - slopeHigh * log10(maxPoint.x) );
     }
 
-    return pow(logy, 10.0);
+    return pow(10.0, logy);
 }
 
 // Target white and black points for cinema system tonescale
@@ -192,7 +193,7 @@ vec3 xyY_2_XYZ(vec3 xyY)
 {
   vec3 XYZ;
   XYZ.x = xyY.x * xyY.z / max( xyY.y, 1e-10);
-  XYZ.y = xyY.x;  
+  XYZ.y = xyY.z;  
   XYZ.z = (1.0 - xyY[0] - xyY[1]) * xyY[2] / max( xyY[1], 1e-10);
 
   return XYZ;
@@ -203,14 +204,14 @@ const float DIM_SURROUND_GAMMA = 0.9811;
 
 vec3 darkSurround_to_dimSurround( vec3 linearCV)
 {
-  vec3 XYZ = AP1_2_XYZ_MAT * linearCV; 
+  vec3 XYZ = linearCV * AP1_2_XYZ_MAT;
 
   vec3 xyY = XYZ_2_xyY(XYZ);
   xyY.z = max(xyY.z, 0.);
   xyY.z = pow(xyY.z, DIM_SURROUND_GAMMA);
   XYZ = xyY_2_XYZ(xyY);
 
-  return XYZ_2_AP1_MAT * XYZ;
+  return XYZ * XYZ_2_AP1_MAT;
 }
 
 // Saturation compensation factor
@@ -221,12 +222,6 @@ const mat3 ODT_SAT_MAT = mat3(
     vec3((1.0 - ODT_SAT_FACTOR) * AP1_RGB2Y[0], (1.0 - ODT_SAT_FACTOR) * AP1_RGB2Y[1], (1.0 - ODT_SAT_FACTOR) * AP1_RGB2Y[2] + ODT_SAT_FACTOR)
 );
 
-const mat3 XYZ_2_DISPLAY_PRI_MAT = mat3(
-    0.41239080, 0.21263901, 0.01933082,
-    0.35758434, 0.71516868, 0.11919478,
-    0.18048079, 0.07219232, 0.95053215
-);
-
 const vec2 AP0_WHITE = vec2(0.32168,  0.33767);
 const vec2 REC709_PRI_WHITE = vec2(0.31270, 0.32900);
 
@@ -268,20 +263,6 @@ mat3 calculate_cat_matrix(
     return (INV_CONE_RESP_MAT_BRADFORD * vkMat) * CONE_RESP_MAT_BRADFORD;
 }
 
-// const mat3 D60_2_D65_CAT = calculate_cat_matrix( AP0_WHITE, REC709_PRI_WHITE);
-
-const mat3 D60_2_D65_CAT = mat3(
-    1.0074907834951157, -0.006221569500961697, -0.013048924410388851,
-    -0.030625260908988792, 0.9755641622789065, -0.000645225943184724,
-    0.0005207330177655085, 0.00476541331512529, 1.0920586986267373
-);
-
-// const mat3 D60_2_D65_CAT = mat3(
-//     0.987224, -0.00759836, 0.00307257,
-//     -0.00611327, 1.00186, -0.00509595,
-//     0.0159533, 0.00533002, 1.08168
-// );
-
 // Output Device Transform - RGB computer monitor
 //
 // Summary :
@@ -325,7 +306,7 @@ const mat3 D60_2_D65_CAT = mat3(
 // Output is sRGB
 vec3 ODT_Academy_sRGB(vec3 oces) {
     // OCES to RGB rendering space
-    vec3 rgbPre = AP0_2_AP1_MAT * oces;
+    vec3 rgbPre = oces * AP0_2_AP1_MAT;
 
     // Apply the tonescale independently in rendering-space RGB
     vec3 rgbPost = vec3(
@@ -345,17 +326,17 @@ vec3 ODT_Academy_sRGB(vec3 oces) {
     linearCV = darkSurround_to_dimSurround(linearCV);
 
     // Apply desaturation to compensate for luminance difference
-    linearCV = ODT_SAT_MAT * linearCV;
+    linearCV = linearCV * ODT_SAT_MAT;
 
     // Convert to display primary encoding
     // Rendering space RGB to XYZ
-    vec3 XYZ = AP1_2_XYZ_MAT * linearCV;
+    vec3 XYZ = linearCV * AP1_2_XYZ_MAT;
 
     // Apply CAT from ACES white point to assumed observer adapted white point
-    XYZ = D60_2_D65_CAT * XYZ;
+    XYZ = XYZ * D60_2_D65_CAT;
 
     // CIE XYZ to display primaries
-    linearCV = XYZ_2_DISPLAY_PRI_MAT * XYZ;
+    linearCV = XYZ * XYZ_2_DISPLAY_PRI_MAT;
 
     // Handle out-of-gamut values
     // Clip values < 0 or > 1 (i.e. projecting outside the display primaries)
@@ -229,12 +229,12 @@ vec3 RRT(vec3 aces) {
     // --- ACES to RGB rendering space --- //
     aces = max(aces, 0.0); // avoids saturated negative colors from becoming positive in the matrix
 
-    vec3 rgbPre = AP0_2_AP1_MAT * aces;
+    vec3 rgbPre = aces * AP0_2_AP1_MAT;
 
     rgbPre = max(rgbPre, 0.0);
 
     // --- Global desaturation --- //
-    rgbPre = RRT_SAT_MAT * rgbPre;
+    rgbPre = rgbPre * RRT_SAT_MAT;
 
     // --- Apply the tonescale independently in rendering-space RGB --- //
     vec3 rgbPost = vec3(
@@ -244,7 +244,7 @@ vec3 RRT(vec3 aces) {
     );
 
     // --- RGB rendering space to OCES --- //
-    vec3 rgbOces = AP1_2_AP0_MAT * rgbPost;
+    vec3 rgbOces = rgbPost * AP1_2_AP0_MAT;
 
     return rgbOces;
 }
@@ -344,7 +344,7 @@ float segmented_spline_c9_fwd(float x) {
         logy = logx * slopeHigh + ( log10(maxPoint.y) - slopeHigh * log10(maxPoint.x) );
     }
 
-    return pow(logy, 10.0);
+    return pow(10.0, logy);
 }
 
 #pragma glslify: export(RRT)
\ No newline at end of file
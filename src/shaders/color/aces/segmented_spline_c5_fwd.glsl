@@ -98,7 +98,7 @@ float segmented_spline_c5_fwd(float x) {
 
     }
 
-    return pow(logy, 10.0);
+    return pow(10.0, logy);
 }
 
 #pragma glslify: export(segmented_spline_c5_fwd)
\ No newline at end of file
@@ -0,0 +1,9 @@
+precision mediump float;
+
+const mat3 XYZ_2_REC709_MAT = mat3(
+    3.2409699419, -1.5373831776, -0.4986107603,
+    -0.9692436363, 1.8759675015, 0.0415550574,
+    0.0556300797, -0.2039769589, 1.0569715142
+);
+
+#pragma glslify: export(XYZ_2_REC709_MAT)
@@ -0,0 +1,30 @@
+#pragma glslify: srgb_to_rgb = require('~/src/shaders/color/srgb_to_rgb')
+#pragma glslify: AP0_2_XYZ_MAT = require('~/src/shaders/color/aces/ap0_2_xyz_mat')
+#pragma glslify: AP1_2_XYZ_MAT = require('~/src/shaders/color/aces/ap1_2_xyz_mat')
+#pragma glslify: D60_2_D65_CAT = require('~/src/shaders/color/aces/d60_2_d65_cat')
+#pragma glslify: XYZ_2_REC709_MAT = require('~/src/shaders/color/aces/xyz_2_rec709_mat')
+
+precision mediump float;
+
+// ColorSpace in colorSpace.ts
+#define COLOR_SPACE_LINEAR_REC709 0
+#define COLOR_SPACE_SRGB 1
+#define COLOR_SPACE_ACESCG 2
+#define COLOR_SPACE_ACES2065_1 3
+#define COLOR_SPACE_RAW 4
+
+// the linear Rec.709 the viewport renders in, raw data is passed through
+// the ACES matrices are written row by row, so they multiply row vectors
+vec3 to_rec709(vec3 color, int colorSpace) {
+    if (colorSpace == COLOR_SPACE_SRGB) {
+        return srgb_to_rgb(color);
+    } else if (colorSpace == COLOR_SPACE_ACESCG) {
+        return color * AP1_2_XYZ_MAT * D60_2_D65_CAT * XYZ_2_REC709_MAT;
+    } else if (colorSpace == COLOR_SPACE_ACES2065_1) {
+        return color * AP0_2_XYZ_MAT * D60_2_D65_CAT * XYZ_2_REC709_MAT;
+    }
+
+    return color;
+}
+
+#pragma glslify: export(to_rec709)
@@ -0,0 +1,19 @@
+precision mediump float;
+
+// look up a 3D LUT stored as `size` slices stacked vertically, one per blue value
+// red goes across each slice and green down it, the same order .cube files list them in
+vec3 apply_lut(vec3 color, sampler2D lut, float size, vec3 domainMin, vec3 domainMax) {
+    vec3 coord = clamp((color - domainMin) / (domainMax - domainMin), 0.0, 1.0) * (size - 1.0);
+
+    // red and green are filtered by the texture, blue by hand between slices
+    float slice = floor(coord.b);
+    float nextSlice = min(slice + 1.0, size - 1.0);
+    vec2 uv = (coord.rg + 0.5) / vec2(size, size * size);
+
+    vec3 lower = texture2D(lut, uv + vec2(0.0, slice / size)).rgb;
+    vec3 upper = texture2D(lut, uv + vec2(0.0, nextSlice / size)).rgb;
+
+    return mix(lower, upper, coord.b - slice);
+}
+
+#pragma glslify: export(apply_lut)
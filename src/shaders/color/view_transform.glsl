@@ -0,0 +1,57 @@
+#pragma glslify: rgb_to_srgb = require('~/src/shaders/color/rgb_to_srgb')
+#pragma glslify: aces_fit = require('~/src/shaders/color/tonemap')
+#pragma glslify: RRT = require('~/src/shaders/color/aces/rrt')
+#pragma glslify: ODT_Academy_sRGB = require('~/src/shaders/color/aces/odt_academy_srgb')
+
+precision mediump float;
+
+// ViewTransform in display.ts
+#define VIEW_TRANSFORM_ACES_FIT 0
+#define VIEW_TRANSFORM_ACES 1
+#define VIEW_TRANSFORM_FILMIC 2
+#define VIEW_TRANSFORM_REINHARD 3
+#define VIEW_TRANSFORM_SRGB 4
+
+// written row by row like the ACES matrices
+const mat3 REC709_2_AP0_MAT = mat3(
+    0.4396330, 0.3829888, 0.1773783,
+    0.0897765, 0.8134394, 0.0967841,
+    0.0175412, 0.1115465, 0.8709122
+);
+
+// John Hable's filmic curve from Uncharted 2
+vec3 hable(vec3 x) {
+    const float A = 0.15; // shoulder strength
+    const float B = 0.50; // linear strength
+    const float C = 0.10; // linear angle
+    const float D = 0.20; // toe strength
+    const float E = 0.02; // toe numerator
+    const float F = 0.30; // toe denominator
+
+    return ((x * (A * x + C * B) + D * E) / (x * (A * x + B) + D * F)) - E / F;
+}
+
+const float FILMIC_EXPOSURE_BIAS = 2.0;
+const float FILMIC_WHITE = 11.2;
+
+// linear Rec.709 to display sRGB, with the exposure in stops
+vec3 view_transform(vec3 color, int transform, float exposure, float gamma) {
+    color = max(color * exp2(exposure), 0.0);
+
+    vec3 display;
+    if (transform == VIEW_TRANSFORM_ACES) {
+        display = ODT_Academy_sRGB(RRT(color * REC709_2_AP0_MAT));
+    } else if (transform == VIEW_TRANSFORM_FILMIC) {
+        display = rgb_to_srgb(hable(color * FILMIC_EXPOSURE_BIAS) / hable(vec3(FILMIC_WHITE)));
+    } else if (transform == VIEW_TRANSFORM_REINHARD) {
+        display = rgb_to_srgb(color / (1.0 + color));
+    } else if (transform == VIEW_TRANSFORM_SRGB) {
+        display = rgb_to_srgb(min(color, 1.0)); // no tone mapping, to check albedo values
+    } else {
+        display = aces_fit(color);
+    }
+
+    return pow(clamp(display, 0.0, 1.0), vec3(1.0 / gamma));
+}
+
+#pragma glslify: export(view_transform)
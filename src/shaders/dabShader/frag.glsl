@@ -0,0 +1,83 @@
+// the GPU version of dabCoverage, blended into the stroke buffer
+// red keeps the highest opacity and alpha is multiplied by how much of the pixel is left uncovered
+
+precision highp float;
+
+uniform bool uHasTip;
+uniform sampler2D uTip; // coverage in red, sampled with NEAREST
+uniform vec2 uTipSize;
+uniform float uRoundness;
+uniform vec2 uOrigin; // of the tile being drawn into
+
+varying vec2 vCenter;
+varying float vRadius;
+varying float vMark;
+varying vec4 vShape;
+varying float vOpacity;
+
+// GLSL's smoothstep is undefined when the edges are in the wrong order, this matches math.ts
+float smoothstepClamped(float edge0, float edge1, float x) {
+    float t = clamp((x - edge0) / (edge1 - edge0), 0.0, 1.0);
+    return t * t * (3.0 - 2.0 * t);
+}
+
+float texel(vec2 p) {
+    if (any(lessThan(p, vec2(0.0))) || any(greaterThanEqual(p, uTipSize))) {
+        return 0.0;
+    }
+    return texture2D(uTip, (p + 0.5) / uTipSize).r;
+}
+
+// bilinear like BrushTip.sample
+float sampleTip(vec2 uv) {
+    float size = max(uTipSize.x, uTipSize.y);
+    vec2 p = (uv * size + uTipSize) / 2.0 - 0.5;
+    vec2 p0 = floor(p);
+    vec2 t = p - p0;
+
+    float top = texel(p0) * (1.0 - t.x) + texel(p0 + vec2(1.0, 0.0)) * t.x;
+    float bottom = texel(p0 + vec2(0.0, 1.0)) * (1.0 - t.x) +
+        texel(p0 + vec2(1.0, 1.0)) * t.x;
+    return top * (1.0 - t.y) + bottom * t.y;
+}
+
+float harden(float coverage, float hardness) {
+    float low = hardness * 0.5;
+    float high = 1.0 - low;
+    if (high - low < 0.01) {
+        return coverage >= 0.5 ? 1.0 : 0.0;
+    }
+    return clamp((coverage - low) / (high - low), 0.0, 1.0);
+}
+
+float dabCoverage() {
+    if (vMark > 0.5) {
+        return vRadius * 2.0;
+    }
+
+    float cosAngle = vShape.x;
+    float sinAngle = vShape.y;
+    float hardness = vShape.z;
+
+    // pixels are addressed by their corner on the CPU
+    vec2 d = gl_FragCoord.xy + uOrigin - 0.5 - vCenter;
+    float u = (d.x * cosAngle + d.y * sinAngle) / vRadius;
+    float v = (d.y * cosAngle - d.x * sinAngle) / (vRadius * uRoundness);
+
+    if (uHasTip) {
+        return harden(sampleTip(vec2(u, v)), hardness);
+    }
+
+    float softness = max(vRadius * (1.0 - hardness), 1.0);
+    float dist = length(vec2(u, v)) * vRadius;
+    return 1.0 - smoothstepClamped(vRadius - softness, vRadius, dist);
+}
+
+void main() {
+    float alpha = dabCoverage() * vShape.w;
+    if (!(alpha > 0.0)) {
+        discard;
+    }
+
+    gl_FragColor = vec4(vOpacity, 0.0, 0.0, alpha);
+}
@@ -0,0 +1,39 @@
+// one instance per dab, covering the same pixels as the loops in rasterizeDab
+
+attribute vec2 aCorner; // (0, 0) to (1, 1)
+
+attribute vec4 aDab; // center, radius, and 1 for the single pixel mark of a brush smaller than a pixel
+attribute vec4 aDabShape; // cos and sin of the angle, hardness, flow
+attribute float aOpacity;
+
+uniform vec2 uSize; // of a tile of the stroke buffer
+uniform vec2 uOrigin; // of the tile being drawn into, in image pixels
+uniform float uExtent; // reach of the dab relative to its radius
+
+varying vec2 vCenter;
+varying float vRadius;
+varying float vMark;
+varying vec4 vShape;
+varying float vOpacity;
+
+void main() {
+    vec2 first;
+    vec2 last;
+    if (aDab.w > 0.5) {
+        first = floor(aDab.xy + 0.5);
+        last = first;
+    } else {
+        float extent = aDab.z * uExtent;
+        first = floor(aDab.xy - extent);
+        last = ceil(aDab.xy + extent);
+    }
+
+    vec2 edge = mix(first, last + 1.0, aCorner);
+    gl_Position = vec4((edge - uOrigin) / uSize * 2.0 - 1.0, 0.0, 1.0);
+
+    vCenter = aDab.xy;
+    vRadius = aDab.z;
+    vMark = aDab.w;
+    vShape = aDabShape;
+    vOpacity = aOpacity;
+}
@@ -0,0 +1,29 @@
+#pragma glslify: face_direction = require('~/src/shaders/environment/face_direction')
+
+precision highp float;
+
+uniform samplerCube uSource;
+uniform int uFace;
+uniform float uSize; // of the face
+uniform int uTaps; // samples across each texel, no more than MAX_TAPS
+
+const int MAX_TAPS = 8;
+
+// box filter a larger cube map, so the prefiltering below doesn't alias
+void main() {
+    vec3 sum = vec3(0.0);
+    float taps = float(uTaps);
+
+    for (int y = 0; y < MAX_TAPS; y++) {
+        if (y >= uTaps) break;
+        for (int x = 0; x < MAX_TAPS; x++) {
+            if (x >= uTaps) break;
+
+            vec2 offset = (vec2(x, y) + 0.5) / taps - 0.5;
+            vec2 coord = (gl_FragCoord.xy + offset) / uSize;
+            sum += textureCube(uSource, face_direction(uFace, coord)).rgb;
+        }
+    }
+
+    gl_FragColor = vec4(sum / (taps * taps), 1.0);
+}
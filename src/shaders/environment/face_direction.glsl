@@ -0,0 +1,16 @@
+precision highp float;
+
+// the direction through `coord` on one face of a cube map, faces are in the order +x, -x, +y, -y, +z, -z
+// this follows how textureCube picks a face and texel for a direction
+vec3 face_direction(int face, vec2 coord) {
+    vec2 uv = coord * 2.0 - 1.0;
+
+    if (face == 0) return vec3(1.0, -uv.y, -uv.x);
+    if (face == 1) return vec3(-1.0, -uv.y, uv.x);
+    if (face == 2) return vec3(uv.x, 1.0, uv.y);
+    if (face == 3) return vec3(uv.x, -1.0, -uv.y);
+    if (face == 4) return vec3(uv.x, -uv.y, 1.0);
+    return vec3(-uv.x, -uv.y, -1.0);
+}
+
+#pragma glslify: export(face_direction)
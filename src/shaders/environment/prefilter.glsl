@@ -0,0 +1,65 @@
+#pragma glslify: face_direction = require('~/src/shaders/environment/face_direction')
+
+precision highp float;
+
+uniform samplerCube uSource;
+uniform int uFace;
+uniform float uSize; // of the face
+uniform float uRoughness;
+
+#define PI 3.1415926538
+
+const int SAMPLE_COUNT = 256;
+
+// Van der Corput sequence without the bit operations WebGL 1 doesn't have
+float radicalInverse(int i) {
+    float result = 0.0;
+    float scale = 0.5;
+    int n = i;
+    for (int bit = 0; bit < 16; bit++) {
+        if (n == 0) break;
+        int next = n / 2;
+        result += scale * float(n - next * 2);
+        n = next;
+        scale *= 0.5;
+    }
+    return result;
+}
+
+vec3 importanceSampleGGX(vec2 Xi, vec3 N, float roughness) {
+    float a = roughness * roughness;
+
+    float phi = 2.0 * PI * Xi.x;
+    float cosTheta = sqrt((1.0 - Xi.y) / (1.0 + (a * a - 1.0) * Xi.y));
+    float sinTheta = sqrt(1.0 - cosTheta * cosTheta);
+
+    vec3 H = vec3(cos(phi) * sinTheta, sin(phi) * sinTheta, cosTheta);
+
+    vec3 up = abs(N.z) < 0.999 ? vec3(0.0, 0.0, 1.0) : vec3(1.0, 0.0, 0.0);
+    vec3 tangent = normalize(cross(up, N));
+    vec3 bitangent = cross(N, tangent);
+
+    return normalize(tangent * H.x + bitangent * H.y + N * H.z);
+}
+
+// the environment blurred by the GGX lobe for uRoughness, assuming we're looking straight along the reflection
+void main() {
+    vec3 N = normalize(face_direction(uFace, gl_FragCoord.xy / uSize));
+    vec3 V = N;
+
+    vec3 color = vec3(0.0);
+    float weight = 0.0;
+    for (int i = 0; i < SAMPLE_COUNT; i++) {
+        vec2 Xi = vec2(float(i) / float(SAMPLE_COUNT), radicalInverse(i));
+        vec3 H = importanceSampleGGX(Xi, N, uRoughness);
+        vec3 L = normalize(2.0 * dot(V, H) * H - V);
+
+        float NdotL = dot(N, L);
+        if (NdotL > 0.0) {
+            color += textureCube(uSource, L).rgb * NdotL;
+            weight += NdotL;
+        }
+    }
+
+    gl_FragColor = vec4(color / weight, 1.0);
+}
@@ -0,0 +1,22 @@
+precision highp float;
+
+// the diffuse lighting for normal `n` from the L2 spherical harmonics sphericalHarmonics.ts projects,
+// which are already convolved with the clamped cosine and divided by pi
+vec3 sh_irradiance(vec3 n, vec3 sh[9]) {
+    vec3 irradiance = sh[0] * 0.282095;
+
+    irradiance += sh[1] * 0.488603 * n.y;
+    irradiance += sh[2] * 0.488603 * n.z;
+    irradiance += sh[3] * 0.488603 * n.x;
+
+    irradiance += sh[4] * 1.092548 * n.x * n.y;
+    irradiance += sh[5] * 1.092548 * n.y * n.z;
+    irradiance += sh[6] * 0.315392 * (3.0 * n.z * n.z - 1.0);
+    irradiance += sh[7] * 1.092548 * n.x * n.z;
+    irradiance += sh[8] * 0.546274 * (n.x * n.x - n.y * n.y);
+
+    // ringing can dip below zero opposite a bright light
+    return max(irradiance, 0.0);
+}
+
+#pragma glslify: export(sh_irradiance)
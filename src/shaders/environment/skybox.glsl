@@ -0,0 +1,23 @@
+#pragma glslify: face_direction = require('~/src/shaders/environment/face_direction')
+#pragma glslify: to_rec709 = require('~/src/shaders/color/color_space')
+
+precision highp float;
+
+uniform sampler2D uSource; // an equirectangular image, or the face being drawn
+uniform int uColorSpace; // of the source
+uniform bool uEquirectangular;
+uniform int uFace;
+uniform float uSize; // of the face
+
+#define PI 3.1415926538
+
+void main() {
+    vec2 coord = gl_FragCoord.xy / uSize;
+
+    if (uEquirectangular) {
+        vec3 direction = normalize(face_direction(uFace, coord));
+        coord = vec2((1.0 + atan(direction.z, direction.x) / PI) / 2.0, acos(direction.y) / PI);
+    }
+
+    gl_FragColor = vec4(to_rec709(texture2D(uSource, coord).rgb, uColorSpace), 1.0);
+}
@@ -0,0 +1,5 @@
+attribute vec2 aVertexPosition; // corners of the viewport in clip space
+
+void main() {
+    gl_Position = vec4(aVertexPosition, 0.0, 1.0);
+}
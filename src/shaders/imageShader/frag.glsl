@@ -1,10 +1,22 @@
-#pragma glslify: rgb_to_srgb = require(../color/rgb_to_srgb)
+#pragma glslify: view_transform = require(../color/view_transform)
+#pragma glslify: apply_lut = require(../color/lut)
+#pragma glslify: to_rec709 = require(../color/color_space)
 
 precision mediump float;
 
 varying highp vec2 vTextureCoord;
 
 uniform sampler2D uSampler;
+uniform int uColorSpace; // of the texture
+
+// display.ts sets these
+uniform int uViewTransform;
+uniform float uExposure;
+uniform float uGamma;
+uniform sampler2D uLut;
+uniform float uLutSize; // 0 without a LUT
+uniform vec3 uLutDomainMin;
+uniform vec3 uLutDomainMax;
 
 #define PI 3.1415926538
 
@@ -17,6 +29,9 @@ vec4 equirectangular(sampler2D tex, vec3 direction) {
 
 void main() {
     gl_FragColor = texture2D(uSampler, vTextureCoord);
-    gl_FragColor.rgb = rgb_to_srgb(gl_FragColor.rgb);
+    gl_FragColor.rgb = view_transform(to_rec709(gl_FragColor.rgb, uColorSpace), uViewTransform, uExposure, uGamma);
+    if (uLutSize > 0.0) {
+        gl_FragColor.rgb = apply_lut(gl_FragColor.rgb, uLut, uLutSize, uLutDomainMin, uLutDomainMax);
+    }
     gl_FragColor.rgb *= gl_FragColor.a; // premultiply alpha
 }
\ No newline at end of file
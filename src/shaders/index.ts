@@ -67,7 +67,9 @@ const loadShaderProgram = (
 
     for (let i = 0; i < numUniforms; i++) {
         const info = gl.getActiveUniform(shaderProgram, i);
-        uniforms[info.name] = gl.getUniformLocation(shaderProgram, info.name);
+        // arrays are reported as name[0], whose location sets the whole array
+        const name = info.name.replace(/\[0\]$/, '');
+        uniforms[name] = gl.getUniformLocation(shaderProgram, info.name);
     }
 
     return {
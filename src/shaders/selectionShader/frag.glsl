@@ -0,0 +1,29 @@
+#extension GL_OES_standard_derivatives : enable
+
+precision mediump float;
+
+varying highp vec2 vTextureCoord;
+
+uniform sampler2D uSelection;
+uniform float uOffset; // moves the stripes along to animate them
+
+bool selected(vec2 coord) {
+    if (any(lessThan(coord, vec2(0.0))) || any(greaterThan(coord, vec2(1.0)))) {
+        return false;
+    }
+    return texture2D(uSelection, coord).r >= 0.5;
+}
+
+void main() {
+    // compare against the texels one screen pixel over, so the outline stays a pixel wide at any zoom
+    bool inside = selected(vTextureCoord);
+    bool edge = selected(vTextureCoord + dFdx(vTextureCoord)) != inside ||
+        selected(vTextureCoord + dFdy(vTextureCoord)) != inside;
+
+    if (!edge) {
+        discard;
+    }
+
+    float stripe = mod(floor((gl_FragCoord.x + gl_FragCoord.y + uOffset) / 4.0), 2.0);
+    gl_FragColor = vec4(vec3(stripe), 1.0);
+}
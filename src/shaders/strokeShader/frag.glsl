@@ -0,0 +1,107 @@
+// a tile of the active layer composited between the layers below and above it, like compositeSpan in layer.ts
+// with the stroke painted into it first, the way BrushEngine.paintPixel does once the stroke ends
+
+precision highp float;
+
+// BlendMode, and the brush modes past it in BrushBlendMode
+#define BLEND_NORMAL 0
+#define BLEND_MULTIPLY 1
+#define BLEND_SCREEN 2
+#define BLEND_OVERLAY 3
+#define BLEND_ADD 4
+#define BRUSH_ERASE 5
+#define BRUSH_BEHIND 6
+
+uniform vec2 uImageSize; // of the slate, and the selection
+uniform vec2 uOrigin; // of the tile, in image pixels
+uniform float uTileSize; // of every other texture
+
+uniform sampler2D uBase; // the layers below, straight alpha like everything here
+uniform sampler2D uLayer; // from before the stroke
+uniform float uOpacity;
+uniform int uBlendMode;
+uniform sampler2D uAbove; // the layers above, which all blend normally
+uniform bool uHasAbove;
+
+uniform sampler2D uStroke; // from GpuDabs, opacity in red and how much is left uncovered in alpha
+uniform sampler2D uSelection;
+uniform bool uHasSelection;
+uniform int uBrushMode;
+uniform vec3 uValue;
+
+uniform bool uSplat; // write red to every component, to only write one with the color mask
+
+vec3 blend(int mode, vec3 base, vec3 value) {
+    if (mode == BLEND_MULTIPLY) {
+        return base * value;
+    } else if (mode == BLEND_SCREEN) {
+        return base + value - base * value;
+    } else if (mode == BLEND_OVERLAY) {
+        return mix(
+            1.0 - 2.0 * (1.0 - base) * (1.0 - value),
+            2.0 * base * value,
+            step(base, vec3(0.5))
+        );
+    } else if (mode == BLEND_ADD) {
+        return base + value;
+    }
+    return value;
+}
+
+// paint `coverage` of the stroke over the pixel from before the stroke
+vec4 paint(vec4 pixel, float coverage) {
+    if (!(coverage > 0.0)) {
+        return pixel;
+    }
+
+    if (uBrushMode == BRUSH_ERASE) {
+        return vec4(pixel.rgb, pixel.a * (1.0 - coverage));
+    }
+
+    if (uBrushMode == BRUSH_BEHIND) {
+        float behind = coverage * (1.0 - pixel.a);
+        float alpha = pixel.a + behind;
+        if (!(alpha > 0.0)) {
+            return pixel;
+        }
+        return vec4(mix(pixel.rgb, uValue, behind / alpha), alpha);
+    }
+
+    // the blend only applies where there's something to blend with
+    vec3 color = (1.0 - pixel.a) * uValue +
+        pixel.a * blend(uBrushMode, pixel.rgb, uValue);
+    float alpha = coverage + pixel.a * (1.0 - coverage);
+    return vec4(mix(pixel.rgb, color, coverage / alpha), alpha);
+}
+
+vec4 over(vec4 base, vec4 layer, float opacity, int mode) {
+    float sourceAlpha = layer.a * opacity;
+    if (!(sourceAlpha > 0.0)) {
+        return base;
+    }
+
+    float alpha = sourceAlpha + base.a * (1.0 - sourceAlpha);
+    vec3 mixed = (1.0 - base.a) * layer.rgb +
+        base.a * blend(mode, base.rgb, layer.rgb);
+    vec3 premultiplied = mixed * sourceAlpha +
+        base.rgb * base.a * (1.0 - sourceAlpha);
+    return vec4(premultiplied / alpha, alpha);
+}
+
+void main() {
+    vec2 uv = (gl_FragCoord.xy - uOrigin) / uTileSize;
+
+    vec4 stroke = texture2D(uStroke, uv);
+    float coverage = min(1.0 - stroke.a, stroke.r);
+    if (uHasSelection) {
+        coverage *= texture2D(uSelection, gl_FragCoord.xy / uImageSize).r;
+    }
+    vec4 layer = paint(texture2D(uLayer, uv), coverage);
+
+    vec4 color = over(texture2D(uBase, uv), layer, uOpacity, uBlendMode);
+    if (uHasAbove) {
+        // normal blending composites the same whether the layers above go on one at a time or all at once
+        color = over(color, texture2D(uAbove, uv), 1.0, BLEND_NORMAL);
+    }
+    gl_FragColor = uSplat ? vec4(color.r) : color;
+}
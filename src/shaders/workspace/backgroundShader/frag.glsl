@@ -1,15 +1,53 @@
-#pragma glslify: rgb_to_srgb = require(../../color/rgb_to_srgb)
+#pragma glslify: view_transform = require(../../color/view_transform)
+#pragma glslify: apply_lut = require(../../color/lut)
 
 precision mediump float;
 
 varying vec3 vPosition;
+varying vec4 vClipPosition;
+
+// Background in environment.ts
+#define BACKGROUND_ENVIRONMENT 0
+#define BACKGROUND_SOLID 1
+#define BACKGROUND_GRADIENT 2
+
+uniform int uBackground;
+uniform vec3 uBackgroundColor; // sRGB, and at the top of the gradient
+uniform vec3 uGradientColor; // at the bottom
 
 uniform samplerCube uSkybox;
+uniform samplerCube uSkyboxBlurred; // the next blurrier level
+uniform float uBlur; // how far to go towards it
+
+// environment.ts sets these
+uniform mat3 uEnvironmentRotation;
+uniform float uEnvironmentIntensity;
+
+// display.ts sets these
+uniform int uViewTransform;
+uniform float uExposure;
+uniform float uGamma;
+uniform sampler2D uLut;
+uniform float uLutSize; // 0 without a LUT
+uniform vec3 uLutDomainMin;
+uniform vec3 uLutDomainMax;
 
 void main() {
-    vec3 direction = normalize(vPosition);
+    if (uBackground == BACKGROUND_SOLID) {
+        gl_FragColor = vec4(uBackgroundColor, 1.0);
+    } else if (uBackground == BACKGROUND_GRADIENT) {
+        float height = vClipPosition.y / vClipPosition.w * 0.5 + 0.5;
+        gl_FragColor = vec4(mix(uGradientColor, uBackgroundColor, clamp(height, 0.0, 1.0)), 1.0);
+    } else {
+        vec3 direction = uEnvironmentRotation * normalize(vPosition);
+
+        vec3 color = mix(textureCube(uSkybox, direction).rgb, textureCube(uSkyboxBlurred, direction).rgb, uBlur);
+        color *= uEnvironmentIntensity;
 
-    gl_FragColor = textureCube(uSkybox, direction);
-    gl_FragColor.rgb = rgb_to_srgb(gl_FragColor.rgb);
-    gl_FragColor.rgb *= gl_FragColor.a; // premultiply alpha
-}
\ No newline at end of file
+        gl_FragColor.rgb = view_transform(color, uViewTransform, uExposure, uGamma);
+        if (uLutSize > 0.0) {
+            gl_FragColor.rgb = apply_lut(gl_FragColor.rgb, uLut, uLutSize, uLutDomainMin, uLutDomainMax);
+        }
+        gl_FragColor.a = 1.0;
+    }
+}
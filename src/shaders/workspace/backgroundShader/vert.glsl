@@ -4,8 +4,10 @@ uniform mat4 uModelViewMatrix;
 uniform mat4 uProjectionMatrix;
 
 varying vec3 vPosition;
+varying vec4 vClipPosition; // divided per pixel, since the cube reaches behind the camera
 
 void main() {
     gl_Position = uProjectionMatrix * uModelViewMatrix * aVertexPosition;
     vPosition = aVertexPosition.xyz;
-}
\ No newline at end of file
+    vClipPosition = gl_Position;
+}
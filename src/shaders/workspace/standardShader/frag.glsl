@@ -1,4 +1,9 @@
-#pragma glslify: tonemap = require(../../color/tonemap)
+#extension GL_OES_standard_derivatives : enable
+
+#pragma glslify: view_transform = require(../../color/view_transform)
+#pragma glslify: apply_lut = require(../../color/lut)
+#pragma glslify: to_rec709 = require(../../color/color_space)
+#pragma glslify: sh_irradiance = require(../../environment/sh_irradiance)
 
 precision mediump float;
 
@@ -9,7 +14,11 @@ varying highp vec3 vVertexNormal;
 varying highp vec3 vWorldPosition;
 
 uniform sampler2D uAlbedo;
-uniform highp samplerCube uIrradiance; // TODO: replace irradiance map with spherical harmonics
+uniform sampler2D uMaterial; // r: roughness, g: metallic, b: ambient occlusion, a: height
+uniform sampler2D uNormalMap; // tangent space
+uniform sampler2D uEmissive;
+uniform int uWorkingSpace; // of albedo and emissive, lighting is done in Rec.709
+uniform highp vec3 uIrradianceSH[9]; // L2 spherical harmonics, see sphericalHarmonics.ts
 uniform highp sampler2D uBrdfLUT;
 uniform highp samplerCube uPrefilterMapLevel0; // TODO: see if this can be replaced with spherical harmonics
 uniform highp samplerCube uPrefilterMapLevel1;
@@ -17,9 +26,18 @@ uniform highp samplerCube uPrefilterMapLevel2;
 uniform highp samplerCube uPrefilterMapLevel3;
 uniform highp samplerCube uPrefilterMapLevel4;
 
-float metallic = 0.0;
-float roughness = 0.5;
-float ao = 1.0;
+// environment.ts sets these
+uniform mat3 uEnvironmentRotation;
+uniform float uEnvironmentIntensity;
+
+// display.ts sets these
+uniform int uViewTransform;
+uniform float uExposure;
+uniform float uGamma;
+uniform sampler2D uLut;
+uniform float uLutSize; // 0 without a LUT
+uniform vec3 uLutDomainMin;
+uniform vec3 uLutDomainMax;
 
 #define PI 3.1415926538
 
@@ -59,31 +77,21 @@ float GeometrySmith(vec3 N, vec3 V, vec3 L, float roughness) {
     return ggx1 * ggx2;
 }
 
-highp vec3 textureCubeSample(samplerCube cubemap, highp vec3 dir) {
-    // sort of awkward attempt at smoothing float texture
-    // TODO: this should all go once I switch to spherical harmonics
-    float sampleDelta = 0.1;
-    vec3 samples = vec3(0.0);
-
-    float startAngle = -(sampleDelta * 2.0) / 2.0;
-
-    vec3 up = vec3(0.0, 1.0, 0.0);
-    vec3 right = cross(up, dir);
-    up = cross(dir, right);
-
-    for (int phiIter = 0; phiIter < 4; phiIter++) {
-        float phi = float(phiIter) * sampleDelta + startAngle;
-        for (int thetaIter = 0; thetaIter < 4; thetaIter++) {
-            float theta = float(thetaIter) * sampleDelta + startAngle;
-
-            vec3 tangentSample = vec3(sin(theta) * cos(theta), sin(theta) * sin(phi), cos(theta));
-            vec3 sampleVec = tangentSample.x * right + tangentSample.y * up + tangentSample.z * dir;
-
-            samples += textureCube(cubemap, sampleVec).rgb;
-        }
-    }
-
-    return samples * (1.0 / 16.0);
+// build a tangent frame from screen space derivatives since meshes don't have tangents
+// from http://www.thetenthplanet.de/archives/1180
+mat3 cotangentFrame(vec3 N, vec3 p, vec2 uv) {
+    vec3 dp1 = dFdx(p);
+    vec3 dp2 = dFdy(p);
+    vec2 duv1 = dFdx(uv);
+    vec2 duv2 = dFdy(uv);
+
+    vec3 dp2perp = cross(dp2, N);
+    vec3 dp1perp = cross(N, dp1);
+    vec3 T = dp2perp * duv1.x + dp1perp * duv2.x;
+    vec3 B = dp2perp * duv1.y + dp1perp * duv2.y;
+
+    float invmax = inversesqrt(max(dot(T, T), dot(B, B)));
+    return mat3(T * invmax, B * invmax, N);
 }
 
 vec3 getPrefiltered(vec3 R, float roughness) {
@@ -101,14 +109,24 @@ void main() {
     vec2 coord = vTextureCoord;
     coord.y = 1.0 - coord.y; // TODO: figure out if this should be done in the loader
 
+    vec4 material = texture2D(uMaterial, coord);
+    float roughness = material.r;
+    float metallic = material.g;
+    float ao = material.b;
+    // height (material.a) is carried along for export but isn't displaced in the viewport
+
     highp vec3 N = normalize(vVertexNormal);
     highp vec3 V = normalize(uCameraPosition - vWorldPosition);
+
+    // uses the unflipped coordinates so green points up in UV space, like OpenGL normal maps
+    vec3 tangentNormal = texture2D(uNormalMap, coord).xyz * 2.0 - 1.0;
+    N = normalize(cotangentFrame(N, vWorldPosition, vTextureCoord) * tangentNormal);
     highp vec3 R = reflect(-V, N);
 
-    highp vec3 irradiance = textureCubeSample(uIrradiance, N).rgb;
+    highp vec3 irradiance = sh_irradiance(uEnvironmentRotation * N, uIrradianceSH) * uEnvironmentIntensity;
     // highp vec3 prefilteredColor = textureCubeLodEXT(uPrefilterMap, R, roughness * MAX_REFLECTION_LOD).rgb;
-    highp vec3 prefilteredColor = getPrefiltered(R, roughness);
-    vec3 albedo = texture2D(uAlbedo, coord).rgb;
+    highp vec3 prefilteredColor = getPrefiltered(uEnvironmentRotation * R, roughness) * uEnvironmentIntensity;
+    vec3 albedo = to_rec709(texture2D(uAlbedo, coord).rgb, uWorkingSpace);
 
     vec3 F0 = vec3(0.04); // TODO: probably calculate this from the IOR
     F0 = mix(F0, albedo, metallic);
@@ -128,7 +146,12 @@ void main() {
     vec3 diffuse = irradiance * albedo;
     vec3 ambient = (kD * diffuse + specular) * ao;
 
-    vec3 color = ambient;
-    gl_FragColor.rgb = tonemap(color);
+    vec3 emissive = to_rec709(texture2D(uEmissive, coord).rgb, uWorkingSpace);
+
+    vec3 color = ambient + emissive;
+    gl_FragColor.rgb = view_transform(color, uViewTransform, uExposure, uGamma);
+    if (uLutSize > 0.0) {
+        gl_FragColor.rgb = apply_lut(gl_FragColor.rgb, uLut, uLutSize, uLutDomainMin, uLutDomainMax);
+    }
     gl_FragColor.a = 1.0;
 }
\ No newline at end of file
@@ -1,144 +1,606 @@
-// At the moment this represents a single-layer, editable image
-// We're going to want everything to work in a linear space internally
+// An editable image made of a stack of layers, composited before upload
+// Pixels are stored as linear, straight-alpha floats so HDR values survive editing
+// Color channels are in the slate's working space, data channels are never converted.
 
-import Image, { ImageFormat, ImageStorage } from "./loader/image";
+import Image, { ImageFormat } from "./loader/image";
+import Layer, {
+    BlendMode,
+    compositeLayers,
+    compositeLayersInRect,
+} from "./layer";
+import History from "./history";
+import { UNDO_COMPRESS_AFTER, UNDO_MEMORY_BUDGET } from "./constants";
+import { Channel, CHANNELS, CHANNEL_INFO, channelStride } from "./channels";
+import { ColorSpace, convertImage, convertPixels } from "./colorSpace";
+import Selection from "./selection";
+import { emptyRect, extendRect, clampRect, isEmptyRect, Rect } from "./rect";
+
+// the channels packed into the material texture, in the order of its components
+const MATERIAL_CHANNELS = [
+    Channel.Roughness,
+    Channel.Metallic,
+    Channel.AO,
+    Channel.Height,
+];
+
+// everything about the layer stack except the pixels, which the history tracks as tiles
+interface SlateStructure {
+    layers: Layer[];
+    properties: {
+        name: string;
+        opacity: number;
+        visible: boolean;
+        blendMode: BlendMode;
+    }[];
+    activeLayerIndex: number;
+}
 
 export default class Slate {
     width: number;
     height: number;
-    albedoBuffer: Uint8ClampedArray;
 
-    history: Uint8ClampedArray[];
-    historyIndex: number;
+    layers: Layer[]; // bottom to top
+    activeLayerIndex: number;
+    workingSpace: ColorSpace;
+    compositeBuffers: { [channel: number]: Float32Array };
+
+    history: History<SlateStructure>;
 
-    updated: boolean;
+    selection: Selection;
+
+    // the area of each channel that needs to be composited and uploaded again
+    dirtyRects: { [channel: number]: Rect };
 
     albedo: WebGLTexture;
+    material: WebGLTexture; // roughness, metallic, ambient occlusion and height packed into RGBA
+    normal: WebGLTexture;
+    emissive: WebGLTexture;
+    textureFilter: number; // float textures can only be filtered with OES_texture_float_linear
+
+    private materialBuffer: Float32Array;
+    private uploadBuffer: Float32Array; // rows of a dirty rect, since WebGL 1 can't upload part of a row
+
+    listeners: (() => void)[];
 
     // texture:
     constructor(gl: WebGLRenderingContext, width: number, height: number) {
         this.width = width;
         this.height = height;
-        this.albedoBuffer = this.createLayerBuffer(true);
+        this.layers = [this.createBackgroundLayer()];
+        this.activeLayerIndex = 0;
+        this.workingSpace = ColorSpace.LinearRec709;
+        this.createCompositeBuffers();
 
-        this.history = [];
-        this.historyIndex = 0;
+        this.history = new History(
+            (structure) => this.applyStructure(structure),
+            UNDO_MEMORY_BUDGET,
+            UNDO_COMPRESS_AFTER
+        );
 
-        this.updated = true;
+        this.selection = new Selection(gl, width, height);
+
+        this.dirtyRects = {};
+        this.markUpdate();
 
         this.albedo = gl.createTexture();
+        this.material = gl.createTexture();
+        this.normal = gl.createTexture();
+        this.emissive = gl.createTexture();
+        this.textureFilter = gl.getExtension('OES_texture_float_linear')
+            ? gl.LINEAR
+            : gl.NEAREST;
+
+        this.listeners = [];
     }
 
-    private createLayerBuffer(opaque: boolean) {
-        const buffer = new Uint8ClampedArray(this.width * this.height * 4);
+    private createBackgroundLayer() {
+        const layer = new Layer('Background', this.width, this.height);
+        layer.getChannel(Channel.Albedo).fill(1);
 
-        if (opaque) {
-            buffer.fill(255);
+        return layer;
+    }
+
+    private createCompositeBuffers() {
+        this.compositeBuffers = {};
+        for (const channel of CHANNELS) {
+            this.compositeBuffers[channel] = new Float32Array(
+                this.width * this.height * channelStride(channel)
+            );
         }
+        this.materialBuffer = new Float32Array(this.width * this.height * 4);
+        this.uploadBuffer = new Float32Array(0);
+    }
 
-        return buffer;
+    get activeLayer() {
+        return this.layers[this.activeLayerIndex];
     }
 
+    // images are converted to the working space; they're copied so the loader's cache isn't modified
     load(image: Image) {
-        switch (image.storage.type) {
-            case ImageStorage.Uint8:
-                this.albedoBuffer = image.storage.pixels;
-                break;
-            case ImageStorage.Float32:
-                this.albedoBuffer = new Uint8ClampedArray(image.width * image.height * 4);
-
-                let pixelWidth = 4;
-                if (image.format === ImageFormat.RGB) {
-                    pixelWidth = 3;
-                }
+        image = convertImage(image, this.workingSpace);
+        this.width = image.width;
+        this.height = image.height;
 
-                let destIndex = 0;
+        const layer = new Layer('Background', this.width, this.height);
+        const buffer = layer.getChannel(Channel.Albedo);
 
-                for (let i = 0; i < image.storage.pixels.length;) {
-                    // const [r, g, b] = image.storage.pixels.slice(i, 3).map(v => 255 * v);
-                    const r = image.storage.pixels[i++];
-                    const g = image.storage.pixels[i++];
-                    const b = image.storage.pixels[i++];
+        let pixelWidth = 4;
+        if (image.format === ImageFormat.RGB) {
+            pixelWidth = 3;
+        }
 
-                    let a = 1;
+        const pixels = image.storage.pixels;
+        let destIndex = 0;
 
-                    if (pixelWidth > 3) {
-                        a = image.storage.pixels[i++];
-                    }
+        for (let i = 0; i < pixels.length;) {
+            buffer[destIndex++] = pixels[i++];
+            buffer[destIndex++] = pixels[i++];
+            buffer[destIndex++] = pixels[i++];
 
-                    this.albedoBuffer[destIndex++] = r * 255;
-                    this.albedoBuffer[destIndex++] = g * 255;
-                    this.albedoBuffer[destIndex++] = b * 255;
-                    this.albedoBuffer[destIndex++] = a * 255;
+            let a = 1;
+
+            if (pixelWidth > 3) {
+                a = pixels[i++];
+            }
+
+            buffer[destIndex++] = a;
+        }
+
+        this.setLayers(this.width, this.height, [layer], 0);
+    }
+
+    // replace the whole layer stack, like when opening a project
+    setLayers(
+        width: number,
+        height: number,
+        layers: Layer[],
+        activeLayerIndex: number
+    ) {
+        this.width = width;
+        this.height = height;
+        this.layers = layers;
+        this.activeLayerIndex = activeLayerIndex;
+        this.createCompositeBuffers();
+        this.selection.resize(width, height);
+
+        this.markUpdate();
+        this.resetHistory();
+        this.notify();
+    }
+
+    // convert the color channels of every layer, undo can't go back past this
+    setWorkingSpace(space: ColorSpace) {
+        if (space === this.workingSpace) return;
+
+        for (const layer of this.layers) {
+            for (const channel of CHANNELS) {
+                if (CHANNEL_INFO[channel].color && layer.hasChannel(channel)) {
+                    const pixels = layer.getChannel(channel);
+                    convertPixels(
+                        pixels,
+                        channelStride(channel),
+                        this.workingSpace,
+                        space
+                    );
+
+                    // autosave has to write the converted pixels along with the new working space
+                    this.history.markRectModified(
+                        pixels,
+                        this.width,
+                        this.height,
+                        0,
+                        0,
+                        this.width,
+                        this.height
+                    );
                 }
-                break;
+            }
         }
-        this.width = image.width;
-        this.height = image.height;
+        this.workingSpace = space;
 
         this.markUpdate();
         this.resetHistory();
+        this.notify();
     }
 
-    markUpdate() {
-        this.updated = true;
+    // mark `rect` of `channel` as needing to be composited and uploaded again
+    // every channel if not given, and the whole image if there's no rect
+    markUpdate(channel?: Channel, rect?: Rect) {
+        const { x0, y0, x1, y1 } = rect ?? {
+            x0: 0,
+            y0: 0,
+            x1: this.width,
+            y1: this.height,
+        };
+        const channels = channel === undefined ? CHANNELS : [channel];
+
+        for (const c of channels) {
+            if (!this.dirtyRects[c]) {
+                this.dirtyRects[c] = emptyRect();
+            }
+            extendRect(this.dirtyRects[c], x0, y0, x1, y1);
+        }
+    }
+
+    // listeners are told about changes to the layer stack, not about individual brush dabs
+    subscribe(listener: () => void) {
+        this.listeners.push(listener);
+
+        return () => {
+            this.listeners = this.listeners.filter((l) => l !== listener);
+        };
+    }
+
+    private notify() {
+        for (let i = 0; i < this.listeners.length; i++) {
+            this.listeners[i]();
+        }
+    }
+
+    // composite the whole image, or just `rect` of it
+    composite(channel: Channel = Channel.Albedo, rect?: Rect) {
+        const out = this.compositeBuffers[channel];
+        if (rect) {
+            compositeLayersInRect(out, this.layers, channel, this.width, rect);
+        } else {
+            compositeLayers(out, this.layers, channel);
+        }
+        return out;
     }
 
+    // composite and upload only what's changed since the last upload, so frames without edits cost nothing
     uploadTexture(gl: WebGLRenderingContext) {
-        if (!this.updated) return;
-        // upload texture
+        this.selection.uploadTexture(gl);
+
+        const dirty: { [channel: number]: Rect } = {};
+        for (const channel of CHANNELS) {
+            const rect = this.dirtyRects[channel];
+            if (!rect) continue;
+
+            const clamped = clampRect(rect, this.width, this.height);
+            if (!isEmptyRect(clamped)) {
+                dirty[channel] = clamped;
+            }
+        }
+        this.dirtyRects = {};
+
+        const textures: [Channel, WebGLTexture][] = [
+            [Channel.Albedo, this.albedo],
+            [Channel.Normal, this.normal],
+            [Channel.Emissive, this.emissive],
+        ];
+        for (const [channel, texture] of textures) {
+            const rect = dirty[channel];
+            if (!rect) continue;
+
+            const pixels = this.compositeBuffers[channel];
+            compositeLayersInRect(
+                pixels,
+                this.layers,
+                channel,
+                this.width,
+                rect
+            );
+            this.uploadChannelTexture(gl, texture, pixels, rect);
+        }
+
+        const rect = emptyRect();
+        for (const channel of MATERIAL_CHANNELS) {
+            if (dirty[channel]) {
+                const { x0, y0, x1, y1 } = dirty[channel];
+                extendRect(rect, x0, y0, x1, y1);
+            }
+        }
+        if (!isEmptyRect(rect)) {
+            for (let c = 0; c < MATERIAL_CHANNELS.length; c++) {
+                // scalar channels are stored as (value, alpha) pairs
+                const values = this.compositeBuffers[MATERIAL_CHANNELS[c]];
+                if (dirty[MATERIAL_CHANNELS[c]]) {
+                    compositeLayersInRect(
+                        values,
+                        this.layers,
+                        MATERIAL_CHANNELS[c],
+                        this.width,
+                        dirty[MATERIAL_CHANNELS[c]]
+                    );
+                }
+
+                for (let y = rect.y0; y < rect.y1; y++) {
+                    for (let x = rect.x0; x < rect.x1; x++) {
+                        const index = y * this.width + x;
+                        this.materialBuffer[index * 4 + c] = values[index * 2];
+                    }
+                }
+            }
+
+            this.uploadChannelTexture(gl, this.material, this.materialBuffer, rect);
+        }
+    }
+
+    // the texture `channel` is composited into, and which of its components if it's packed into the material texture
+    channelTexture(channel: Channel): [WebGLTexture, number] {
+        const component = MATERIAL_CHANNELS.indexOf(channel);
+        if (component >= 0) {
+            return [this.material, component];
+        }
+
+        const textures = {
+            [Channel.Albedo]: this.albedo,
+            [Channel.Normal]: this.normal,
+            [Channel.Emissive]: this.emissive,
+        };
+        return [textures[channel], -1];
+    }
 
-        gl.bindTexture(gl.TEXTURE_2D, this.albedo); // TODO: store buffer as Image and use loadTextureFromImage
+    // upload `rect` of the RGBA `pixels`, allocating the whole texture when `rect` covers it
+    private uploadChannelTexture(
+        gl: WebGLRenderingContext,
+        texture: WebGLTexture,
+        pixels: Float32Array,
+        rect: Rect
+    ) {
+        gl.bindTexture(gl.TEXTURE_2D, texture);
         const level = 0;
-        const internalFormat = gl.RGBA;
         const srcFormat = gl.RGBA;
-        const srcType = gl.UNSIGNED_BYTE;
-        gl.texImage2D(
+        const srcType = gl.FLOAT;
+
+        const width = rect.x1 - rect.x0;
+        const height = rect.y1 - rect.y0;
+
+        if (width === this.width && height === this.height) {
+            const internalFormat = gl.RGBA;
+            const border = 0;
+            gl.texImage2D(
+                gl.TEXTURE_2D,
+                level,
+                internalFormat,
+                this.width,
+                this.height,
+                border,
+                srcFormat,
+                srcType,
+                pixels
+            );
+
+            // non-power-of-two textures have to clamp in WebGL 1
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, this.textureFilter);
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, this.textureFilter);
+            return;
+        }
+
+        // full rows are already laid out the way texSubImage2D wants them
+        let region: Float32Array;
+        if (width === this.width) {
+            region = pixels.subarray(
+                rect.y0 * this.width * 4,
+                rect.y1 * this.width * 4
+            );
+        } else {
+            if (this.uploadBuffer.length < width * height * 4) {
+                this.uploadBuffer = new Float32Array(width * height * 4);
+            }
+            region = this.uploadBuffer.subarray(0, width * height * 4);
+
+            for (let y = 0; y < height; y++) {
+                const start = ((rect.y0 + y) * this.width + rect.x0) * 4;
+                region.set(
+                    pixels.subarray(start, start + width * 4),
+                    y * width * 4
+                );
+            }
+        }
+
+        gl.texSubImage2D(
             gl.TEXTURE_2D,
             level,
-            internalFormat,
+            rect.x0,
+            rect.y0,
+            width,
+            height,
             srcFormat,
             srcType,
-            new ImageData(this.albedoBuffer, this.width)
+            region
         );
     }
 
+    // Layer operations
+    // each of these saves a checkpoint first so they can be undone like strokes
+
+    setActiveLayer(index: number) {
+        if (index < 0 || index >= this.layers.length) return;
+
+        this.activeLayerIndex = index;
+        this.notify();
+    }
+
+    addLayer(name: string = `Layer ${this.layers.length}`) {
+        this.checkpoint();
+
+        const layer = new Layer(name, this.width, this.height);
+        this.layers.splice(this.activeLayerIndex + 1, 0, layer);
+        this.activeLayerIndex++;
+
+        this.markUpdate();
+        this.notify();
+
+        return layer;
+    }
+
+    removeLayer(index: number) {
+        if (this.layers.length <= 1) return; // always keep one layer to paint into
+
+        this.checkpoint();
+
+        const [removed] = this.layers.splice(index, 1);
+        this.history.retain(removed.byteLength);
+        if (this.activeLayerIndex >= index && this.activeLayerIndex > 0) {
+            this.activeLayerIndex--;
+        }
+
+        this.markUpdate();
+        this.notify();
+    }
+
+    moveLayer(from: number, to: number) {
+        if (to < 0 || to >= this.layers.length || from === to) return;
+
+        this.checkpoint();
+
+        const active = this.activeLayer;
+        const [layer] = this.layers.splice(from, 1);
+        this.layers.splice(to, 0, layer);
+        this.activeLayerIndex = this.layers.indexOf(active);
+
+        this.markUpdate();
+        this.notify();
+    }
+
+    duplicateLayer(index: number) {
+        this.checkpoint();
+
+        const layer = this.layers[index].clone(`${this.layers[index].name} copy`);
+        this.layers.splice(index + 1, 0, layer);
+        this.activeLayerIndex = index + 1;
+
+        this.markUpdate();
+        this.notify();
+
+        return layer;
+    }
+
+    // merge the layer at `index` into the layer below it
+    mergeDown(index: number) {
+        if (index <= 0 || index >= this.layers.length) return;
+
+        this.checkpoint();
+
+        const lower = this.layers[index - 1];
+        const upper = this.layers[index];
+
+        const merged = lower.clone();
+        merged.opacity = 1;
+        merged.blendMode = BlendMode.Normal;
+
+        // bake the lower layer's own opacity in so the merged result looks the same
+        const base = lower.clone();
+        base.blendMode = BlendMode.Normal;
+
+        for (const channel of CHANNELS) {
+            if (!lower.hasChannel(channel) && !upper.hasChannel(channel)) continue;
+
+            const transparent = new Array(channelStride(channel)).fill(0);
+            compositeLayers(
+                merged.getChannel(channel),
+                [base, upper],
+                channel,
+                transparent
+            );
+        }
+
+        // hidden layers add nothing to the merge, so what's left is what was showing
+        merged.visible = true;
+
+        this.layers.splice(index - 1, 2, merged);
+        this.history.retain(lower.byteLength + upper.byteLength);
+        this.activeLayerIndex = index - 1;
+
+        this.markUpdate();
+        this.notify();
+    }
+
+    // dragging a slider calls this repeatedly, so the caller can checkpoint once up front
+    setLayerOpacity(index: number, opacity: number, checkpoint = true) {
+        if (checkpoint) {
+            this.checkpoint();
+        }
+        this.layers[index].opacity = Math.min(Math.max(opacity, 0), 1);
+        this.markUpdate();
+        this.notify();
+    }
+
+    setLayerVisible(index: number, visible: boolean) {
+        this.checkpoint();
+        this.layers[index].visible = visible;
+        this.markUpdate();
+        this.notify();
+    }
+
+    setLayerBlendMode(index: number, blendMode: BlendMode) {
+        this.checkpoint();
+        this.layers[index].blendMode = blendMode;
+        this.markUpdate();
+        this.notify();
+    }
+
+    renameLayer(index: number, name: string) {
+        this.checkpoint();
+        this.layers[index].name = name;
+        this.notify();
+    }
+
     resetHistory() {
         // reset history
-        this.history = [];
-        this.historyIndex = 0;
+        this.history.reset();
+    }
+
+    private saveStructure(): SlateStructure {
+        return {
+            layers: this.layers.slice(),
+            properties: this.layers.map(({ name, opacity, visible, blendMode }) => ({
+                name,
+                opacity,
+                visible,
+                blendMode,
+            })),
+            activeLayerIndex: this.activeLayerIndex,
+        };
+    }
+
+    private applyStructure(structure: SlateStructure) {
+        const current = this.saveStructure();
+
+        this.layers = structure.layers.slice();
+        for (let i = 0; i < this.layers.length; i++) {
+            Object.assign(this.layers[i], structure.properties[i]);
+        }
+        this.activeLayerIndex = structure.activeLayerIndex;
+
+        return current;
+    }
+
+    // save the active layer's pixels in [x0, x1) x [y0, y1) to the undo history before painting over them
+    touch(channel: Channel, x0: number, y0: number, x1: number, y1: number) {
+        this.history.touch(
+            this.activeLayer.getChannel(channel),
+            this.width,
+            this.height,
+            channelStride(channel),
+            x0,
+            y0,
+            x1,
+            y1
+        );
     }
 
     // Undo history
     checkpoint() {
         // save image state in undo queue
-
-        this.history.length = this.historyIndex;
-
-        const currentBuffer = new Uint8ClampedArray(this.albedoBuffer);
-        this.history.push(currentBuffer);
-        this.historyIndex++;
+        this.history.checkpoint(this.saveStructure());
     }
 
     undo() {
-        if (this.historyIndex > this.history.length) {
-            this.historyIndex = this.history.length;
-        }
-        if (this.historyIndex > 0) {
-            this.history[this.historyIndex] = new Uint8ClampedArray(
-                this.albedoBuffer
-            );
-            this.historyIndex--;
-            this.albedoBuffer = this.history[this.historyIndex];
+        if (this.history.undo()) {
             this.markUpdate();
+            this.notify();
         }
     }
 
     redo() {
-        if (this.historyIndex < this.history.length - 1) {
-            this.historyIndex++;
-            this.albedoBuffer = this.history[this.historyIndex];
+        if (this.history.redo()) {
             this.markUpdate();
+            this.notify();
         }
     }
-}
\ No newline at end of file
+}
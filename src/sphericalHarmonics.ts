@@ -0,0 +1,190 @@
+// Diffuse lighting as nine RGB spherical harmonic coefficients, projected from an environment on the CPU
+// Irradiance is smooth enough that the first three bands are within a few percent, see Ramamoorthi and Hanrahan,
+// "An Efficient Representation for Irradiance Environment Maps".
+
+import { vec3 } from 'gl-matrix';
+import type { SkyboxImages } from './assets/backgrounds';
+import { SRGB8_TO_RGB, srgbToRgb } from './color';
+import { ColorSpace, convertColor } from './colorSpace';
+import Image, { ImageFormat, ImageStorage } from './loader/image';
+
+export const SH_COEFFICIENTS = 9;
+
+// irradiance doesn't change much over a few pixels, so the projection skips ahead to about this many samples across
+const SAMPLES_ACROSS = 256;
+
+// convolving each band with the clamped cosine, divided by pi so the result is what a white diffuse surface reflects
+const BAND_SCALES = [1, 2 / 3, 2 / 3, 2 / 3, 1 / 4, 1 / 4, 1 / 4, 1 / 4, 1 / 4];
+
+// the real L2 basis in the order sh_irradiance.glsl evaluates it
+function basis(out: number[], x: number, y: number, z: number) {
+    out[0] = 0.282095;
+    out[1] = 0.488603 * y;
+    out[2] = 0.488603 * z;
+    out[3] = 0.488603 * x;
+    out[4] = 1.092548 * x * y;
+    out[5] = 1.092548 * y * z;
+    out[6] = 0.315392 * (3 * z * z - 1);
+    out[7] = 1.092548 * x * z;
+    out[8] = 0.546274 * (x * x - y * y);
+}
+
+// the same directions as face_direction.glsl, faces are in the order +x, -x, +y, -y, +z, -z
+function faceDirection(out: vec3, face: number, u: number, v: number) {
+    switch (face) {
+        case 0:
+            return vec3.set(out, 1, -v, -u);
+        case 1:
+            return vec3.set(out, -1, -v, u);
+        case 2:
+            return vec3.set(out, u, 1, v);
+        case 3:
+            return vec3.set(out, u, -1, -v);
+        case 4:
+            return vec3.set(out, u, -v, 1);
+        default:
+            return vec3.set(out, -u, -v, -1);
+    }
+}
+
+// accumulates weighted samples of one image, in its own linear space
+class Projection {
+    coefficients: Float32Array;
+    totalWeight: number;
+
+    image: Image;
+    private stride: number;
+    private y: number[];
+    private color: vec3;
+
+    constructor(image: Image) {
+        this.coefficients = new Float32Array(SH_COEFFICIENTS * 3);
+        this.totalWeight = 0;
+
+        this.image = image;
+        this.stride = image.format === ImageFormat.RGBA ? 4 : 3;
+        this.y = [];
+        this.color = vec3.create();
+    }
+
+    add(x: number, y: number, direction: vec3, weight: number) {
+        const { coefficients, color } = this;
+        this.read(x, y);
+        vec3.normalize(direction, direction);
+        basis(this.y, direction[0], direction[1], direction[2]);
+
+        for (let i = 0; i < SH_COEFFICIENTS; i++) {
+            const w = this.y[i] * weight;
+            coefficients[i * 3] += color[0] * w;
+            coefficients[i * 3 + 1] += color[1] * w;
+            coefficients[i * 3 + 2] += color[2] * w;
+        }
+        this.totalWeight += weight;
+    }
+
+    // linear values, sRGB is decoded and everything else is converted once it's projected
+    private read(x: number, y: number) {
+        const { image, color } = this;
+        const index = (y * image.width + x) * this.stride;
+
+        if (image.storage.type === ImageStorage.Uint8) {
+            const pixels = image.storage.pixels;
+            for (let c = 0; c < 3; c++) {
+                color[c] =
+                    image.colorSpace === ColorSpace.Srgb
+                        ? SRGB8_TO_RGB[pixels[index + c]]
+                        : pixels[index + c] / 255;
+            }
+        } else {
+            const pixels = image.storage.pixels;
+            for (let c = 0; c < 3; c++) {
+                color[c] =
+                    image.colorSpace === ColorSpace.Srgb
+                        ? srgbToRgb(pixels[index + c])
+                        : pixels[index + c];
+            }
+        }
+    }
+}
+
+// the diffuse lighting from an equirectangular image or cube faces, as RGB coefficients for sh_irradiance.glsl
+// `convolved` images are irradiance already, so they're projected without convolving them again
+export function projectIrradiance(
+    source: Image | SkyboxImages,
+    convolved = false
+): Float32Array {
+    const images = Array.isArray(source) ? source : [source];
+    const projections = images.map((image) => new Projection(image));
+    const direction = vec3.create();
+
+    if (Array.isArray(source)) {
+        for (let face = 0; face < 6; face++) {
+            const { width, height } = source[face];
+            const step = Math.max(1, Math.floor(width / SAMPLES_ACROSS));
+
+            for (let y = 0; y < height; y += step) {
+                const v = ((y + 0.5) / height) * 2 - 1;
+                for (let x = 0; x < width; x += step) {
+                    const u = ((x + 0.5) / width) * 2 - 1;
+
+                    // texels near the corners of a face cover less of the sphere
+                    const weight = Math.pow(1 + u * u + v * v, -1.5);
+                    faceDirection(direction, face, u, v);
+                    projections[face].add(x, y, direction, weight);
+                }
+            }
+        }
+    } else {
+        const { width, height } = source;
+        const step = Math.max(1, Math.floor(width / SAMPLES_ACROSS));
+
+        // the inverse of the mapping in skybox.glsl
+        for (let y = 0; y < height; y += step) {
+            const theta = ((y + 0.5) / height) * Math.PI;
+            const weight = Math.sin(theta); // rows near the poles cover less of the sphere
+            for (let x = 0; x < width; x += step) {
+                const phi = (((x + 0.5) / width) * 2 - 1) * Math.PI;
+                vec3.set(
+                    direction,
+                    Math.cos(phi) * Math.sin(theta),
+                    Math.cos(theta),
+                    Math.sin(phi) * Math.sin(theta)
+                );
+                projections[0].add(x, y, direction, weight);
+            }
+        }
+    }
+
+    // the weights only need to be right relative to each other, the samples cover the whole sphere
+    const totalWeight = projections.reduce((sum, p) => sum + p.totalWeight, 0);
+    const scale = (4 * Math.PI) / totalWeight;
+
+    const coefficients = new Float32Array(SH_COEFFICIENTS * 3);
+    const coefficient = vec3.create();
+    for (const projection of projections) {
+        const space =
+            projection.image.colorSpace === ColorSpace.Srgb
+                ? ColorSpace.LinearRec709
+                : projection.image.colorSpace;
+
+        for (let i = 0; i < SH_COEFFICIENTS; i++) {
+            vec3.set(
+                coefficient,
+                projection.coefficients[i * 3],
+                projection.coefficients[i * 3 + 1],
+                projection.coefficients[i * 3 + 2]
+            );
+            const rec709 = convertColor(
+                coefficient,
+                space,
+                ColorSpace.LinearRec709
+            );
+            for (let c = 0; c < 3; c++) {
+                coefficients[i * 3 + c] +=
+                    rec709[c] * scale * (convolved ? 1 : BAND_SCALES[i]);
+            }
+        }
+    }
+
+    return coefficients;
+}
@@ -0,0 +1,226 @@
+// Stroke stabilization, smoothing the path between pointer samples before the brush engine places dabs along it
+// Samples go through a lazy-mouse rope, then a moving average, then Catmull-Rom curves, each skipped at strength 0.
+
+import { vec3 } from 'gl-matrix';
+import { lerpStrokeInput, StrokeInput } from './dynamics';
+
+// strengths are all in [0, 1]
+export interface StabilizerSettings {
+    rope: number; // the brush trails behind the pointer on a rope and only moves when it's pulled tight
+    average: number; // the brush follows the average of the last few samples
+    curve: number; // samples are joined by curves rather than straight lines
+}
+
+export const DEFAULT_STABILIZER: StabilizerSettings = {
+    rope: 0,
+    average: 0,
+    curve: 0,
+};
+
+// rope length at full strength, in pixels
+const MAX_ROPE_LENGTH = 60;
+
+// samples averaged at full strength
+const MAX_AVERAGE_SAMPLES = 16;
+
+// curves are split into straight pieces about this long, in pixels
+const CURVE_STEP = 2;
+const MAX_CURVE_STEPS = 32;
+
+interface StrokePoint {
+    point: vec3;
+    input: StrokeInput;
+}
+
+type Emit = (point: vec3, input: StrokeInput) => void;
+
+export default class Stabilizer {
+    settings: StabilizerSettings;
+
+    private rope: StrokePoint; // where the brush end of the rope is
+    private samples: StrokePoint[]; // the window for the moving average
+    private curvePoints: StrokePoint[]; // the last few points the curve passes through
+    private last: vec3; // the last point handed to the brush engine
+
+    constructor() {
+        this.settings = { ...DEFAULT_STABILIZER };
+        this.start(vec3.create(), null);
+    }
+
+    // begin a new path at `point`, which the brush engine already knows about
+    start(point: vec3, input: StrokeInput) {
+        const start = { point: vec3.clone(point), input };
+        this.rope = start;
+        this.samples = [start];
+        this.curvePoints = [start];
+        this.last = vec3.clone(point);
+    }
+
+    // `unit` is the size of a pixel in stroke coordinates, so strengths mean the same on a surface
+    add(point: vec3, input: StrokeInput, unit: number, emit: Emit) {
+        const sample = { point: vec3.clone(point), input: { ...input } };
+        this.pullRope(sample, unit, (roped) =>
+            this.smooth(roped, (smoothed) => this.curveTo(smoothed, unit, emit))
+        );
+    }
+
+    // let the brush catch up with the end of the stroke
+    finish(point: vec3, input: StrokeInput, unit: number, emit: Emit) {
+        const end = { point: vec3.clone(point), input: { ...input } };
+
+        // ease into the end by repeating it through the average, then go the rest of the way
+        const smoothed: StrokePoint[] = [];
+        const pending = this.samples.length;
+        for (let i = 0; i < pending; i++) {
+            this.smooth(end, (p) => smoothed.push(p));
+        }
+        smoothed.push(end);
+
+        for (const p of smoothed) {
+            this.curveTo(p, unit, emit);
+        }
+        this.finishCurve(unit, emit);
+    }
+
+    private pullRope(
+        sample: StrokePoint,
+        unit: number,
+        next: (sample: StrokePoint) => void
+    ) {
+        const length = this.settings.rope * MAX_ROPE_LENGTH * unit;
+        if (length <= 0) {
+            next(sample);
+            return;
+        }
+
+        const distance = vec3.distance(this.rope.point, sample.point);
+        if (distance <= length) return; // the rope is still slack
+
+        const point = vec3.create();
+        vec3.lerp(
+            point,
+            this.rope.point,
+            sample.point,
+            (distance - length) / distance
+        );
+        this.rope = { point, input: sample.input };
+        next(this.rope);
+    }
+
+    private smooth(sample: StrokePoint, next: (sample: StrokePoint) => void) {
+        const size =
+            1 + Math.round(this.settings.average * (MAX_AVERAGE_SAMPLES - 1));
+
+        this.samples.push(sample);
+        while (this.samples.length > size) {
+            this.samples.shift();
+        }
+
+        if (this.samples.length === 1) {
+            next(sample);
+            return;
+        }
+
+        const point = vec3.create();
+        for (const s of this.samples) {
+            vec3.add(point, point, s.point);
+        }
+        vec3.scale(point, point, 1 / this.samples.length);
+        next({ point, input: sample.input });
+    }
+
+    // curves need the point after the end of each segment, so a segment is only drawn once the next point arrives
+    private curveTo(sample: StrokePoint, unit: number, emit: Emit) {
+        if (this.settings.curve <= 0) {
+            this.emit(sample.point, sample.input, emit);
+            return;
+        }
+
+        this.curvePoints.push(sample);
+        if (this.curvePoints.length > 4) {
+            this.curvePoints.shift();
+        }
+
+        const count = this.curvePoints.length;
+        if (count < 3) return;
+
+        const p0 = this.curvePoints[Math.max(count - 4, 0)];
+        const p1 = this.curvePoints[count - 3];
+        const p2 = this.curvePoints[count - 2];
+        this.curveSegment(p0, p1, p2, sample, unit, emit);
+    }
+
+    // the segment still waiting for a point after it
+    private finishCurve(unit: number, emit: Emit) {
+        if (this.settings.curve <= 0) return;
+
+        const count = this.curvePoints.length;
+        if (count < 2) return;
+
+        const p0 = this.curvePoints[Math.max(count - 3, 0)];
+        const p1 = this.curvePoints[count - 2];
+        const p2 = this.curvePoints[count - 1];
+        this.curveSegment(p0, p1, p2, p2, unit, emit);
+        this.curvePoints = [p2];
+    }
+
+    // Catmull-Rom from p1 to p2, blended with a straight line by the curve strength
+    private curveSegment(
+        p0: StrokePoint,
+        p1: StrokePoint,
+        p2: StrokePoint,
+        p3: StrokePoint,
+        unit: number,
+        emit: Emit
+    ) {
+        const length = vec3.distance(p1.point, p2.point);
+        const steps = Math.min(
+            Math.max(Math.ceil(length / (CURVE_STEP * unit)), 1),
+            MAX_CURVE_STEPS
+        );
+
+        const point = vec3.create();
+        const line = vec3.create();
+        const input = { ...p2.input };
+
+        for (let step = 1; step <= steps; step++) {
+            const t = step / steps;
+            catmullRom(point, p0.point, p1.point, p2.point, p3.point, t);
+            vec3.lerp(line, p1.point, p2.point, t);
+            vec3.lerp(point, line, point, this.settings.curve);
+
+            lerpStrokeInput(input, p1.input, p2.input, t);
+            this.emit(point, input, emit);
+        }
+    }
+
+    // points where the brush already is are dropped, so a click without moving paints a single dab
+    private emit(point: vec3, input: StrokeInput, emit: Emit) {
+        if (vec3.exactEquals(point, this.last)) return;
+
+        vec3.copy(this.last, point);
+        emit(vec3.clone(point), { ...input });
+    }
+}
+
+// uniform Catmull-Rom spline through p1 at t = 0 and p2 at t = 1
+const catmullRom = (
+    out: vec3,
+    p0: vec3,
+    p1: vec3,
+    p2: vec3,
+    p3: vec3,
+    t: number
+) => {
+    const t2 = t * t;
+    const t3 = t2 * t;
+    for (let i = 0; i < 3; i++) {
+        out[i] =
+            0.5 *
+            (2 * p1[i] +
+                (p2[i] - p0[i]) * t +
+                (2 * p0[i] - 5 * p1[i] + 4 * p2[i] - p3[i]) * t2 +
+                (3 * p1[i] - p0[i] - 3 * p2[i] + p3[i]) * t3);
+    }
+    return out;
+};
@@ -0,0 +1,112 @@
+// Coverage of the stroke being painted, kept apart from the layer so overlapping dabs build up to the brush's opacity
+// Dabs only add to the buffer, and resolving paints the layer by however much each pixel's coverage has grown,
+// so the layer ends up the same no matter how dabs are batched or which renderer drew them.
+
+import { clampRect, emptyRect, extendRect, isEmptyRect, Rect } from './rect';
+import type Selection from './selection';
+
+export default class StrokeBuffer {
+    width: number;
+    height: number;
+
+    // two values per pixel: how much of the pixel the dabs have left uncovered,
+    // then the highest opacity of the dabs that covered any of it
+    coverage: Float32Array;
+    applied: Float32Array; // coverage already painted into the layer
+
+    dirty: Rect; // added to since the last resolve
+    private bounds: Rect; // everything the stroke has touched
+
+    constructor() {
+        this.width = 0;
+        this.height = 0;
+        this.coverage = new Float32Array(0);
+        this.applied = new Float32Array(0);
+        this.dirty = emptyRect();
+        this.bounds = emptyRect();
+    }
+
+    // start a new stroke, only the area the last stroke touched needs clearing
+    reset(width: number, height: number) {
+        if (width !== this.width || height !== this.height) {
+            this.width = width;
+            this.height = height;
+            this.coverage = new Float32Array(width * height * 2);
+            this.applied = new Float32Array(width * height);
+            this.bounds = { x0: 0, y0: 0, x1: width, y1: height };
+        }
+
+        const { x0, y0, x1, y1 } = clampRect(this.bounds, width, height);
+        for (let y = y0; y < y1; y++) {
+            for (let x = x0; x < x1; x++) {
+                const index = y * width + x;
+                this.coverage[index * 2] = 1;
+                this.coverage[index * 2 + 1] = 0;
+                this.applied[index] = 0;
+            }
+        }
+
+        this.dirty = emptyRect();
+        this.bounds = emptyRect();
+    }
+
+    // note that dabs have been added to [x0, x1) x [y0, y1)
+    extend(x0: number, y0: number, x1: number, y1: number) {
+        extendRect(this.dirty, x0, y0, x1, y1);
+        extendRect(this.bounds, x0, y0, x1, y1);
+    }
+
+    // the part of the image added to since this was last called, or null if nothing was
+    takeDirty(): Rect {
+        const rect = clampRect(this.dirty, this.width, this.height);
+        this.dirty = emptyRect();
+        return isEmptyRect(rect) ? null : rect;
+    }
+
+    // the part of the image the stroke has touched so far
+    get touched(): Rect {
+        return clampRect(this.bounds, this.width, this.height);
+    }
+
+    // cover `alpha` more of the pixel at `index`
+    add(index: number, alpha: number, opacity: number) {
+        if (alpha <= 0) return;
+
+        this.coverage[index * 2] *= 1 - alpha;
+        this.coverage[index * 2 + 1] = Math.max(
+            this.coverage[index * 2 + 1],
+            opacity
+        );
+    }
+
+    // call `paint` with the alpha that takes each dirty pixel from what's been painted to what's covered now,
+    // and with how much the stroke covers it in all
+    // returns the area resolved, or null if nothing was added
+    resolve(
+        selection: Selection,
+        paint: (index: number, alpha: number, coverage: number) => void
+    ): Rect {
+        const rect = this.takeDirty();
+        if (!rect) return null;
+
+        for (let y = rect.y0; y < rect.y1; y++) {
+            for (let x = rect.x0; x < rect.x1; x++) {
+                const index = y * this.width + x;
+
+                const covered = Math.min(
+                    1 - this.coverage[index * 2],
+                    this.coverage[index * 2 + 1]
+                );
+                const target = covered * selection.coverageAt(index);
+
+                const before = this.applied[index];
+                if (target <= before) continue;
+
+                this.applied[index] = target;
+                paint(index, (target - before) / (1 - before), target);
+            }
+        }
+
+        return rect;
+    }
+}
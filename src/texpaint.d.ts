@@ -6,4 +6,33 @@ declare module '*.hdr' {
 declare module '*.glsl' {
     const value: string;
     export = value;
-}
\ No newline at end of file
+}
+
+// not in TypeScript's DOM types yet
+declare class CompressionStream {
+    constructor(format: 'deflate' | 'deflate-raw' | 'gzip');
+    readonly readable: ReadableStream<Uint8Array>;
+    readonly writable: WritableStream<Uint8Array>;
+}
+
+declare class DecompressionStream {
+    constructor(format: 'deflate' | 'deflate-raw' | 'gzip');
+    readonly readable: ReadableStream<Uint8Array>;
+    readonly writable: WritableStream<Uint8Array>;
+}
+
+interface IdleDeadline {
+    readonly didTimeout: boolean;
+    timeRemaining(): number;
+}
+
+declare function requestIdleCallback(
+    callback: (deadline: IdleDeadline) => void,
+    options?: { timeout: number }
+): number;
+
+// pen samples the browser batched into one event, missing in some browsers
+interface PointerEvent {
+    getCoalescedEvents?(): PointerEvent[];
+    getPredictedEvents?(): PointerEvent[];
+}
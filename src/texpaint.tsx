@@ -15,6 +15,17 @@ import { loadAssetFromBlob } from './loader';
 import { AssetType } from './loader/asset';
 import ImageWidget from './widgets/imageWidget';
 import ViewAssetCache from './components/ViewAssetCache';
+import LayerPanel from './components/LayerPanel';
+import BrushChannels from './components/BrushChannels';
+import BrushPanel from './components/BrushPanel';
+import ExportPanel from './components/ExportPanel';
+import RestorePrompt from './components/RestorePrompt';
+import SelectionPanel from './components/SelectionPanel';
+import SwatchPanel from './components/SwatchPanel';
+import ColorPanel from './components/ColorPanel';
+import EnvironmentPanel from './components/EnvironmentPanel';
+import { PROJECT_EXTENSION, saveProject } from './project';
+import { download } from './utils';
 
 const Renderer = ({
     widgets,
@@ -66,9 +77,20 @@ const Renderer = ({
 const BrushColor = () => {
     const windowManager = useContext(WindowContext);
 
-    const [brushColor, setBrushColor] = useState(vec3.create());
+    const [brushColor, setBrushColor] = useState(
+        windowManager.brushEngine.color
+    );
     const [showColorSelector, setShowColorSelector] = useState(false);
 
+    // the eyedropper sets the brush color directly
+    useEffect(
+        () =>
+            windowManager.brushEngine.subscribe(() =>
+                setBrushColor(windowManager.brushEngine.color)
+            ),
+        []
+    );
+
     const color = vec3.create();
     vec3.mul(color, brushColor, [255, 255, 255]);
     vec3.round(color, color);
@@ -88,7 +110,6 @@ const BrushColor = () => {
                 <ColorWheel
                     brushColor={brushColor}
                     setBrushColor={(c: vec3) => {
-                        setBrushColor(c);
                         windowManager.brushEngine.color = c;
                     }}
                 />
@@ -97,7 +118,7 @@ const BrushColor = () => {
     );
 };
 
-const TopBar = ({ on2d, on3d }) => {
+const TopBar = ({ on2d, on3d, onProjectLoaded }) => {
     const windowManager = useContext(WindowContext);
 
     const handleOpen = () => {
@@ -112,18 +133,34 @@ const TopBar = ({ on2d, on3d }) => {
                 const asset = await loadAssetFromBlob(file.name, file);
                 switch (asset.type) {
                     case AssetType.Image:
-                        windowManager.slate.load(asset.image);
+                        windowManager.slate.load({
+                            ...asset.image,
+                            colorSpace:
+                                windowManager.inputSpace ??
+                                asset.image.colorSpace,
+                        });
                         break;
                     case AssetType.Mesh:
                         const mesh = asset.meshes[0];
                         windowManager.setMesh(mesh);
                         break;
+                    case AssetType.Project:
+                        windowManager.loadProject(asset.project);
+                        windowManager.autosave.markSaved();
+                        onProjectLoaded();
+                        break;
                 }
                 windowManager.drawOnNextFrame();
             })();
         });
     };
 
+    const handleSave = async () => {
+        const blob = await saveProject(windowManager);
+        download(blob, `untitled.${PROJECT_EXTENSION}`);
+        windowManager.autosave.markSaved();
+    };
+
     return (
         <div className="top-bar">
             <button onClick={on2d}>
@@ -133,6 +170,14 @@ const TopBar = ({ on2d, on3d }) => {
                 3D Object
             </button>
             <button onClick={handleOpen}>Open</button>
+            <button onClick={handleSave}>Save</button>
+            <ExportPanel />
+            <BrushPanel />
+            <BrushChannels />
+            <SelectionPanel />
+            <SwatchPanel />
+            <ColorPanel />
+            <EnvironmentPanel />
             <div style={{ flexGrow: 1, textAlign: 'right' }}>
                 <BrushColor />
             </div>
@@ -144,19 +189,27 @@ const App = () => {
     const [showTexture, setShowTexture] = useState(false);
     const [showMesh, setShowMesh] = useState(true);
 
+    // remount everything after opening a project so components pick up the restored state
+    const [session, setSession] = useState(0);
+
     return (
         <div
             style={{ display: 'flex', flexDirection: 'column', height: '100%' }}
         >
             <Renderer widgets={[ColorSelect, TextureDisplay, MeshDisplay, ImageWidget]}>
-                <TopBar
-                    on2d={() => setShowTexture(!showTexture)}
-                    on3d={() => setShowMesh(!showMesh)}
-                />
-                <div style={{ flexGrow: 1, display: 'flex', position: 'relative' }}>
-                    {showTexture && <TexturePaint />}
-                    {showMesh && <MeshPaint />}
-                </div>
+                <React.Fragment key={session}>
+                    <TopBar
+                        on2d={() => setShowTexture(!showTexture)}
+                        on3d={() => setShowMesh(!showMesh)}
+                        onProjectLoaded={() => setSession(session + 1)}
+                    />
+                    <div style={{ flexGrow: 1, display: 'flex', position: 'relative' }}>
+                        {showTexture && <TexturePaint />}
+                        {showMesh && <MeshPaint />}
+                        <LayerPanel />
+                    </div>
+                </React.Fragment>
+                <RestorePrompt onRestore={() => setSession(session + 1)} />
             </Renderer>
         </div>
     );
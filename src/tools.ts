@@ -0,0 +1,32 @@
+// What the pointer does in the texture view
+// The 3D view only paints, or picks colors with the eyedropper.
+
+export enum Tool {
+    Brush,
+    Rectangle,
+    Ellipse,
+    Lasso,
+    Polygon,
+    MagicWand,
+    Eyedropper,
+}
+
+export const TOOLS = [
+    Tool.Brush,
+    Tool.Rectangle,
+    Tool.Ellipse,
+    Tool.Lasso,
+    Tool.Polygon,
+    Tool.MagicWand,
+    Tool.Eyedropper,
+];
+
+export const TOOL_NAMES: { [tool: number]: string } = {
+    [Tool.Brush]: 'Brush',
+    [Tool.Rectangle]: 'Rectangle select',
+    [Tool.Ellipse]: 'Ellipse select',
+    [Tool.Lasso]: 'Lasso',
+    [Tool.Polygon]: 'Polygon lasso',
+    [Tool.MagicWand]: 'Magic wand',
+    [Tool.Eyedropper]: 'Eyedropper',
+};
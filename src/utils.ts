@@ -20,3 +20,15 @@ export const normalizeWheelEvent = (e: WheelEvent) => {
 
     return amount;
 };
+
+// save a blob through the browser's downloads
+export const download = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+
+    // give the browser a moment to start the download before freeing it
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -113,7 +113,12 @@ export default class ImageWidget {
             );
         }
 
+        gl.activeTexture(gl.TEXTURE0);
         this.imageTexture = loadTextureFromImage(gl, this.imageTexture, image); // TODO: don't reupload on every redraw
+        gl.uniform1i(shader.uniforms.uSampler, 0);
+        gl.uniform1i(shader.uniforms.uColorSpace, image.colorSpace);
+
+        windowManager.display.setUniforms(gl, shader, 1);
 
         {
             const offset = 0;
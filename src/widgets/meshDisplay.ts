@@ -1,5 +1,7 @@
 import { mat4, quat, vec3 } from 'gl-matrix';
 import {
+    CIRCLE_SEGMENTS,
+    CIRCLE_VERTICES,
     CUBE_INDICES,
     CUBE_LINE_INDICES,
     CUBE_VERTICES,
@@ -10,57 +12,6 @@ import loadShaderProgram, { Shader } from '../shaders';
 
 import brdf_lut_url from 'url:../assets/brdf_smith_schlick_ggx.exr';
 
-import irradiance0 from 'url:../assets/backgrounds/forest_slope/irradiance0.exr';
-import irradiance1 from 'url:../assets/backgrounds/forest_slope/irradiance1.exr';
-import irradiance2 from 'url:../assets/backgrounds/forest_slope/irradiance2.exr';
-import irradiance3 from 'url:../assets/backgrounds/forest_slope/irradiance3.exr';
-import irradiance4 from 'url:../assets/backgrounds/forest_slope/irradiance4.exr';
-import irradiance5 from 'url:../assets/backgrounds/forest_slope/irradiance5.exr';
-
-import prefiltered_roughness0_0__0 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_0-0.exr';
-import prefiltered_roughness0_0__1 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_0-1.exr';
-import prefiltered_roughness0_0__2 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_0-2.exr';
-import prefiltered_roughness0_0__3 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_0-3.exr';
-import prefiltered_roughness0_0__4 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_0-4.exr';
-import prefiltered_roughness0_0__5 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_0-5.exr';
-
-import prefiltered_roughness0_2__0 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_2-0.exr';
-import prefiltered_roughness0_2__1 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_2-1.exr';
-import prefiltered_roughness0_2__2 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_2-2.exr';
-import prefiltered_roughness0_2__3 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_2-3.exr';
-import prefiltered_roughness0_2__4 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_2-4.exr';
-import prefiltered_roughness0_2__5 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_2-5.exr';
-
-import prefiltered_roughness0_5__0 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_5-0.exr';
-import prefiltered_roughness0_5__1 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_5-1.exr';
-import prefiltered_roughness0_5__2 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_5-2.exr';
-import prefiltered_roughness0_5__3 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_5-3.exr';
-import prefiltered_roughness0_5__4 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_5-4.exr';
-import prefiltered_roughness0_5__5 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_5-5.exr';
-
-import prefiltered_roughness0_7__0 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_7-0.exr';
-import prefiltered_roughness0_7__1 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_7-1.exr';
-import prefiltered_roughness0_7__2 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_7-2.exr';
-import prefiltered_roughness0_7__3 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_7-3.exr';
-import prefiltered_roughness0_7__4 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_7-4.exr';
-import prefiltered_roughness0_7__5 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness0_7-5.exr';
-
-import prefiltered_roughness1_0__0 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness1_0-0.exr';
-import prefiltered_roughness1_0__1 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness1_0-1.exr';
-import prefiltered_roughness1_0__2 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness1_0-2.exr';
-import prefiltered_roughness1_0__3 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness1_0-3.exr';
-import prefiltered_roughness1_0__4 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness1_0-4.exr';
-import prefiltered_roughness1_0__5 from 'url:../assets/backgrounds/forest_slope/prefiltered_roughness1_0-5.exr';
-
-
-
-import skybox0 from 'url:../assets/backgrounds/forest_slope/skybox0.png';
-import skybox1 from 'url:../assets/backgrounds/forest_slope/skybox1.png';
-import skybox2 from 'url:../assets/backgrounds/forest_slope/skybox2.png';
-import skybox3 from 'url:../assets/backgrounds/forest_slope/skybox3.png';
-import skybox4 from 'url:../assets/backgrounds/forest_slope/skybox4.png';
-import skybox5 from 'url:../assets/backgrounds/forest_slope/skybox5.png';
-
 import vertUVShader from '../shaders/uvShader/vert.glsl';
 import fragUVShader from '../shaders/uvShader/frag.glsl';
 
@@ -69,32 +20,24 @@ import fragBackgroundShader from '../shaders/workspace/backgroundShader/frag.gls
 
 import { FIELD_OF_VIEW } from '../constants';
 import Mesh from '../mesh';
+import type Display from '../display';
+import type Environments from '../environment';
 import { loadAssetFromURL } from '../loader';
 import { AssetType } from '../loader/asset';
-import { ImageStorage } from '../loader/image';
 
 export default class MeshDisplay {
     cubeBuffer: WebGLBuffer;
     cubeIndexBuffer: WebGLBuffer;
     cubeLineIndexBuffer: WebGLBuffer;
+    circleBuffer: WebGLBuffer;
 
     lineShader: Shader;
 
-    backgroundLoaded: boolean;
-    skyboxTexture: WebGLTexture;
     brdfTexture: WebGLTexture;
-    irradianceTexture: WebGLTexture;
-    // prefilteredTexture: WebGLTexture;
-    prefilteredTextures: WebGLTexture[];
     backgroundShader: Shader;
 
     async initGL(gl: WebGLRenderingContext) {
-        this.skyboxTexture = gl.createTexture();
         this.brdfTexture = gl.createTexture();
-        this.irradianceTexture = gl.createTexture();
-        this.prefilteredTextures = [1, 2, 3, 4, 5].map(_ => gl.createTexture());
-
-        this.backgroundLoaded = false;
 
         this.cubeBuffer = gl.createBuffer();
 
@@ -123,6 +66,15 @@ export default class MeshDisplay {
             gl.STATIC_DRAW
         );
 
+        this.circleBuffer = gl.createBuffer();
+
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.circleBuffer);
+        gl.bufferData(
+            gl.ARRAY_BUFFER,
+            new Float32Array(CIRCLE_VERTICES),
+            gl.STATIC_DRAW
+        );
+
         this.backgroundShader = loadShaderProgram(
             gl,
             vertBackgroundShader,
@@ -132,131 +84,11 @@ export default class MeshDisplay {
 
         let brdf_lut = await loadAssetFromURL(brdf_lut_url);
 
-        let skyboxFaces = await Promise.all([skybox0, skybox1, skybox2, skybox3, skybox4, skybox5].map(url => loadAssetFromURL(url)));
-        let irradianceFaces = await Promise.all([irradiance0, irradiance1, irradiance2, irradiance3, irradiance4, irradiance5].map(url => loadAssetFromURL(url)));
-        let prefiltered_roughness0_0Faces = await Promise.all([prefiltered_roughness0_0__0, prefiltered_roughness0_0__1, prefiltered_roughness0_0__2, prefiltered_roughness0_0__3, prefiltered_roughness0_0__4, prefiltered_roughness0_0__5].map(url => loadAssetFromURL(url)));
-        let prefiltered_roughness0_2Faces = await Promise.all([prefiltered_roughness0_2__0, prefiltered_roughness0_2__1, prefiltered_roughness0_2__2, prefiltered_roughness0_2__3, prefiltered_roughness0_2__4, prefiltered_roughness0_2__5].map(url => loadAssetFromURL(url)));
-        let prefiltered_roughness0_5Faces = await Promise.all([prefiltered_roughness0_5__0, prefiltered_roughness0_5__1, prefiltered_roughness0_5__2, prefiltered_roughness0_5__3, prefiltered_roughness0_5__4, prefiltered_roughness0_5__5].map(url => loadAssetFromURL(url)));
-        let prefiltered_roughness0_7Faces = await Promise.all([prefiltered_roughness0_7__0, prefiltered_roughness0_7__1, prefiltered_roughness0_7__2, prefiltered_roughness0_7__3, prefiltered_roughness0_7__4, prefiltered_roughness0_7__5].map(url => loadAssetFromURL(url)));
-        let prefiltered_roughness1_0Faces = await Promise.all([prefiltered_roughness1_0__0, prefiltered_roughness1_0__1, prefiltered_roughness1_0__2, prefiltered_roughness1_0__3, prefiltered_roughness1_0__4, prefiltered_roughness1_0__5].map(url => loadAssetFromURL(url)));
-        console.log('loaded background');
-
-        gl.bindTexture(gl.TEXTURE_CUBE_MAP, this.skyboxTexture);
-
-        let sides = [
-            gl.TEXTURE_CUBE_MAP_POSITIVE_X,
-            gl.TEXTURE_CUBE_MAP_NEGATIVE_X,
-            gl.TEXTURE_CUBE_MAP_POSITIVE_Y,
-            gl.TEXTURE_CUBE_MAP_NEGATIVE_Y,
-            gl.TEXTURE_CUBE_MAP_POSITIVE_Z,
-            gl.TEXTURE_CUBE_MAP_NEGATIVE_Z
-        ];
-
-        const sideColors = [
-            new Float32Array([1.0, 0, 0, 1.0]),
-            new Float32Array([0.5, 0, 0, 1.0]),
-            new Float32Array([0, 1.0, 0, 1.0]),
-            new Float32Array([0, 0.5, 0, 1.0]),
-            new Float32Array([0, 0, 1.0, 1.0]),
-            new Float32Array([0, 0, 0.5, 1.0]),
-        ];
-
-        for (let i = 0; i < skyboxFaces.length; i++) {
-            let face = skyboxFaces[i];
-            if (face.type !== AssetType.Image) {
-                throw new Error('need image');
-            }
-
-            let image = face.image;
-
-            if (image.storage.type != ImageStorage.Uint8) {
-                throw new Error('skybox should be SDR');
-            }
-
-            let pixels = image.storage.pixels;
-
-            const level = 0;
-            const internalFormat = gl.RGBA;
-            const format = gl.RGBA;
-            const type = gl.UNSIGNED_BYTE;
-            gl.texImage2D(sides[i], level, internalFormat, image.width, image.height, 0, format, type, pixels);
-        }
-
-        gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
-        gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
-
-        gl.bindTexture(gl.TEXTURE_CUBE_MAP, this.irradianceTexture);
-
-        for (let i = 0; i < irradianceFaces.length; i++) {
-            let face = irradianceFaces[i];
-            if (face.type !== AssetType.Image) {
-                throw new Error('need image');
-            }
-
-            let image = face.image;
-
-            if (image.storage.type != ImageStorage.Float32) {
-                throw new Error('irradiance should be HDR');
-            }
-
-            let pixels = image.storage.pixels;
-
-            const level = 0;
-            const internalFormat = gl.RGBA;
-            const format = gl.RGBA;
-            const type = gl.FLOAT;
-            gl.texImage2D(sides[i], level, internalFormat, image.width, image.height, 0, format, type, pixels);
-        }
-
-        gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
-        gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
-
         if (brdf_lut.type != AssetType.Image) {
             throw new Error('BRDF must be an image');
         }
         loadTextureFromImage(gl, this.brdfTexture, brdf_lut.image);
 
-        let prefilteredLevels = [
-            prefiltered_roughness0_0Faces,
-            prefiltered_roughness0_2Faces,
-            prefiltered_roughness0_5Faces,
-            prefiltered_roughness0_7Faces,
-            prefiltered_roughness1_0Faces,
-        ];
-
-        for (let level = 0; level < prefilteredLevels.length; level++) {
-            gl.bindTexture(gl.TEXTURE_CUBE_MAP, this.prefilteredTextures[level]);
-
-            let prefilteredFaces = prefilteredLevels[level];
-            for (let i = 0; i < prefilteredFaces.length; i++) {
-                let face = prefilteredFaces[i];
-                if (face.type != AssetType.Image) {
-                    throw new Error('need image');
-                }
-
-                let image = face.image;
-
-                if (image.storage.type != ImageStorage.Float32) {
-                    throw new Error('prefiltered environment should be HDR');
-                }
-
-                console.log(`level ${level} side ${i}`, image.storage.pixels);
-    
-                let pixels = image.storage.pixels;
-    
-                const mipLevel = 0;
-                const internalFormat = gl.RGBA;
-                const format = gl.RGBA;
-                const type = gl.FLOAT;
-                gl.texImage2D(sides[i], mipLevel, internalFormat, image.width, image.height, 0, format, type, pixels);
-            }
-
-            gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
-            gl.texParameteri(gl.TEXTURE_CUBE_MAP, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
-        }
-
-        this.backgroundLoaded = true;
-
         return true;
     }
 
@@ -265,6 +97,8 @@ export default class MeshDisplay {
         width: number,
         height: number,
         mesh: Mesh,
+        environments: Environments,
+        display: Display,
         { position, rotation, scale, brushCursor }
     ) {
         gl.enable(gl.DEPTH_TEST);
@@ -275,12 +109,13 @@ export default class MeshDisplay {
         const projection = mat4.create();
         getProjection(projection, width, height);
 
-        if (this.backgroundLoaded) {
-            this.drawBackground(gl, rotation, projection);
+        // the environment's cube maps are generated after it loads
+        if (environments.lighting) {
+            this.drawBackground(gl, rotation, projection, environments, display);
         }
 
         if (mesh) {
-            mesh.draw(gl, view, projection, this.irradianceTexture, this.prefilteredTextures, this.brdfTexture);
+            mesh.draw(gl, view, projection, environments, this.brdfTexture, display);
         }
 
         // this.drawCube(gl, view, projection, [0, 0, 0], 0.4);
@@ -288,7 +123,14 @@ export default class MeshDisplay {
 
         if (brushCursor) {
             // TODO: move UI gizmos to a later pass so they're not tonemapped
-            this.drawCube(gl, view, projection, brushCursor, 0.4);
+            this.drawBrushCursor(
+                gl,
+                view,
+                projection,
+                brushCursor.position,
+                brushCursor.normal,
+                brushCursor.radius
+            );
         }
 
         gl.disable(gl.DEPTH_TEST);
@@ -312,13 +154,23 @@ export default class MeshDisplay {
         gl.clearDepth(1.0);
         gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
 
-        this.drawMainPass(gl, width, height, windowManager.mesh, widgetProps);
+        this.drawMainPass(
+            gl,
+            width,
+            height,
+            windowManager.mesh,
+            windowManager.environments,
+            windowManager.display,
+            widgetProps
+        );
     }
 
     drawBackground(
         gl: WebGLRenderingContext,
         rotation: quat,
-        projectionMatrix: mat4
+        projectionMatrix: mat4,
+        environments: Environments,
+        display: Display
     ) {
         gl.disable(gl.CULL_FACE);
         gl.useProgram(this.backgroundShader.program);
@@ -372,9 +224,29 @@ export default class MeshDisplay {
 
         gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.cubeIndexBuffer);
 
+        const { uniforms } = this.backgroundShader;
+        const { lighting } = environments;
+
+        gl.uniform1i(uniforms.uBackground, environments.background);
+        gl.uniform3fv(uniforms.uBackgroundColor, environments.backgroundColor);
+        gl.uniform3fv(uniforms.uGradientColor, environments.gradientColor);
+
+        // blurring goes from the skybox through the rougher prefiltered levels, blending between the two nearest
+        const levels = [lighting.skybox, ...lighting.prefiltered.slice(1)];
+        const blur = environments.blur * (levels.length - 1);
+        const sharper = Math.min(Math.floor(blur), levels.length - 2);
+
         gl.activeTexture(gl.TEXTURE0);
-        gl.bindTexture(gl.TEXTURE_CUBE_MAP, this.skyboxTexture);
-        gl.uniform1i(this.backgroundShader.uniforms.uSkybox, 0);
+        gl.bindTexture(gl.TEXTURE_CUBE_MAP, levels[sharper]);
+        gl.uniform1i(uniforms.uSkybox, 0);
+
+        gl.activeTexture(gl.TEXTURE2);
+        gl.bindTexture(gl.TEXTURE_CUBE_MAP, levels[sharper + 1]);
+        gl.uniform1i(uniforms.uSkyboxBlurred, 2);
+        gl.uniform1f(uniforms.uBlur, blur - sharper);
+
+        environments.setUniforms(gl, this.backgroundShader);
+        display.setUniforms(gl, this.backgroundShader, 1);
 
         gl.drawElements(
             gl.TRIANGLES,
@@ -386,6 +258,71 @@ export default class MeshDisplay {
         gl.enable(gl.CULL_FACE);
     }
 
+    // outline of the brush lying flat on the surface
+    drawBrushCursor(
+        gl: WebGLRenderingContext,
+        viewMatrix: mat4,
+        projectionMatrix: mat4,
+        position: vec3,
+        normal: vec3,
+        radius: number
+    ) {
+        gl.disable(gl.CULL_FACE);
+        gl.useProgram(this.lineShader.program);
+
+        const orientation = quat.create();
+        quat.rotationTo(orientation, [0, 0, 1], normal);
+
+        // lift the circle off the surface a little so it doesn't z-fight
+        const center = vec3.create();
+        vec3.scaleAndAdd(center, position, normal, radius * 0.01);
+
+        const modelMatrix = mat4.create();
+        mat4.fromRotationTranslationScale(modelMatrix, orientation, center, [
+            radius,
+            radius,
+            radius,
+        ]);
+
+        const modelViewMatrix = mat4.create();
+        mat4.mul(modelViewMatrix, viewMatrix, modelMatrix);
+
+        gl.uniformMatrix4fv(
+            this.lineShader.uniforms.uProjectionMatrix,
+            false,
+            projectionMatrix
+        );
+        gl.uniformMatrix4fv(
+            this.lineShader.uniforms.uModelViewMatrix,
+            false,
+            modelViewMatrix
+        );
+
+        {
+            const size = 3;
+            const type = gl.FLOAT; // 32 bit floats
+            const normalize = false;
+            const stride = 0;
+            const offset = 0;
+            gl.bindBuffer(gl.ARRAY_BUFFER, this.circleBuffer);
+            gl.vertexAttribPointer(
+                this.lineShader.attributes.aVertexPosition,
+                size,
+                type,
+                normalize,
+                stride,
+                offset
+            );
+            gl.enableVertexAttribArray(
+                this.lineShader.attributes.aVertexPosition
+            );
+        }
+
+        gl.drawArrays(gl.LINE_LOOP, 0, CIRCLE_SEGMENTS);
+
+        gl.enable(gl.CULL_FACE);
+    }
+
     drawCube(
         gl: WebGLRenderingContext,
         viewMatrix: mat4,
@@ -454,6 +391,12 @@ export default class MeshDisplay {
     }
 }
 
+export interface MeshView {
+    position: vec3;
+    rotation: quat;
+    scale: number;
+}
+
 const INITIAL_TRANSLATION = vec3.create();
 vec3.set(INITIAL_TRANSLATION, 0, 0, -6);
 
@@ -3,17 +3,24 @@ import loadShaderProgram, { Shader } from '../shaders';
 
 import vertImageShader from '../shaders/imageShader/vert.glsl';
 import fragImageShader from '../shaders/imageShader/frag.glsl';
+import fragSelectionShader from '../shaders/selectionShader/frag.glsl';
 
 import { generateRectVerticesStrip, rectVerticesStripUV } from '../primitives';
 import WindowManager from '../windowManager';
 import Slate from '../slate';
 
+// how often the marching ants move (in milliseconds)
+const MARCHING_ANTS_INTERVAL = 100;
+
 export default class TextureDisplay {
     imagePositionBuffer: WebGLBuffer;
 
     imageShader: Shader;
     imageUVBuffer: WebGLBuffer; // TODO: share this with all rectangles?
 
+    selectionShader: Shader;
+    antsTimer: number;
+
     async initGL(gl: WebGLRenderingContext) {
         this.imagePositionBuffer = gl.createBuffer();
 
@@ -30,6 +37,12 @@ export default class TextureDisplay {
             fragImageShader
         );
 
+        this.selectionShader = loadShaderProgram(
+            gl,
+            vertImageShader,
+            fragSelectionShader
+        );
+
         // TODO create texture for each layer (probably split layer into a class)
 
         this.imageUVBuffer = gl.createBuffer();
@@ -74,6 +87,76 @@ export default class TextureDisplay {
             modelViewMatrix
         );
 
+        this.bindImageRect(gl, this.imageShader);
+
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_2D, windowManager.slate.albedo);
+        gl.uniform1i(this.imageShader.uniforms.uSampler, 0);
+        gl.uniform1i(
+            this.imageShader.uniforms.uColorSpace,
+            windowManager.slate.workingSpace
+        );
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST); // show the pixels
+
+        windowManager.display.setUniforms(gl, this.imageShader, 1);
+
+        {
+            const offset = 0;
+            const count = 4;
+            gl.drawArrays(gl.TRIANGLE_STRIP, offset, count);
+        }
+
+        const mesh = windowManager.mesh;
+        if (drawUVMap && mesh) {
+            const uvMatrix = mat4.clone(modelViewMatrix);
+            mat4.scale(uvMatrix, uvMatrix, [1, -1, 1]);
+            mat4.translate(uvMatrix, uvMatrix, [0, -1, 0]);
+            mesh.drawUV(gl, uvMatrix, windowManager.uiProjectionMatrix);
+        }
+
+        if (windowManager.slate.selection.active) {
+            this.drawSelection(windowManager, modelViewMatrix);
+        }
+    }
+
+    // outline the selection with marching ants
+    drawSelection(windowManager: WindowManager, modelViewMatrix: mat4) {
+        const gl = windowManager.gl;
+
+        gl.useProgram(this.selectionShader.program);
+        gl.uniformMatrix4fv(
+            this.selectionShader.uniforms.uProjectionMatrix,
+            false,
+            windowManager.uiProjectionMatrix
+        );
+        gl.uniformMatrix4fv(
+            this.selectionShader.uniforms.uModelViewMatrix,
+            false,
+            modelViewMatrix
+        );
+
+        this.bindImageRect(gl, this.selectionShader);
+
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_2D, windowManager.slate.selection.texture);
+        gl.uniform1i(this.selectionShader.uniforms.uSelection, 0);
+
+        const step = Math.floor(performance.now() / MARCHING_ANTS_INTERVAL);
+        gl.uniform1f(this.selectionShader.uniforms.uOffset, step % 8);
+
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+        // keep the ants marching
+        if (!this.antsTimer) {
+            this.antsTimer = window.setTimeout(() => {
+                this.antsTimer = null;
+                windowManager.drawOnNextFrame();
+            }, MARCHING_ANTS_INTERVAL);
+        }
+    }
+
+    // set up the unit rectangle and its texture coordinates for `shader`
+    bindImageRect(gl: WebGLRenderingContext, shader: Shader) {
         {
             const size = 2;
             const type = gl.FLOAT; // 32 bit floats
@@ -82,16 +165,14 @@ export default class TextureDisplay {
             const offset = 0;
             gl.bindBuffer(gl.ARRAY_BUFFER, this.imagePositionBuffer);
             gl.vertexAttribPointer(
-                this.imageShader.attributes.aVertexPosition,
+                shader.attributes.aVertexPosition,
                 size,
                 type,
                 normalize,
                 stride,
                 offset
             );
-            gl.enableVertexAttribArray(
-                this.imageShader.attributes.aVertexPosition
-            );
+            gl.enableVertexAttribArray(shader.attributes.aVertexPosition);
         }
 
         {
@@ -102,34 +183,14 @@ export default class TextureDisplay {
             const offset = 0;
             gl.bindBuffer(gl.ARRAY_BUFFER, this.imageUVBuffer);
             gl.vertexAttribPointer(
-                this.imageShader.attributes.aTextureCoord,
+                shader.attributes.aTextureCoord,
                 size,
                 type,
                 normalize,
                 stride,
                 offset
             );
-            gl.enableVertexAttribArray(
-                this.imageShader.attributes.aTextureCoord
-            );
-        }
-
-        gl.activeTexture(gl.TEXTURE0);
-        gl.bindTexture(gl.TEXTURE_2D, windowManager.slate.albedo);
-        gl.uniform1i(this.imageShader.uniforms.uSampler, 0);
-        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST); // show the pixels
-
-        {
-            const offset = 0;
-            const count = 4;
-            gl.drawArrays(gl.TRIANGLE_STRIP, offset, count);
-        }
-
-        const mesh = windowManager.mesh;
-        if (drawUVMap && mesh) {
-            mat4.scale(modelViewMatrix, modelViewMatrix, [1, -1, 1]);
-            mat4.translate(modelViewMatrix, modelViewMatrix, [0, -1, 0]);
-            mesh.drawUV(gl, modelViewMatrix, windowManager.uiProjectionMatrix);
+            gl.enableVertexAttribArray(shader.attributes.aTextureCoord);
         }
     }
 }
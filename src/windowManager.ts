@@ -1,10 +1,20 @@
-import { mat4, vec3 } from 'gl-matrix';
+import { mat4, quat, vec3 } from 'gl-matrix';
 import BrushEngine from './brushEngine';
+import BrushLibrary from './brushPresets';
+import type { ColorSpace } from './colorSpace';
+import Display from './display';
+import Environments from './environment';
+import { DEFAULT_EYEDROPPER, EyedropperSettings } from './eyedropper';
 import Image, { ImageFormat, ImageStorage } from './loader/image';
 import MeshData from './loader/meshData';
 import Mesh from './mesh';
+import Swatches from './palettes';
+import type { Project } from './project';
+import Autosave from './project/autosave';
 import Slate from './slate';
+import { Tool } from './tools';
 import type Widget from './widget';
+import type { MeshView } from './widgets/meshDisplay';
 
 const brushSize = 40.0;
 const brushColor = vec3.create();
@@ -29,8 +39,18 @@ export default class WindowManager {
     frameRequest: number;
 
     slate: Slate; // keeping this here until I find a better home for it
+    display: Display; // how every view is tone mapped
+    environments: Environments; // what lights the 3D view
     mesh: Mesh; // and this
     brushEngine: BrushEngine; // and this as well
+    brushLibrary: BrushLibrary;
+    swatches: Swatches;
+    meshView: MeshView; // camera for the 3D view, here so projects can save it
+    autosave: Autosave;
+    tool: Tool; // what the pointer does in the texture view
+    eyedropper: EyedropperSettings;
+    inputSpace: ColorSpace; // overrides the tag of opened images, null to trust it
+    toolListeners: (() => void)[];
 
     constructor(canvas: HTMLCanvasElement, widgets: { new (): Widget }[]) {
         this.canvas = canvas;
@@ -38,6 +58,7 @@ export default class WindowManager {
         this.uiProjectionMatrix = mat4.create();
 
         glAssertEnable(this.gl, 'OES_texture_float');
+        glAssertEnable(this.gl, 'OES_standard_derivatives'); // for normal mapping without tangents
 
         this.gl.enable(this.gl.CULL_FACE);
 
@@ -72,13 +93,37 @@ export default class WindowManager {
         window.addEventListener('orientationchange', handleResize);
 
         window.addEventListener('keydown', (e) => {
+            const typing = e.target instanceof HTMLInputElement; // leave text editing shortcuts alone
+
             if (e.key === 'z' && e.ctrlKey) {
+                // a stroke still on the GPU has to be in the layer before history can change it
+                this.brushEngine.commitStroke();
                 this.slate.undo();
 
                 this.drawOnNextFrame();
             } else if ((e.key === 'y' || e.key === 'Z') && e.ctrlKey) {
+                this.brushEngine.commitStroke();
                 this.slate.redo();
 
+                this.drawOnNextFrame();
+            } else if (!typing && e.key === 'a' && e.ctrlKey) {
+                e.preventDefault();
+                this.slate.selection.selectAll();
+
+                this.drawOnNextFrame();
+            } else if (!typing && e.key === 'd' && e.ctrlKey) {
+                e.preventDefault(); // don't bookmark the page
+                this.slate.selection.deselect();
+
+                this.drawOnNextFrame();
+            } else if (!typing && e.key === 'i' && !e.ctrlKey) {
+                this.setTool(Tool.Eyedropper);
+            } else if (!typing && e.key === 'b' && !e.ctrlKey) {
+                this.setTool(Tool.Brush);
+            } else if (!typing && e.key === 'i' && e.ctrlKey) {
+                e.preventDefault(); // don't open page info
+                this.slate.selection.invert();
+
                 this.drawOnNextFrame();
             }
         });
@@ -87,8 +132,44 @@ export default class WindowManager {
         this.drawList = [];
 
         this.slate = new Slate(this.gl, 1024, 576);
+        this.display = new Display(this.gl);
+        this.environments = new Environments(this.gl);
+        this.environments.subscribe(() => this.drawOnNextFrame());
+        this.environments
+            .select(0)
+            .catch((e) => console.error("couldn't load the environment", e));
         this.mesh = null;
         this.brushEngine = new BrushEngine(brushSize, brushColor, 0.4, this);
+        this.brushLibrary = new BrushLibrary();
+        this.swatches = new Swatches();
+        this.meshView = {
+            position: vec3.create(),
+            rotation: quat.create(),
+            scale: 1,
+        };
+        this.autosave = new Autosave(this);
+        this.tool = Tool.Brush;
+        this.eyedropper = { ...DEFAULT_EYEDROPPER };
+        this.inputSpace = null;
+        this.toolListeners = [];
+    }
+
+    setTool(tool: Tool) {
+        this.tool = tool;
+        for (let i = 0; i < this.toolListeners.length; i++) {
+            this.toolListeners[i]();
+        }
+    }
+
+    // listeners are told when the tool changes, which keyboard shortcuts can do from anywhere
+    subscribeTool(listener: () => void) {
+        this.toolListeners.push(listener);
+
+        return () => {
+            this.toolListeners = this.toolListeners.filter(
+                (l) => l !== listener
+            );
+        };
     }
 
     setViewport(x: number, y: number, width: number, height: number) {
@@ -178,8 +259,36 @@ export default class WindowManager {
     }
 
     setMesh(meshData: MeshData) {
+        if (!meshData.bvh) {
+            meshData.buildBVH();
+        }
         this.mesh = new Mesh(this.gl, this.slate, meshData);
     }
+
+    // replace the whole session with a saved project
+    loadProject(project: Project) {
+        // the layers are already in the project's working space
+        this.slate.workingSpace = project.workingSpace;
+        this.slate.setLayers(
+            project.width,
+            project.height,
+            project.layers,
+            project.activeLayerIndex
+        );
+
+        if (project.mesh) {
+            this.setMesh(project.mesh);
+        } else {
+            this.mesh = null;
+        }
+
+        this.meshView = project.view;
+        this.brushEngine.applySettings(project.brush);
+        this.swatches.applySettings(project.swatches);
+        this.environments.applySettings(project.environment);
+
+        this.drawOnNextFrame();
+    }
 }
 
 const glAssertEnable = (gl: WebGLRenderingContext, extName: string) => {